@@ -0,0 +1,124 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+
+import { analyzeObfuscation, shannonEntropy } from "../entropy.js";
+import { defaultScannerConfig, loadScannerConfig } from "../scanner-config.js";
+import { scanSkillContent } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const TEST_DIR = join(tmpdir(), `skillsync-entropy-test-${Date.now()}`);
+const DEFAULTS = defaultScannerConfig().entropy;
+
+function patternsFor(content: string, file?: string, thresholds = DEFAULTS): string[] {
+  return analyzeObfuscation(content.split("\n"), file, thresholds).map((f) => f.pattern);
+}
+
+// Deterministic high-entropy ASCII: every base64 symbol, shuffled by a fixed stride
+const RANDOM_LITERAL = Array.from({ length: 128 }, (_, i) =>
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"[(i * 37) % 64]).join("");
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("entropy", () => {
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true }).catch(() => {});
+  });
+
+  describe("shannonEntropy", () => {
+    it("should measure bits per character", () => {
+      assert.equal(shannonEntropy(""), 0);
+      assert.equal(shannonEntropy("aaaa"), 0);
+      assert.equal(shannonEntropy("abab"), 1);
+      assert.equal(shannonEntropy("abcdefgh"), 3);
+    });
+  });
+
+  describe("analyzeObfuscation", () => {
+    it("should flag high-entropy string literals with the measured score", () => {
+      const findings = analyzeObfuscation([`const key = "${RANDOM_LITERAL}";`], "a.js", DEFAULTS);
+      const literal = findings.find((f) => f.pattern === "high-entropy-string");
+      assert.ok(literal);
+      assert.equal(literal.score, 6);
+      assert.deepEqual(literal.locations, [{ line: 1, column: 13 }]);
+      assert.ok(literal.description.includes("6 bits/char"));
+    });
+
+    it("should flag long hex and base64 runs", () => {
+      assert.ok(patternsFor(`blob = ${randomBytes(80).toString("hex")}`).includes("long-hex-run"));
+      assert.ok(patternsFor(`blob = ${randomBytes(200).toString("base64")}`).includes("long-base64-run"));
+    });
+
+    it("should detect packed and minified JavaScript", () => {
+      assert.ok(patternsFor("eval(function(p,a,c,k,e,d){e=function(c){return c};}('0 1',2,2,'x|y'.split('|'),0,{}))").includes("packed-code"));
+
+      const minified = "a=1;b=a+1;".repeat(200);
+      assert.ok(patternsFor(minified, "dist/app.js").includes("minified-code"));
+      assert.ok(!patternsFor(minified, "notes.md").includes("minified-code"));
+    });
+
+    it("should flag JSFuck-style punctuation but not markdown rulers", () => {
+      assert.ok(patternsFor("[][(![]+[])[+[]]+(![]+[])[!+[]+!+[]]+(!![]+[])[+[]]+(!![]+[])[+!+[]]][([][(![]+[])[+[]]]+[])]").includes("unusual-charset"));
+      assert.deepEqual(patternsFor(`|${"-".repeat(40)}|${":".repeat(2)}${"-".repeat(40)}|`), []);
+    });
+
+    it("should not flag ordinary code and prose", () => {
+      assert.deepEqual(patternsFor([
+        "export function add(a: number, b: number): number {",
+        "  return a + b; // plain arithmetic with a comment that is long enough to be measured by the scanner",
+        "}",
+        "const message = \"This is a perfectly ordinary sentence that happens to be quite long for a string literal.\";",
+      ].join("\n"), "math.ts"), []);
+    });
+
+    it("should respect tuned thresholds", () => {
+      const line = `const key = "${RANDOM_LITERAL}";`;
+      assert.deepEqual(patternsFor(line, "a.js", { ...DEFAULTS, enabled: false }), []);
+      assert.ok(!patternsFor(line, "a.js", { ...DEFAULTS, literalEntropy: 6.5 }).includes("high-entropy-string"));
+    });
+  });
+
+  describe("scanner integration", () => {
+    it("should report obfuscation warnings with a score", () => {
+      const result = scanSkillContent(`const key = "${RANDOM_LITERAL}";`, { file: "a.js" });
+      const threat = result.threats.find((t) => t.pattern === "high-entropy-string");
+      assert.ok(threat);
+      assert.equal(threat.category, "obfuscation");
+      assert.equal(threat.severity, "warning");
+      assert.equal(threat.score, 6);
+    });
+  });
+
+  describe("loadScannerConfig", () => {
+    it("should use defaults when no config exists", async () => {
+      const { config } = await loadScannerConfig([join(TEST_DIR, "missing.json")]);
+      assert.deepEqual(config, defaultScannerConfig());
+    });
+
+    it("should let later files override individual thresholds", async () => {
+      await mkdir(TEST_DIR, { recursive: true });
+      const globalPath = join(TEST_DIR, "global.json");
+      const projectPath = join(TEST_DIR, "project.json");
+      await writeFile(globalPath, JSON.stringify({ version: 1, entropy: { lineEntropy: 5.8, symbolRatio: 0.9 } }), "utf-8");
+      await writeFile(projectPath, JSON.stringify({ version: 1, entropy: { lineEntropy: 6.0 } }), "utf-8");
+
+      const { config, signature } = await loadScannerConfig([globalPath, projectPath]);
+      assert.equal(config.entropy.lineEntropy, 6.0);
+      assert.equal(config.entropy.symbolRatio, 0.9);
+      assert.equal(config.entropy.literalEntropy, DEFAULTS.literalEntropy);
+      assert.notEqual(signature, (await loadScannerConfig([join(TEST_DIR, "missing.json")])).signature);
+    });
+
+    it("should ignore an invalid config file", async () => {
+      await mkdir(TEST_DIR, { recursive: true });
+      const path = join(TEST_DIR, "bad.json");
+      await writeFile(path, JSON.stringify({ version: 1, entropy: { symbolRatio: 3 } }), "utf-8");
+      const { config } = await loadScannerConfig([path]);
+      assert.equal(config.entropy.symbolRatio, DEFAULTS.symbolRatio);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { sniffFileType, sniffText, fileTypeThreats } from "../file-type.js";
+import { scanSkillFiles } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function bytes(prefix: number[] | string, length = 64): Uint8Array {
+  const out = new Uint8Array(Math.max(length, prefix.length));
+  out.set(typeof prefix === "string" ? Buffer.from(prefix, "latin1") : prefix);
+  return out;
+}
+
+function pe(): Uint8Array {
+  const out = bytes("MZ", 128);
+  out[0x3c] = 0x40;
+  out.set(Buffer.from("PE\0\0", "latin1"), 0x40);
+  return out;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("file-type", () => {
+  describe("sniffFileType", () => {
+    it("recognizes native executables and WebAssembly", () => {
+      assert.deepEqual(sniffFileType(bytes([0x7f, 0x45, 0x4c, 0x46])), { kind: "executable", format: "ELF" });
+      assert.deepEqual(sniffFileType(bytes([0xcf, 0xfa, 0xed, 0xfe])), { kind: "executable", format: "Mach-O" });
+      assert.deepEqual(sniffFileType(pe()), { kind: "executable", format: "PE" });
+      assert.deepEqual(sniffFileType(bytes([0x00, 0x61, 0x73, 0x6d, 1, 0, 0, 0])), { kind: "executable", format: "WebAssembly" });
+    });
+
+    it("tells a universal Mach-O from a Java class", () => {
+      assert.equal(sniffFileType(bytes([0xca, 0xfe, 0xba, 0xbe, 0, 0, 0, 2])).format, "Mach-O (universal)");
+      assert.equal(sniffFileType(bytes([0xca, 0xfe, 0xba, 0xbe, 0, 0, 0, 52])).format, "Java class");
+    });
+
+    it("does not take text starting with MZ for a PE file", () => {
+      assert.equal(sniffFileType(bytes("MZ is a two-letter abbreviation".padEnd(128, " "))).kind, "text");
+    });
+
+    it("recognizes archives, images and documents", () => {
+      assert.deepEqual(sniffFileType(bytes([0x50, 0x4b, 0x03, 0x04])), { kind: "archive", format: "ZIP" });
+      assert.deepEqual(sniffFileType(bytes([0x1f, 0x8b, 0x08])), { kind: "archive", format: "gzip" });
+      const tar = bytes("notes.txt", 512);
+      tar.set(Buffer.from("ustar", "latin1"), 257);
+      assert.deepEqual(sniffFileType(tar), { kind: "archive", format: "tar" });
+      assert.deepEqual(sniffFileType(bytes([0x89, 0x50, 0x4e, 0x47])), { kind: "image", format: "PNG" });
+      assert.deepEqual(sniffFileType(bytes("RIFF\0\0\0\0WEBP")), { kind: "image", format: "WebP" });
+      assert.deepEqual(sniffFileType(bytes("%PDF-1.7\n")), { kind: "document", format: "PDF" });
+    });
+
+    it("uses the NUL-byte ratio for unrecognized content", () => {
+      assert.deepEqual(sniffFileType(bytes("\x01\x02\x03\x04", 256)), { kind: "binary", format: "binary data" });
+      assert.deepEqual(sniffFileType(Buffer.from("plain text\n")), { kind: "text", format: "text" });
+      assert.deepEqual(sniffFileType(new Uint8Array(0)), { kind: "text", format: "text" });
+    });
+
+    it("finds the interpreter of #! scripts", () => {
+      assert.deepEqual(sniffFileType(Buffer.from("#!/bin/sh\necho hi\n")), { kind: "script", format: "script", interpreter: "sh" });
+      assert.equal(sniffText("#!/usr/bin/env python3\nprint(1)").interpreter, "python3");
+      assert.equal(sniffText("#!/usr/bin/env -S node --no-warnings\n").interpreter, "node");
+      assert.equal(sniffText("# heading\n#!/bin/sh").kind, "text");
+    });
+  });
+
+  describe("fileTypeThreats", () => {
+    it("flags executables hidden behind text or image extensions as critical", () => {
+      const elf = { kind: "executable", format: "ELF" } as const;
+      assert.deepEqual(fileTypeThreats("helper.txt", elf).map((t) => [t.pattern, t.severity, t.category]), [
+        ["file-type-mismatch", "critical", "disguised-file"],
+        ["executable-file", "warning", "executable"],
+      ]);
+      assert.equal(fileTypeThreats("logo.png", elf)[0].severity, "critical");
+      assert.match(fileTypeThreats("helper.txt", elf)[0].description, /ELF executable disguised as a \.txt file/);
+    });
+
+    it("reports an executable with a fitting name or no extension only as an executable", () => {
+      assert.deepEqual(fileTypeThreats("bin/tool", { kind: "executable", format: "ELF" }).map((t) => t.pattern), ["executable-file"]);
+      assert.deepEqual(fileTypeThreats("lib/addon.node", { kind: "executable", format: "ELF" }).map((t) => t.pattern), ["executable-file"]);
+    });
+
+    it("warns about scripts in data files and text in binary formats", () => {
+      const script = { kind: "script", format: "script", interpreter: "bash" } as const;
+      assert.deepEqual(fileTypeThreats("README.md", script).map((t) => [t.pattern, t.severity]), [["file-type-mismatch", "warning"]]);
+      assert.deepEqual(fileTypeThreats("setup.sh", script), []);
+      assert.deepEqual(fileTypeThreats("icon.png", { kind: "text", format: "text" }).map((t) => [t.pattern, t.severity]), [["file-type-mismatch", "warning"]]);
+    });
+
+    it("keeps plain binary-file findings for honestly named binaries", () => {
+      assert.deepEqual(fileTypeThreats("icon.png", { kind: "image", format: "PNG" }).map((t) => t.pattern), ["binary-file"]);
+      assert.deepEqual(fileTypeThreats("notes.md", { kind: "text", format: "text" }), []);
+    });
+  });
+
+  describe("scanner integration", () => {
+    it("lists executables and scores them as capabilities", () => {
+      const result = scanSkillFiles(
+        [{ path: "SKILL.md", content: "# Tool" }, { path: "run", content: "#!/bin/bash\necho ok\n" }],
+        {},
+        [{ path: "bin/helper.txt", type: { kind: "executable", format: "Mach-O" } }],
+      );
+      assert.deepEqual(result.executables?.map((e) => e.path), ["bin/helper.txt", "run"]);
+      assert.equal(result.riskLevel, "critical");
+      assert.deepEqual(result.capabilities?.inferred.find((c) => c.capability === "shell")?.evidence, ["bin/helper.txt", "run"]);
+    });
+
+    it("is not safe when it ships a native executable", () => {
+      const result = scanSkillFiles([{ path: "SKILL.md", content: "# Tool" }], {}, [{ path: "bin/tool", type: { kind: "executable", format: "ELF" } }]);
+      assert.equal(result.riskLevel, "medium");
+      assert.equal(result.safe, false);
+    });
+  });
+});
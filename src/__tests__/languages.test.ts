@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { detectLanguage, isDocumentLanguage } from "../languages.js";
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("languages", () => {
+  describe("detectLanguage", () => {
+    it("maps extensions case-insensitively", () => {
+      assert.equal(detectLanguage("scripts/run.ts"), "javascript");
+      assert.equal(detectLanguage("lib/index.MJS"), "javascript");
+      assert.equal(detectLanguage("tools/fetch.py"), "python");
+      assert.equal(detectLanguage("install.sh"), "shell");
+      assert.equal(detectLanguage("setup.zsh"), "shell");
+      assert.equal(detectLanguage("Install.PS1"), "powershell");
+      assert.equal(detectLanguage("SKILL.md"), "markdown");
+    });
+
+    it("treats other files as text", () => {
+      assert.equal(detectLanguage("config.yaml"), "text");
+      assert.equal(detectLanguage("notes.txt"), "text");
+      assert.equal(detectLanguage(undefined), "text");
+    });
+
+    it("falls back to the shebang for extensionless files", () => {
+      assert.equal(detectLanguage("bin/run", "#!/bin/bash\necho hi"), "shell");
+      assert.equal(detectLanguage("bin/run", "#!/usr/bin/env python3\nprint(1)"), "python");
+      assert.equal(detectLanguage("bin/run", "#!/usr/bin/env -S node --no-warnings\n"), "javascript");
+      assert.equal(detectLanguage("bin/run", "#!/usr/bin/env pwsh\n"), "powershell");
+      assert.equal(detectLanguage("bin/run", "plain text"), "text");
+    });
+
+    it("ignores the shebang when the extension decides", () => {
+      assert.equal(detectLanguage("run.py", "#!/bin/sh\n"), "python");
+    });
+  });
+
+  it("classifies markdown and text as documents", () => {
+    assert.equal(isDocumentLanguage("markdown"), true);
+    assert.equal(isDocumentLanguage("text"), true);
+    assert.equal(isDocumentLanguage("python"), false);
+  });
+});
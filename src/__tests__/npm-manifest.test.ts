@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { analyzeNpmManifest } from "../npm-manifest.js";
+import { POPULAR_NPM_PACKAGES, editDistance, typosquatTarget } from "../typosquat.js";
+import { scanSkillFiles } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function manifest(pkg: Record<string, unknown>): string {
+  return JSON.stringify({ name: "demo-skill", version: "1.0.0", ...pkg }, null, 2);
+}
+
+function findings(path: string, content: string): Array<[string, number | undefined]> {
+  return analyzeNpmManifest(path, content).map((t) => [t.pattern, t.line]);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("npm-manifest", () => {
+  describe("typosquatTarget", () => {
+    it("matches single typos and separator games against popular names", () => {
+      assert.equal(typosquatTarget("lodahs", POPULAR_NPM_PACKAGES), "lodash");
+      assert.equal(typosquatTarget("expres", POPULAR_NPM_PACKAGES), "express");
+      assert.equal(typosquatTarget("crossenv", POPULAR_NPM_PACKAGES), "cross-env");
+      assert.equal(typosquatTarget("@type/node", POPULAR_NPM_PACKAGES), "@types/node");
+    });
+
+    it("leaves popular, short and unrelated names alone", () => {
+      assert.equal(typosquatTarget("lodash", POPULAR_NPM_PACKAGES), null);
+      assert.equal(typosquatTarget("qs", POPULAR_NPM_PACKAGES), null);
+      assert.equal(typosquatTarget("left-pad", POPULAR_NPM_PACKAGES), null);
+    });
+
+    it("counts an adjacent swap as one edit", () => {
+      assert.equal(editDistance("axois", "axios"), 1);
+      assert.equal(editDistance("kitten", "sitting"), 3);
+    });
+  });
+
+  describe("package.json", () => {
+    it("flags lifecycle scripts with their command", () => {
+      const threats = analyzeNpmManifest("package.json", manifest({
+        scripts: { test: "node --test", postinstall: "node scripts/setup.js", prepare: "husky install" },
+      }));
+      assert.deepEqual(threats.map((t) => [t.pattern, t.category, t.line]), [
+        ["npm-lifecycle-script", "supply-chain", 6],
+        ["npm-lifecycle-script", "supply-chain", 7],
+      ]);
+      assert.match(threats[0].description, /"postinstall" script runs on npm install: node scripts\/setup\.js/);
+    });
+
+    it("flags git, tarball and unbounded dependencies", () => {
+      assert.deepEqual(findings("package.json", manifest({
+        dependencies: {
+          "chalk": "^5.3.0",
+          "tool": "github:someone/tool#main",
+          "helper": "someone/helper",
+          "blob": "http://files.example.net/blob-1.0.0.tgz",
+          "anything": "*",
+          "newest": "latest",
+          "floor": ">=2.0.0",
+          "local": "file:../local",
+        },
+        devDependencies: { "typescript": "~5.4.0", "fixed": "v1.2.3" },
+      })), [
+        ["npm-git-dependency", 6],
+        ["npm-git-dependency", 7],
+        ["npm-url-dependency", 8],
+        ["npm-unpinned-dependency", 9],
+        ["npm-unpinned-dependency", 10],
+        ["npm-unpinned-dependency", 11],
+      ]);
+    });
+
+    it("checks the real name behind npm aliases for typosquats", () => {
+      const threats = analyzeNpmManifest("package.json", manifest({
+        dependencies: { "lodash": "npm:lodahs@^4.17.21", "reactdom": "^18.0.0" },
+      }));
+      assert.deepEqual(threats.map((t) => t.pattern), ["npm-typosquat", "npm-typosquat"]);
+      assert.match(threats[0].description, /"lodahs" \(aliased as "lodash"\) is one typo away from the popular package "lodash"/);
+      assert.match(threats[1].description, /"react-dom"/);
+    });
+
+    it("reports a manifest it cannot parse", () => {
+      assert.deepEqual(findings("package.json", "{ \"name\": "), [["npm-manifest-invalid", undefined]]);
+    });
+  });
+
+  describe("lockfiles", () => {
+    it("flags packages resolved outside the registry or without integrity", () => {
+      const lock = JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": { name: "demo-skill" },
+          "node_modules/chalk": { resolved: "https://registry.npmjs.org/chalk/-/chalk-5.3.0.tgz", integrity: "sha512-abc" },
+          "node_modules/evil": { resolved: "https://evil.example.net/evil-1.0.0.tgz", integrity: "sha512-def" },
+          "node_modules/bare": { resolved: "https://registry.npmjs.org/bare/-/bare-1.0.0.tgz" },
+          "node_modules/ws-pkg": { resolved: "packages/ws-pkg", link: true },
+        },
+      }, null, 2);
+      const threats = analyzeNpmManifest("package-lock.json", lock);
+      assert.deepEqual(threats.map((t) => t.pattern), ["lockfile-untrusted-source", "lockfile-missing-integrity"]);
+      assert.match(threats[0].description, /1 locked package\(s\) resolve outside the npm registry: evil \(evil\.example\.net\)/);
+      assert.equal(threats[0].line, 12);
+      assert.match(threats[1].description, /: bare$/);
+    });
+
+    it("reads resolved URLs from yarn and pnpm lockfiles", () => {
+      const yarn = [
+        "chalk@^5.3.0:",
+        "  version \"5.3.0\"",
+        "  resolved \"https://registry.yarnpkg.com/chalk/-/chalk-5.3.0.tgz#abc\"",
+        "tool@git+https://git.example.net/tool.git:",
+        "  resolved \"git+https://git.example.net/tool.git#0123abc\"",
+      ].join("\n");
+      assert.deepEqual(findings("yarn.lock", yarn), [["lockfile-untrusted-source", 5]]);
+
+      const pnpm = "packages:\n  /pkg@1.0.0:\n    resolution: {tarball: http://mirror.example.net/pkg-1.0.0.tgz}\n";
+      const [threat] = analyzeNpmManifest("pnpm-lock.yaml", pnpm);
+      assert.match(threat.description, /pkg-1\.0\.0\.tgz \(http:\/\/mirror\.example\.net\)/);
+    });
+  });
+
+  describe("scanner integration", () => {
+    it("scores a likely typosquat as high risk before install", () => {
+      const result = scanSkillFiles([
+        { path: "SKILL.md", content: "# Tool" },
+        { path: "package.json", content: manifest({ dependencies: { "axois": "^1.6.0" } }) },
+      ]);
+      assert.ok(result.threats.some((t) => t.pattern === "npm-typosquat" && t.file === "package.json"));
+      assert.equal(result.riskLevel, "high");
+    });
+
+    it("ignores files that merely mention package.json", () => {
+      const result = scanSkillFiles([{ path: "docs/package.json.md", content: "{ \"scripts\": { \"postinstall\": \"x\" } }" }]);
+      assert.ok(!result.threats.some((t) => t.category === "supply-chain"));
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import { loadPatternPacksFrom, customPatterns, globToRegExp } from "../pattern-packs.js";
+import { scanSkillFiles } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const TEST_DIR = join(tmpdir(), `skillsync-packs-test-${Date.now()}`);
+const GLOBAL_DIR = join(TEST_DIR, "global");
+const PROJECT_DIR = join(TEST_DIR, "project");
+
+const DIRS = [
+  { dir: GLOBAL_DIR, scope: "global" as const },
+  { dir: PROJECT_DIR, scope: "project" as const },
+];
+
+const ORG_PACK = {
+  name: "acme",
+  description: "Internal rules",
+  patterns: [
+    {
+      id: "internal-host",
+      regex: "corp\\.acme\\.internal",
+      severity: "critical",
+      category: "exfiltration",
+      description: "References an internal Acme host",
+    },
+    {
+      id: "py-pickle",
+      regex: "pickle\\.loads",
+      severity: "warning",
+      category: "code-execution",
+      description: "Unpickling untrusted data",
+      files: ["*.py"],
+    },
+  ],
+};
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("pattern-packs", () => {
+  beforeEach(async () => {
+    await mkdir(GLOBAL_DIR, { recursive: true });
+    await mkdir(PROJECT_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true }).catch(() => {});
+  });
+
+  describe("loadPatternPacksFrom", () => {
+    it("should return no packs when the directories do not exist", async () => {
+      const state = await loadPatternPacksFrom([{ dir: join(TEST_DIR, "missing"), scope: "global" }]);
+      assert.equal(state.packs.length, 0);
+      assert.equal(state.errors.length, 0);
+    });
+
+    it("should load JSON and YAML packs from both scopes", async () => {
+      await writeFile(join(GLOBAL_DIR, "acme.json"), JSON.stringify(ORG_PACK), "utf-8");
+      await writeFile(join(PROJECT_DIR, "team.yaml"), [
+        "name: team",
+        "patterns:",
+        "  - id: no-telemetry",
+        "    regex: 'telemetry\\.example\\.com'",
+        "    severity: warning",
+        "    category: network",
+        "    description: Sends telemetry to a third party",
+      ].join("\n"), "utf-8");
+
+      const state = await loadPatternPacksFrom(DIRS);
+      assert.deepEqual(state.errors, []);
+      assert.deepEqual(state.packs.map((p) => [p.name, p.scope]), [["acme", "global"], ["team", "project"]]);
+      assert.deepEqual(customPatterns(state).map((p) => p.id), ["acme/internal-host", "acme/py-pickle", "team/no-telemetry"]);
+    });
+
+    it("should report invalid packs without loading them", async () => {
+      await writeFile(join(GLOBAL_DIR, "bad-severity.json"), JSON.stringify({
+        name: "bad",
+        patterns: [{ id: "x", regex: "x", severity: "fatal", category: "misc", description: "x" }],
+      }), "utf-8");
+      await writeFile(join(GLOBAL_DIR, "bad-regex.yml"), [
+        "name: broken",
+        "patterns:",
+        "  - id: unclosed",
+        "    regex: '(abc'",
+        "    severity: warning",
+        "    category: misc",
+        "    description: Broken regex",
+      ].join("\n"), "utf-8");
+      await writeFile(join(GLOBAL_DIR, "acme.json"), JSON.stringify(ORG_PACK), "utf-8");
+
+      const state = await loadPatternPacksFrom(DIRS);
+      assert.deepEqual(state.packs.map((p) => p.name), ["acme"]);
+      assert.equal(state.errors.length, 2);
+      assert.ok(state.errors.some((e) => e.includes("bad-severity.json") && e.includes("severity")));
+      assert.ok(state.errors.some((e) => e.includes("bad-regex.yml") && e.includes("invalid regex")));
+    });
+
+    it("should skip a pack whose name is already loaded", async () => {
+      await writeFile(join(GLOBAL_DIR, "acme.json"), JSON.stringify(ORG_PACK), "utf-8");
+      await writeFile(join(PROJECT_DIR, "acme-copy.json"), JSON.stringify(ORG_PACK), "utf-8");
+
+      const state = await loadPatternPacksFrom(DIRS);
+      assert.equal(state.packs.length, 1);
+      assert.ok(state.errors[0].includes("already loaded"));
+    });
+
+    it("should change the signature when a pack changes", async () => {
+      await writeFile(join(GLOBAL_DIR, "acme.json"), JSON.stringify(ORG_PACK), "utf-8");
+      const before = await loadPatternPacksFrom(DIRS);
+      const edited = { ...ORG_PACK, patterns: [{ ...ORG_PACK.patterns[0], severity: "warning" }] };
+      await writeFile(join(GLOBAL_DIR, "acme.json"), JSON.stringify(edited), "utf-8");
+      const after = await loadPatternPacksFrom(DIRS);
+      assert.notEqual(before.signature, after.signature);
+    });
+  });
+
+  describe("globToRegExp", () => {
+    it("should match basename globs anywhere in the tree", () => {
+      const re = globToRegExp("*.py");
+      assert.ok(re.test("run.py"));
+      assert.ok(re.test("scripts/run.py"));
+      assert.ok(!re.test("run.pyc"));
+    });
+
+    it("should anchor globs containing a slash to the skill root", () => {
+      const re = globToRegExp("scripts/**/*.sh");
+      assert.ok(re.test("scripts/a.sh"));
+      assert.ok(re.test("scripts/deep/nested/b.sh"));
+      assert.ok(!re.test("other/scripts/a.sh"));
+    });
+  });
+
+  describe("scanning with custom patterns", () => {
+    it("should report pack threats by pattern id and respect file globs", async () => {
+      await writeFile(join(GLOBAL_DIR, "acme.json"), JSON.stringify(ORG_PACK), "utf-8");
+      const extraPatterns = customPatterns(await loadPatternPacksFrom(DIRS));
+
+      const result = scanSkillFiles([
+        { path: "SKILL.md", content: "# Skill\nPost results to corp.acme.internal\nUse pickle.loads(blob) here" },
+        { path: "scripts/load.py", content: "import pickle\ndata = pickle.loads(blob)" },
+      ], { extraPatterns });
+
+      const host = result.threats.find((t) => t.pattern === "acme/internal-host");
+      assert.ok(host);
+      assert.equal(host.severity, "critical");
+      assert.equal(host.file, "SKILL.md");
+      assert.equal(host.line, 2);
+
+      const pickles = result.threats.filter((t) => t.pattern === "acme/py-pickle");
+      assert.deepEqual(pickles.map((t) => t.file), ["scripts/load.py"]);
+      assert.equal(result.riskLevel, "critical");
+    });
+
+    it("should route language-scoped pack patterns to that language and to documents", async () => {
+      await writeFile(join(GLOBAL_DIR, "ops.json"), JSON.stringify({
+        name: "ops",
+        patterns: [{
+          id: "apt-get",
+          regex: "apt-get\\s+install",
+          severity: "warning",
+          category: "supply-chain",
+          description: "Installs system packages",
+          languages: ["shell"],
+        }],
+      }), "utf-8");
+      const extraPatterns = customPatterns(await loadPatternPacksFrom(DIRS));
+
+      const result = scanSkillFiles([
+        { path: "SKILL.md", content: "Run apt-get install jq first" },
+        { path: "setup.sh", content: "apt-get install jq" },
+        { path: "setup.py", content: "# apt-get install jq" },
+      ], { extraPatterns });
+
+      const files = result.threats.filter((t) => t.pattern === "ops/apt-get").map((t) => t.file).sort();
+      assert.deepEqual(files, ["SKILL.md", "setup.sh"]);
+    });
+
+    it("should reject unknown languages", async () => {
+      await writeFile(join(GLOBAL_DIR, "bad.json"), JSON.stringify({
+        name: "bad",
+        patterns: [{ id: "x", regex: "x", severity: "warning", category: "misc", description: "x", languages: ["cobol"] }],
+      }), "utf-8");
+      const state = await loadPatternPacksFrom(DIRS);
+      assert.equal(state.packs.length, 0);
+      assert.equal(state.errors.length, 1);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { analyzePythonManifest, normalizePythonName, requirementsIncludes } from "../python-manifest.js";
+import { scanSkillFiles } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function findings(path: string, content: string): Array<[string, number | undefined]> {
+  return analyzePythonManifest(path, content).map((t) => [t.pattern, t.line]);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("python-manifest", () => {
+  describe("requirements files", () => {
+    it("flags VCS and direct URL requirements", () => {
+      const threats = analyzePythonManifest("requirements.txt", [
+        "requests==2.32.3",
+        "git+https://git.example.net/tool.git@main#egg=tool",
+        "helper @ http://files.example.net/helper-1.0.tar.gz",
+        "-e git+https://git.example.net/dev.git#egg=dev",
+        "-e ./local-package",
+      ].join("\n"));
+      assert.deepEqual(threats.map((t) => [t.pattern, t.line]), [
+        ["pip-vcs-requirement", 2],
+        ["pip-url-requirement", 3],
+        ["pip-vcs-requirement", 4],
+      ]);
+      assert.match(threats[0].description, /^tool installs from version control/);
+      assert.match(threats[1].description, /over plain HTTP/);
+    });
+
+    it("flags requirements without an upper version bound", () => {
+      assert.deepEqual(findings("requirements-dev.txt", [
+        "flask",
+        "numpy>=1.26",
+        "pandas>=2.0,<3",
+        "rich~=13.7",
+        "pyyaml==6.0.1 --hash=sha256:abc \\",
+        "    --hash=sha256:def",
+        "httpx[http2] > 0.27 ; python_version >= \"3.9\"",
+        "# a comment",
+      ].join("\n")), [
+        ["pip-unpinned-requirement", 1],
+        ["pip-unpinned-requirement", 2],
+        ["pip-unpinned-requirement", 7],
+      ]);
+    });
+
+    it("flags index overrides and trusted hosts", () => {
+      const threats = analyzePythonManifest("requirements/base.txt", [
+        "--index-url https://pypi.example.net/simple",
+        "--extra-index-url=https://mirror.example.net/simple",
+        "--trusted-host mirror.example.net",
+        "-r common.txt",
+      ].join("\n"));
+      assert.deepEqual(threats.map((t) => [t.pattern, t.line]), [
+        ["pip-index-override", 1],
+        ["pip-index-override", 2],
+        ["pip-trusted-host", 3],
+      ]);
+      assert.match(threats[1].description, /dependency confusion/);
+    });
+
+    it("reads attached short options and abbreviated long options the way pip does", () => {
+      const threats = analyzePythonManifest("requirements.txt", [
+        "-ihttps://pypi.example.net/simple",
+        "--extra-index=https://mirror.example.net/simple",
+        "--find https://files.example.net/wheels",
+        "--trust mirror.example.net",
+        "--e https://ambiguous.example.net",
+        "--pre",
+      ].join("\n"));
+      assert.deepEqual(threats.map((t) => [t.pattern, t.line]), [
+        ["pip-index-override", 1],
+        ["pip-index-override", 2],
+        ["pip-index-override", 3],
+        ["pip-trusted-host", 4],
+      ]);
+      assert.match(threats[1].description, /^--extra-index-url https:\/\/mirror\.example\.net\/simple/);
+    });
+
+    it("lists the files pulled in with -r and -c", () => {
+      assert.deepEqual(requirementsIncludes([
+        "-r common.txt",
+        "--requirement=dev/extra.txt",
+        "-cconstraints.txt",
+        "--constr https://example.net/pins.txt",
+        "requests==2.32.3",
+      ].join("\n")), ["common.txt", "dev/extra.txt", "constraints.txt", "https://example.net/pins.txt"]);
+    });
+
+    it("compares normalized names against popular packages", () => {
+      assert.equal(normalizePythonName("Python_Dateutil"), "python-dateutil");
+      assert.deepEqual(findings("requirements.txt", "reqeusts==2.32.3\nPython_Dateutil==2.9.0\nbeautifulsoup==4.0"), [
+        ["pip-typosquat", 1],
+        ["pip-typosquat", 3],
+      ]);
+    });
+  });
+
+  describe("pyproject.toml", () => {
+    it("reads PEP 621 arrays, build requirements and dependency groups", () => {
+      const toml = [
+        "[build-system]",
+        "requires = [\"setuptools>=68\", \"wheel==0.43.0\"]",
+        "",
+        "[project]",
+        "name = \"demo\"",
+        "dependencies = [",
+        "  \"requests==2.32.3\",",
+        "  \"tool @ git+https://git.example.net/tool.git\",",
+        "  \"numpy[extra]>=1.26\",  # floor only",
+        "]",
+        "",
+        "[project.optional-dependencies]",
+        "dev = [\"pytset==8.0.0\"]",
+      ].join("\n");
+      assert.deepEqual(findings("pyproject.toml", toml), [
+        ["pip-unpinned-requirement", 2],
+        ["pip-vcs-requirement", 8],
+        ["pip-unpinned-requirement", 9],
+        ["pip-typosquat", 13],
+      ]);
+    });
+
+    it("reads Poetry dependencies and index sources", () => {
+      const toml = [
+        "[tool.poetry.dependencies]",
+        "python = \"^3.11\"",
+        "requests = \"^2.32\"",
+        "anything = \"*\"",
+        "tool = { git = \"https://git.example.net/tool.git\", rev = \"main\" }",
+        "",
+        "[[tool.poetry.source]]",
+        "name = \"internal\"",
+        "url = \"https://pypi.example.net/simple\"",
+        "",
+        "[tool.uv]",
+        "extra-index-url = [\"https://mirror.example.net/simple\"]",
+      ].join("\n");
+      assert.deepEqual(findings("pyproject.toml", toml), [
+        ["pip-unpinned-requirement", 4],
+        ["pip-vcs-requirement", 5],
+        ["pip-index-override", 9],
+        ["pip-index-override", 12],
+      ]);
+    });
+  });
+
+  describe("scanner integration", () => {
+    it("scores Python typosquats like npm ones and skips unrelated text files", () => {
+      const result = scanSkillFiles([
+        { path: "SKILL.md", content: "# Tool" },
+        { path: "requirements.txt", content: "reqeusts==2.32.3\n" },
+        { path: "notes.txt", content: "flask\n" },
+      ]);
+      assert.deepEqual(result.threats.filter((t) => t.category === "supply-chain").map((t) => [t.pattern, t.file]), [
+        ["pip-typosquat", "requirements.txt"],
+      ]);
+      assert.equal(result.riskLevel, "high");
+    });
+  });
+});
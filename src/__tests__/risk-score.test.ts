@@ -0,0 +1,161 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import { assessRisk } from "../risk-score.js";
+import { defaultScannerConfig, loadScannerConfig, type RiskModel } from "../scanner-config.js";
+import { scanSkillFiles } from "../security-scanner.js";
+import type { Threat } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const TEST_DIR = join(tmpdir(), `skillsync-risk-test-${Date.now()}`);
+const DEFAULTS = defaultScannerConfig().risk;
+
+function threat(category: string, overrides: Partial<Threat> = {}): Threat {
+  return { pattern: `${category}-pattern`, severity: "warning", description: "", category, file: "a.js", ...overrides };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("risk-score", () => {
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe("assessRisk", () => {
+    it("scores nothing as safe", () => {
+      assert.deepEqual(assessRisk([]), { score: 0, riskLevel: "safe", safe: true, factors: [] });
+    });
+
+    it("keeps the count-based levels for distinct warnings and any critical", () => {
+      assert.equal(assessRisk([threat("network")]).riskLevel, "low");
+      assert.equal(assessRisk(["network", "code-execution", "filesystem"].map((c) => threat(c))).riskLevel, "medium");
+      assert.equal(assessRisk([threat("destructive", { severity: "critical" })]).riskLevel, "critical");
+    });
+
+    it("decays a pattern repeated across files", () => {
+      const exits = ["a.js", "b.js", "c.js", "d.js", "e.js"].map((file) => threat("environment", { pattern: "process.exit", file }));
+      const result = assessRisk(exits);
+      assert.deepEqual(result.factors.map((f) => f.points), [5, 2.5, 1.25, 0.63, 0.31]);
+      assert.equal(result.riskLevel, "low");
+      assert.equal(result.safe, true);
+    });
+
+    it("ranks one decode-and-execute chain above repeated noise", () => {
+      const chain = assessRisk([threat("shell-execution", { encoding: "base64" })]);
+      const noise = assessRisk(["a.js", "b.js", "c.js", "d.js", "e.js"].map((file) => threat("environment", { pattern: "process.exit", file })));
+      assert.equal(chain.riskLevel, "high");
+      assert.ok(chain.score > noise.score);
+      assert.deepEqual(chain.factors.map((f) => [f.kind, f.id]), [["combination", "decode-and-execute"], ["finding", "shell-execution-pattern"]]);
+    });
+
+    it("escalates co-occurring obfuscation, network and shell execution to critical", () => {
+      const result = assessRisk([threat("obfuscation"), threat("network"), threat("shell-execution")]);
+      assert.equal(result.riskLevel, "critical");
+      assert.equal(result.safe, false);
+      assert.ok(result.factors.some((f) => f.kind === "combination" && f.id === "obfuscated-dropper"));
+    });
+
+    it("ignores suppressed threats", () => {
+      const result = assessRisk([threat("destructive", { severity: "critical", suppression: { reason: "ok", reviewer: "r" } })]);
+      assert.equal(result.riskLevel, "safe");
+    });
+
+    it("applies pattern weights, category weights and thresholds from the model", () => {
+      const model: RiskModel = {
+        ...DEFAULTS,
+        patternWeights: { "js/eval": 0 },
+        categoryWeights: { network: 3 },
+        thresholds: { low: 5, medium: 20, high: 40, critical: 80 },
+        combinations: [],
+      };
+      const result = assessRisk([threat("code-execution", { pattern: "js/eval" }), threat("network")], model);
+      assert.equal(result.score, 30);
+      assert.equal(result.riskLevel, "medium");
+      assert.deepEqual(result.factors.map((f) => f.id), ["network-pattern"]);
+    });
+
+    it("keeps any critical finding critical however the model is tuned", () => {
+      const model: RiskModel = {
+        ...DEFAULTS,
+        severityWeights: { warning: 10, critical: 0 },
+        patternWeights: { "rce-pattern": 0 },
+        thresholds: { low: 1000, medium: 2000, high: 3000, critical: 4000 },
+      };
+      const result = assessRisk([threat("rce", { severity: "critical" }), threat("destructive", { severity: "critical" })], model);
+      assert.equal(result.score, 0);
+      assert.equal(result.riskLevel, "critical");
+      assert.equal(result.safe, false);
+    });
+
+    it("does not read weights from Object.prototype for ids like __proto__", () => {
+      const result = assessRisk([
+        threat("prototype-pollution", { pattern: "__proto__" }),
+        threat("constructor", { pattern: "constructor" }),
+      ]);
+      assert.equal(result.score, 20);
+      assert.ok(result.factors.every((f) => Number.isFinite(f.points)));
+    });
+  });
+
+  describe("scanner integration", () => {
+    it("returns the score and factors in the scan result", () => {
+      const payload = Buffer.from("require('child_process').execSync('id')").toString("base64");
+      const result = scanSkillFiles([{ path: "tool.py", content: `blob = "${payload}"` }]);
+      assert.ok(result.riskScore !== undefined && result.riskScore >= DEFAULTS.thresholds.high);
+      assert.ok(result.riskFactors?.some((f) => f.id === "decode-and-execute"));
+      assert.equal(result.safe, false);
+    });
+
+    it("keeps the score of a file that mentions __proto__", () => {
+      const content = "const cp = require('child_process');\ncp.exec(process.argv[2]);\nfetch('https://x.example/c');\n";
+      const before = scanSkillFiles([{ path: "a.js", content }]);
+      const after = scanSkillFiles([{ path: "a.js", content: `${content}// __proto__\n` }]);
+      assert.ok(after.threats.some((t) => t.pattern === "__proto__"));
+      assert.ok(Number.isFinite(after.riskScore));
+      assert.ok(after.riskScore! > before.riskScore!);
+      assert.equal(after.safe, false);
+    });
+
+    it("explains a critical level reached without critical findings", () => {
+      const model: RiskModel = { ...DEFAULTS, thresholds: { low: 1, medium: 2, high: 3, critical: 4 } };
+      const result = scanSkillFiles([{ path: "a.js", content: "process.exit(1)\n" }], { risk: model });
+      assert.equal(result.riskLevel, "critical");
+      assert.match(result.recommendation, /combine into a critical risk/);
+    });
+  });
+
+  describe("loadScannerConfig", () => {
+    it("merges weights by key and combinations by id", async () => {
+      await mkdir(TEST_DIR, { recursive: true });
+      const path = join(TEST_DIR, "scanner.json");
+      await writeFile(path, JSON.stringify({
+        version: 1,
+        risk: {
+          categoryWeights: { network: 2 },
+          thresholds: { high: 60 },
+          combinations: [{ id: "decode-and-execute", description: "Tuned", groups: [["encoded"], ["rce"]], bonus: 5 }],
+        },
+      }), "utf-8");
+
+      const { config } = await loadScannerConfig([path]);
+      assert.equal(config.risk.categoryWeights.network, 2);
+      assert.equal(config.risk.categoryWeights.obfuscation, DEFAULTS.categoryWeights.obfuscation);
+      assert.equal(config.risk.thresholds.high, 60);
+      assert.equal(config.risk.thresholds.critical, DEFAULTS.thresholds.critical);
+      assert.equal(config.risk.combinations.length, DEFAULTS.combinations.length);
+      assert.equal(config.risk.combinations.find((c) => c.id === "decode-and-execute")?.bonus, 5);
+    });
+
+    it("rejects thresholds that do not ascend", async () => {
+      await mkdir(TEST_DIR, { recursive: true });
+      const path = join(TEST_DIR, "scanner.json");
+      await writeFile(path, JSON.stringify({ version: 1, risk: { thresholds: { medium: 500 } } }), "utf-8");
+      const { config } = await loadScannerConfig([path]);
+      assert.deepEqual(config.risk.thresholds, DEFAULTS.thresholds);
+    });
+  });
+});
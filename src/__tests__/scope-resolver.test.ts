@@ -13,6 +13,9 @@ describe("scope-resolver", () => {
       assert.equal(paths.skillsDir, join(expectedBase, "skills"));
       assert.equal(paths.syncConfigPath, join(expectedBase, "skillsync.json"));
       assert.equal(paths.syncLockPath, join(expectedBase, "skillsync.lock"));
+      assert.equal(paths.patternPacksDir, join(expectedBase, "skillsync-patterns"));
+      assert.equal(paths.suppressionsPath, join(expectedBase, "skillsync-ignore.json"));
+      assert.equal(paths.scannerConfigPath, join(expectedBase, "skillsync-scanner.json"));
       assert.ok(paths.label.includes("global"));
     });
 
@@ -23,6 +26,9 @@ describe("scope-resolver", () => {
       assert.equal(paths.skillsDir, join(expectedBase, "skills"));
       assert.equal(paths.syncConfigPath, join(expectedBase, "skillsync.json"));
       assert.equal(paths.syncLockPath, join(expectedBase, "skillsync.lock"));
+      assert.equal(paths.patternPacksDir, join(expectedBase, "skillsync-patterns"));
+      assert.equal(paths.suppressionsPath, join(expectedBase, "skillsync-ignore.json"));
+      assert.equal(paths.scannerConfigPath, join(expectedBase, "skillsync-scanner.json"));
       assert.ok(paths.label.includes("project"));
     });
 
@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { extractFrontmatter, validateSkillMetadata, skillMetadataFromFiles } from "../skill-metadata.js";
+import { scanSnapshot } from "../security-scanner.js";
+import type { SkillSnapshot } from "../github-source.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function skillMd(fields: string): string {
+  return `---\n${fields}\n---\n\n# Skill\n`;
+}
+
+function issuesFor(content: string | undefined, dirName?: string): Array<[string, string | undefined]> {
+  return validateSkillMetadata(content, dirName).issues.map((i) => [i.severity, i.field]);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("skill-metadata", () => {
+  describe("extractFrontmatter", () => {
+    it("returns the YAML between the --- fences", () => {
+      assert.equal(extractFrontmatter("---\nname: a\n---\nbody"), "name: a");
+      assert.equal(extractFrontmatter("\uFEFF---\r\nname: a\r\n...\r\n"), "name: a");
+    });
+
+    it("returns null when the file does not open with a fence or never closes it", () => {
+      assert.equal(extractFrontmatter("# Title\n---\nname: a\n---"), null);
+      assert.equal(extractFrontmatter("---\nname: a\n"), null);
+    });
+  });
+
+  describe("validateSkillMetadata", () => {
+    it("parses a valid frontmatter block", () => {
+      const metadata = validateSkillMetadata(
+        skillMd("name: pdf-tools\ndescription: Extract text from PDFs.\nallowed-tools:\n  - Read\n  - Bash(pdftotext:*)\nversion: 1.2\nlicense: MIT"),
+        "pdf-tools",
+      );
+      assert.deepEqual(metadata.issues, []);
+      assert.deepEqual(metadata.frontmatter, {
+        name: "pdf-tools",
+        description: "Extract text from PDFs.",
+        allowedTools: ["Read", "Bash(pdftotext:*)"],
+        version: "1.2",
+        license: "MIT",
+      });
+    });
+
+    it("splits comma-separated allowed-tools strings", () => {
+      const metadata = validateSkillMetadata(skillMd("name: a\ndescription: d\nallowed-tools: Read, Grep,Bash(git add:*)"));
+      assert.deepEqual(metadata.frontmatter?.allowedTools, ["Read", "Grep", "Bash(git add:*)"]);
+    });
+
+    it("reports a missing SKILL.md, missing frontmatter and invalid YAML", () => {
+      assert.deepEqual(issuesFor(undefined), [["error", undefined]]);
+      assert.deepEqual(issuesFor("# Just a heading"), [["error", undefined]]);
+      assert.deepEqual(issuesFor(skillMd("name: [unclosed")), [["error", undefined]]);
+      assert.deepEqual(issuesFor(skillMd("- a\n- b")), [["error", undefined]]);
+    });
+
+    it("requires a description and caps its length", () => {
+      assert.deepEqual(issuesFor(skillMd("name: a")), [["error", "description"]]);
+      assert.deepEqual(issuesFor(skillMd(`name: a\ndescription: ${"x".repeat(1025)}`)), [["error", "description"]]);
+      assert.deepEqual(issuesFor(skillMd("name: a\ndescription: Use <tool>fetch</tool> first")), [["warning", "description"]]);
+    });
+
+    it("checks the name format, reserved words and directory match", () => {
+      assert.deepEqual(issuesFor(skillMd("description: d")), [["error", "name"]]);
+      assert.deepEqual(issuesFor(skillMd("name: PDF_Tools\ndescription: d")), [["error", "name"]]);
+      assert.deepEqual(issuesFor(skillMd("name: claude-helper\ndescription: d")), [["error", "name"]]);
+      assert.deepEqual(issuesFor(skillMd(`name: ${"a".repeat(65)}\ndescription: d`)), [["error", "name"]]);
+      assert.deepEqual(issuesFor(skillMd("name: pdf\ndescription: d"), "pdf-tools"), [["warning", "name"]]);
+    });
+
+    it("reports mistyped fields and still validates the rest", () => {
+      const metadata = validateSkillMetadata(skillMd("name: a\ndescription: d\nallowed-tools: 42"));
+      assert.deepEqual(metadata.issues.map((i) => [i.severity, i.field]), [["error", "allowed-tools"]]);
+      assert.equal(metadata.frontmatter?.description, "d");
+      assert.equal(metadata.frontmatter?.allowedTools, undefined);
+    });
+  });
+
+  describe("skillMetadataFromFiles", () => {
+    it("only reads SKILL.md at the skill root", () => {
+      const files = [{ path: "docs/SKILL.md", content: skillMd("name: a\ndescription: d") }];
+      assert.equal(skillMetadataFromFiles(files).frontmatter, null);
+      assert.deepEqual(skillMetadataFromFiles([{ path: "skill.md", content: skillMd("name: a\ndescription: d") }]).issues, []);
+    });
+  });
+
+  describe("remote scanner", () => {
+    it("validates the snapshot's SKILL.md against the directory in the URL", () => {
+      const snapshot: SkillSnapshot = {
+        parsed: { owner: "acme", repo: "skills", ref: "main", path: "skills/pdf-tools", pinned: false },
+        commitSha: "a".repeat(40),
+        files: [{ path: "SKILL.md", content: skillMd("name: pdf\ndescription: Extract text from PDFs.") }],
+        skipped: [],
+        suspicious: [],
+        truncated: false,
+      };
+      const result = scanSnapshot(snapshot);
+      assert.equal(result.metadata?.frontmatter?.name, "pdf");
+      assert.deepEqual(result.metadata?.issues.map((i) => i.message), ['`name` "pdf" does not match the skill directory "pdf-tools"']);
+    });
+  });
+});
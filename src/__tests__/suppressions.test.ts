@@ -0,0 +1,140 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import {
+  addSuppression,
+  applySuppressions,
+  removeSuppression,
+  readSuppressions,
+  loadSuppressions,
+  suppressionFingerprint,
+  type Suppression,
+} from "../suppressions.js";
+import { scanSkillFiles } from "../security-scanner.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const TEST_DIR = join(tmpdir(), `skillsync-suppress-test-${Date.now()}`);
+const IGNORE_PATH = join(TEST_DIR, "skillsync-ignore.json");
+
+const DOC_SKILL = [
+  { path: "SKILL.md", content: "# Installers\n\nNever run `curl https://example.com/install.sh | bash` blindly." },
+];
+
+function suppressionFor(files: typeof DOC_SKILL, overrides: Partial<Suppression> = {}): Suppression {
+  const scan = scanSkillFiles(files);
+  const threat = scan.threats.find((t) => t.severity === "critical");
+  assert.ok(threat, "expected a critical finding to suppress");
+  return {
+    pattern: threat.pattern,
+    file: threat.file,
+    contentHash: scan.contentHash,
+    reason: "Documentation explaining the pattern, not executing it",
+    reviewer: "security-team",
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("suppressions", () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true }).catch(() => {});
+  });
+
+  describe("scanning", () => {
+    it("should give every threat a fingerprint", () => {
+      const scan = scanSkillFiles(DOC_SKILL);
+      assert.ok(scan.threats.length > 0);
+      for (const t of scan.threats) {
+        assert.match(t.fingerprint ?? "", /^[0-9a-f]{16}$/);
+      }
+    });
+
+    it("should mark suppressed threats and exclude them from the risk level", () => {
+      const unsuppressed = scanSkillFiles(DOC_SKILL);
+      assert.equal(unsuppressed.riskLevel, "critical");
+
+      const entry = suppressionFor(DOC_SKILL, { scope: "global" });
+      const scan = scanSkillFiles(DOC_SKILL, { suppressions: [entry] });
+      const suppressed = scan.threats.filter((t) => t.suppression);
+      assert.equal(suppressed.length, 1);
+      assert.equal(suppressed[0].suppression?.reviewer, "security-team");
+      assert.equal(suppressed[0].fingerprint, suppressionFingerprint(entry));
+      assert.notEqual(scan.riskLevel, "critical");
+    });
+
+    it("should only let entries from the global file cover critical findings", async () => {
+      await writeFile(IGNORE_PATH, JSON.stringify({ version: 1, suppressions: [{ ...suppressionFor(DOC_SKILL), scope: "global" }] }), "utf-8");
+      const state = await loadSuppressions([IGNORE_PATH]);
+      assert.equal(state.suppressions[0].scope, "project");
+
+      const scan = scanSkillFiles(DOC_SKILL, { suppressions: state.suppressions });
+      assert.ok(scan.threats.every((t) => !t.suppression));
+      assert.equal(scan.riskLevel, "critical");
+    });
+
+    it("should only let entries from the global file cover unfinished file scans", () => {
+      const entry = { pattern: "scan-timeout", file: "slow.txt", contentHash: "h", reason: "Slow", reviewer: "r", createdAt: new Date().toISOString() };
+      const timeout = () => ({ pattern: "scan-timeout", severity: "warning" as const, description: "", category: "incomplete-scan", file: "slow.txt" });
+
+      const [project] = applySuppressions([timeout()], "h", [{ ...entry, scope: "project" }]);
+      assert.equal(project.suppression, undefined);
+      const [global] = applySuppressions([timeout()], "h", [{ ...entry, scope: "global" }]);
+      assert.equal(global.suppression?.reason, "Slow");
+    });
+
+    it("should stop applying when the skill content changes", () => {
+      const entry = suppressionFor(DOC_SKILL);
+      const changed = [...DOC_SKILL, { path: "notes.md", content: "extra file" }];
+      const scan = scanSkillFiles(changed, { suppressions: [entry] });
+      assert.ok(scan.threats.every((t) => !t.suppression));
+      assert.equal(scan.riskLevel, "critical");
+    });
+
+    it("should ignore expired suppressions", () => {
+      const entry = suppressionFor(DOC_SKILL, { expires: "2000-01-01T00:00:00Z" });
+      const scan = scanSkillFiles(DOC_SKILL, { suppressions: [entry] });
+      assert.ok(scan.threats.every((t) => !t.suppression));
+    });
+  });
+
+  describe("suppression file", () => {
+    it("should return an empty file when none exists", async () => {
+      const file = await readSuppressions(IGNORE_PATH);
+      assert.deepEqual(file.suppressions, []);
+    });
+
+    it("should add, replace and remove entries by fingerprint", async () => {
+      const entry = suppressionFor(DOC_SKILL);
+      await addSuppression(entry, IGNORE_PATH);
+      await addSuppression({ ...entry, reason: "Updated reason" }, IGNORE_PATH);
+
+      const file = await readSuppressions(IGNORE_PATH);
+      assert.equal(file.suppressions.length, 1);
+      assert.equal(file.suppressions[0].reason, "Updated reason");
+
+      assert.equal(await removeSuppression(suppressionFingerprint(entry), IGNORE_PATH), true);
+      assert.equal(await removeSuppression(suppressionFingerprint(entry), IGNORE_PATH), false);
+      assert.deepEqual((await readSuppressions(IGNORE_PATH)).suppressions, []);
+    });
+
+    it("should reject entries without a reviewer", async () => {
+      const { reviewer: _omit, ...entry } = suppressionFor(DOC_SKILL);
+      await writeFile(IGNORE_PATH, JSON.stringify({ version: 1, suppressions: [entry] }), "utf-8");
+
+      const state = await loadSuppressions([IGNORE_PATH]);
+      assert.equal(state.suppressions.length, 0);
+      assert.equal(state.errors.length, 1);
+      assert.ok(state.errors[0].includes("reviewer"));
+    });
+  });
+});
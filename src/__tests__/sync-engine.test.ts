@@ -60,8 +60,8 @@ function makeLockedSkill(name: string, githubUrl: string, overrides?: Partial<Lo
 }
 
 function makeDiscovered(
-  entries: Array<{ name: string; githubUrl: string; subIds?: string[]; updatedAt?: number | string }>
-): Map<string, { skill: any; subIds: string[]; inferredName: string }> {
+  entries: Array<{ name: string; githubUrl: string; subIds?: string[]; updatedAt?: number | string; treeSha?: string }>
+): Map<string, { skill: any; subIds: string[]; inferredName: string; treeSha?: string }> {
   const map = new Map();
   for (const entry of entries) {
     map.set(entry.githubUrl, {
@@ -75,6 +75,7 @@ function makeDiscovered(
       },
       subIds: entry.subIds ?? ["sub-1"],
       inferredName: entry.name,
+      treeSha: entry.treeSha,
     });
   }
   return map;
@@ -132,6 +133,26 @@ describe("computeSyncDiff", () => {
     assert.equal(diff.toUpdate[0].name, "skill-a");
   });
 
+  it("detects upstream changes by the skill's tree when both sides have one", () => {
+    const githubUrl = "https://github.com/owner/repo/tree/main/skill-a";
+    const lock = makeLock({
+      "skill-a": makeLockedSkill("skill-a", githubUrl, {
+        upstreamUpdatedAt: "1700000000",
+        commitSha: "c".repeat(40),
+        treeSha: "a".repeat(40),
+      }),
+    });
+    const config = makeConfig();
+
+    // updatedAt moved, or another skill in the repo was committed — same tree, no update
+    const same = makeDiscovered([{ name: "skill-a", githubUrl, updatedAt: 1700000999, treeSha: "a".repeat(40) }]);
+    assert.equal(computeSyncDiff(same, lock, config).toUpdate.length, 0);
+
+    // tree moved even though updatedAt did not — update
+    const moved = makeDiscovered([{ name: "skill-a", githubUrl, updatedAt: 1700000000, treeSha: "b".repeat(40) }]);
+    assert.equal(computeSyncDiff(moved, lock, config).toUpdate.length, 1);
+  });
+
   it("identifies removals when autoRemove=true and skill no longer in API", () => {
     const githubUrl = "https://github.com/owner/repo/tree/main/skill-old";
     const discovered = makeDiscovered([]); // nothing discovered
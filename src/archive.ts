@@ -0,0 +1,331 @@
+import { inflateRawSync, gunzipSync } from "node:zlib";
+import { basename } from "node:path";
+import type { Threat } from "./security-scanner.js";
+import { sniffFileType, isBinaryType, type FileType, type SniffedFile } from "./file-type.js";
+import {
+  MAX_FILES,
+  MAX_FILE_SIZE,
+  MAX_TOTAL_SIZE,
+  MAX_ARCHIVE_ENTRIES,
+  MAX_ARCHIVE_UNPACKED_SIZE,
+  MAX_COMPRESSION_RATIO,
+} from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz" | "gzip";
+
+export interface ArchiveMember {
+  name: string;  // as stored in the archive
+  size: number;  // uncompressed, as declared
+  kind: "file" | "directory" | "symlink" | "other";
+}
+
+export interface ArchiveListing {
+  path: string;
+  format: ArchiveFormat;
+  members: ArchiveMember[];
+  /** Listing stopped early: too many entries, or the archive is damaged. */
+  truncated: boolean;
+}
+
+/** An archive's raw bytes, kept for inspection. */
+export interface ArchiveBytes {
+  path: string;
+  bytes: Uint8Array;
+}
+
+export interface ArchiveContents {
+  listing: ArchiveListing;
+  /** Text members, with paths like "archive.zip!/inner/path". */
+  files: Array<{ path: string; content: string }>;
+  /** Binary members, identified by content. */
+  binaries: SniffedFile[];
+  /** Problems with the archive itself: traversal, bombs, limits. */
+  threats: Threat[];
+}
+
+/**
+ * Files and bytes a scan may still unpack. Shared across every archive in a
+ * skill and started from what its regular files already used, so members
+ * count against the same limits as regular files.
+ */
+export interface ScanBudget {
+  files: number;
+  bytes: number;
+}
+
+interface RawEntry extends ArchiveMember {
+  compressedSize: number;
+  encrypted: boolean;
+  read: (maxBytes: number) => Uint8Array;  // throws on damaged data or more than maxBytes
+}
+
+// ─── Paths ───────────────────────────────────────────────────────────────────
+
+/** "archive.zip!/inner/path" — how findings refer to a member. */
+export function memberPath(archivePath: string, name: string): string {
+  return `${archivePath}!/${name.replace(/\\/g, "/").replace(/^(?:\.?\/)+/, "")}`;
+}
+
+/** A member name that would land outside the extraction directory. */
+function escapesRoot(name: string): boolean {
+  const normalized = name.replace(/\\/g, "/");
+  return normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized) || normalized.split("/").includes("..");
+}
+
+export function isInspectableArchive(type: FileType): boolean {
+  return type.kind === "archive" && (type.format === "ZIP" || type.format === "tar" || type.format === "gzip");
+}
+
+// ─── Zip ─────────────────────────────────────────────────────────────────────
+
+const ZIP_EOCD = 0x06054b50;
+const ZIP_CENTRAL = 0x02014b50;
+const ZIP_LOCAL = 0x04034b50;
+
+function readZipData(bytes: Uint8Array, view: DataView, localOffset: number, method: number, compressedSize: number, maxBytes: number): Uint8Array {
+  if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== ZIP_LOCAL) {
+    throw new Error("bad local file header");
+  }
+  const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+  const data = bytes.subarray(start, start + compressedSize);
+  if (method === 0) {
+    if (data.length > maxBytes) throw new RangeError("stored member exceeds the size limit");
+    return data;
+  }
+  if (method === 8) return inflateRawSync(data, { maxOutputLength: Math.max(1, maxBytes) });
+  throw new Error(`unsupported compression method ${method}`);
+}
+
+/** Entries from the central directory; data is only inflated on `read()`. */
+function* zipEntries(bytes: Uint8Array): Generator<RawEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("no end of central directory");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== ZIP_CENTRAL) {
+      throw new Error("damaged central directory");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const mode = view.getUint32(offset + 38, true) >>> 16;
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const kind = name.endsWith("/") ? "directory" : (mode & 0o170000) === 0o120000 ? "symlink" : "file";
+    yield {
+      name, size, kind, compressedSize,
+      encrypted: (flags & 1) !== 0,
+      read: (maxBytes) => readZipData(bytes, view, localOffset, method, compressedSize, maxBytes),
+    };
+  }
+}
+
+// ─── Tar ─────────────────────────────────────────────────────────────────────
+
+function cString(bytes: Uint8Array): string {
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes);
+}
+
+function parseOctal(bytes: Uint8Array): number {
+  const text = cString(bytes).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/** Header checksum: the byte sum with the checksum field read as spaces. */
+function isTarHeader(header: Uint8Array): boolean {
+  if (header.length < 512) return false;
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  return sum === parseOctal(header.subarray(148, 156));
+}
+
+const TAR_KINDS: Record<string, ArchiveMember["kind"]> = { "0": "file", "7": "file", "\0": "file", "5": "directory", "1": "symlink", "2": "symlink" };
+
+function* tarEntries(bytes: Uint8Array): Generator<RawEntry> {
+  let offset = 0;
+  let longName: string | undefined;
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) return;
+    if (!isTarHeader(header)) throw new Error("bad header checksum");
+
+    const size = parseOctal(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156]);
+    const dataStart = offset + 512;
+    if (dataStart + size > bytes.length) throw new Error("member data cut short");
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    // GNU long names and pax path records apply to the next header
+    if (type === "L") {
+      longName = cString(data);
+      continue;
+    }
+    if (type === "x") {
+      longName = /(?:^|\n)\d+ path=([^\n]*)/.exec(new TextDecoder().decode(data))?.[1] ?? longName;
+      continue;
+    }
+    if (type === "g") continue;
+
+    const prefix = cString(header.subarray(257, 262)) === "ustar" ? cString(header.subarray(345, 500)) : "";
+    const ownName = cString(header.subarray(0, 100));
+    const name = longName ?? (prefix ? `${prefix}/${ownName}` : ownName);
+    longName = undefined;
+    yield { name, size, kind: TAR_KINDS[type] ?? "other", compressedSize: size, encrypted: false, read: () => data };
+  }
+}
+
+// ─── Inspection ──────────────────────────────────────────────────────────────
+
+function isTooLarge(err: unknown): boolean {
+  return err instanceof RangeError || (err as { code?: string })?.code === "ERR_BUFFER_TOO_LARGE";
+}
+
+/**
+ * List a zip, tar or gzip archive and unpack its members in memory for
+ * scanning. Unpacked members draw down `budget`, the skill-wide file count
+ * and size limits, by their actual size: a declared size is only trusted to
+ * skip a member, and one that unpacks to another size is reported.
+ * Member names that escape the extraction root, symlinks, encrypted members
+ * and suspicious compression ratios are reported as threats on the archive.
+ * Returns null for anything that is not an inspectable archive.
+ */
+export function inspectArchive(
+  path: string,
+  bytes: Uint8Array,
+  budget: ScanBudget = { files: MAX_FILES, bytes: MAX_TOTAL_SIZE },
+): ArchiveContents | null {
+  const type = sniffFileType(bytes);
+  if (!isInspectableArchive(type)) return null;
+
+  const threats: Threat[] = [];
+  const report = (pattern: string, severity: Threat["severity"], category: string, description: string, member?: string): void => {
+    threats.push({ pattern, severity, description, category, file: member !== undefined ? memberPath(path, member) : path });
+  };
+  const bombDescription = `Archive expands more than ${MAX_COMPRESSION_RATIO}x its compressed size — possible decompression bomb`;
+
+  let format: ArchiveFormat;
+  let entries: Iterable<RawEntry>;
+  if (type.format === "ZIP") {
+    format = "zip";
+    entries = zipEntries(bytes);
+  } else if (type.format === "tar") {
+    format = "tar";
+    entries = tarEntries(bytes);
+  } else {
+    const ratioLimit = bytes.length * MAX_COMPRESSION_RATIO;
+    let unpacked: Uint8Array;
+    try {
+      unpacked = gunzipSync(bytes, { maxOutputLength: Math.min(MAX_ARCHIVE_UNPACKED_SIZE, ratioLimit) });
+    } catch (err) {
+      if (!isTooLarge(err)) return null;
+      if (ratioLimit < MAX_ARCHIVE_UNPACKED_SIZE) {
+        report("archive-bomb", "warning", "dos", bombDescription);
+      } else {
+        report("archive-limit", "warning", "incomplete-scan", `Archive unpacks to more than ${MAX_ARCHIVE_UNPACKED_SIZE / 1024}KB — contents not scanned`);
+      }
+      return { listing: { path, format: "gzip", members: [], truncated: true }, files: [], binaries: [], threats };
+    }
+    if (isTarHeader(unpacked.subarray(0, 512))) {
+      format = "tar.gz";
+      entries = tarEntries(unpacked);
+    } else {
+      // A single compressed file: its name is the archive's without ".gz"
+      format = "gzip";
+      const name = basename(path).replace(/\.gz$/i, "") || "content";
+      entries = [{ name, size: unpacked.length, kind: "file", compressedSize: bytes.length, encrypted: false, read: () => unpacked }];
+    }
+  }
+
+  const members: ArchiveMember[] = [];
+  const files: ArchiveContents["files"] = [];
+  const binaries: SniffedFile[] = [];
+  let truncated = false;
+  let declaredSize = 0;
+  let notScanned = 0;
+
+  try {
+    for (const entry of entries) {
+      if (members.length >= MAX_ARCHIVE_ENTRIES) {
+        truncated = true;
+        report("archive-limit", "warning", "incomplete-scan", `Archive has more than ${MAX_ARCHIVE_ENTRIES} entries — listing stopped`);
+        break;
+      }
+      members.push({ name: entry.name, size: entry.size, kind: entry.kind });
+      declaredSize += entry.size;
+
+      if (escapesRoot(entry.name)) {
+        report("archive-path-traversal", "critical", "path-traversal", "Archive member path escapes the extraction directory (zip slip)", entry.name);
+      }
+      if (entry.kind === "symlink") {
+        report("archive-symlink", "warning", "filesystem", "Link inside archive — may point outside the extraction directory", entry.name);
+      }
+      if (entry.kind !== "file") continue;
+      if (entry.encrypted) {
+        report("archive-encrypted", "warning", "incomplete-scan", "Encrypted archive member — cannot scan", entry.name);
+        continue;
+      }
+      const limit = Math.min(MAX_FILE_SIZE, budget.bytes);
+      if (budget.files <= 0 || entry.size > limit) {
+        notScanned++;
+        continue;
+      }
+
+      // A member that fits by its declared size but unpacks past the limit lied about it
+      let data: Uint8Array;
+      try {
+        data = entry.read(limit);
+      } catch (err) {
+        if (isTooLarge(err)) report("archive-bomb", "warning", "dos", "Archive member expands beyond its declared size — possible decompression bomb", entry.name);
+        else report("archive-corrupt", "warning", "incomplete-scan", `Archive member could not be unpacked: ${err instanceof Error ? err.message : "unknown"}`, entry.name);
+        continue;
+      }
+      if (data.length !== entry.size) {
+        report("archive-bomb", "warning", "dos",
+          `Archive member unpacks to ${data.length} bytes but declares ${entry.size} — sizes in the archive cannot be trusted`, entry.name);
+      }
+      if (data.length > limit) {
+        notScanned++;
+        continue;
+      }
+      budget.files--;
+      budget.bytes -= data.length;
+
+      const at = memberPath(path, entry.name);
+      const memberType = sniffFileType(data);
+      if (isBinaryType(memberType)) binaries.push({ path: at, type: memberType });
+      else files.push({ path: at, content: new TextDecoder().decode(data) });
+    }
+  } catch (err) {
+    truncated = true;
+    report("archive-corrupt", "warning", "incomplete-scan", `Archive could not be read completely: ${err instanceof Error ? err.message : "unknown"}`);
+  }
+
+  if (format === "zip" && declaredSize > MAX_TOTAL_SIZE && declaredSize > bytes.length * MAX_COMPRESSION_RATIO) {
+    report("archive-bomb", "warning", "dos", bombDescription);
+  }
+  if (notScanned > 0) {
+    report("archive-limit", "warning", "incomplete-scan",
+      `${notScanned} archive member(s) not scanned — limits of ${MAX_FILES} files, ${MAX_FILE_SIZE / 1024}KB per file and ${MAX_TOTAL_SIZE / 1024}KB total apply across the skill`);
+  }
+
+  return { listing: { path, format, members, truncated }, files, binaries, threats };
+}
@@ -0,0 +1,180 @@
+import type { Threat } from "./security-scanner.js";
+import { detectLanguage, isDocumentLanguage } from "./languages.js";
+import type { SkillMetadata } from "./skill-metadata.js";
+import { sanitizeText } from "./sanitize.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type Capability = "network" | "shell" | "filesystem-write" | "env-access" | "credential-access";
+
+export const CAPABILITIES: readonly Capability[] = ["network", "shell", "filesystem-write", "env-access", "credential-access"];
+
+export interface InferredCapability {
+  capability: Capability;
+  declared: boolean;
+  evidence: string[];  // "path:line" of the code that exercises it
+}
+
+export interface CapabilityProfile {
+  /** What the skill's code actually does, in CAPABILITIES order. */
+  inferred: InferredCapability[];
+  /** What SKILL.md says it does, via allowed-tools and the description. */
+  declared: Capability[];
+  /** False when SKILL.md has no frontmatter to compare against. */
+  hasDeclaration: boolean;
+}
+
+// ─── Inference ───────────────────────────────────────────────────────────────
+
+const CATEGORY_CAPABILITIES: Record<string, Capability[]> = {
+  "network": ["network"],
+  "exfiltration": ["network"],
+  "rce": ["network", "shell"],
+  "reverse-shell": ["network", "shell"],
+  "shell-execution": ["shell"],
+  "privilege-escalation": ["shell"],
+  "filesystem": ["filesystem-write"],
+  "dotfile-poisoning": ["filesystem-write"],
+  "destructive": ["filesystem-write"],
+  "persistence": ["filesystem-write"],
+  "environment": ["env-access"],
+  "credential-theft": ["credential-access"],
+  "executable": ["shell"],
+};
+
+// Reading the environment is too common to be a threat, but it is still a capability
+const ENV_READ = /\bprocess\.env\b|\bos\.environ\b|\bos\.getenv\s*\(|\$env:|\bprintenv\b|\bDeno\.env\b/;
+
+const MAX_EVIDENCE = 5;
+
+/**
+ * Capabilities implied by scan findings, plus two that are not threats on
+ * their own: shipping a shell script, and reading environment variables.
+ * Markdown prose and links describe rather than exercise, so they don't count.
+ */
+function inferFromFindings(threats: Threat[], files: ReadonlyArray<{ path: string; content: string }>): Map<Capability, string[]> {
+  const found = new Map<Capability, string[]>();
+  const add = (capability: Capability, where: string): void => {
+    const evidence = found.get(capability) ?? [];
+    if (!evidence.includes(where)) evidence.push(where);
+    found.set(capability, evidence);
+  };
+
+  for (const threat of threats) {
+    if (threat.suppression || threat.context === "prose" || threat.context === "link") continue;
+    const capabilities = Object.hasOwn(CATEGORY_CAPABILITIES, threat.category) ? CATEGORY_CAPABILITIES[threat.category] : [];
+    const lines = threat.locations?.map((l) => l.line) ?? (threat.line !== undefined ? [threat.line] : []);
+    const where = lines.length > 0 ? lines.map((line) => `${threat.file ?? ""}:${line}`) : [threat.file ?? ""];
+    for (const capability of capabilities) {
+      for (const w of where) add(capability, w);
+    }
+  }
+
+  for (const file of files) {
+    const language = detectLanguage(file.path, file.content);
+    if (language === "shell" || language === "powershell") add("shell", file.path);
+    if (isDocumentLanguage(language)) continue;
+    const lines = file.content.split("\n");
+    const index = lines.findIndex((line) => ENV_READ.test(line));
+    if (index >= 0) add("env-access", `${file.path}:${index + 1}`);
+  }
+  return found;
+}
+
+// ─── Declaration ─────────────────────────────────────────────────────────────
+
+// Capabilities implied by granting a Claude Code tool. Bash alone does not
+// declare network access; that takes WebFetch, a network client
+// rule like Bash(curl:*), or a description that says so.
+const TOOL_CAPABILITIES: Record<string, Capability[]> = {
+  Bash: ["shell", "filesystem-write", "env-access"],
+  Write: ["filesystem-write"],
+  Edit: ["filesystem-write"],
+  MultiEdit: ["filesystem-write"],
+  NotebookEdit: ["filesystem-write"],
+  WebFetch: ["network"],
+  WebSearch: ["network"],
+};
+
+// Commands a scoped Bash rule can name that reach the network
+const NETWORK_COMMAND = /^(?:curl|wget|ssh|scp|rsync|git|gh|npm|npx|pip|pip3|http|nc)\b/;
+
+// Phrases that name a capability outright. Everyday verbs like "formats",
+// "runs" or "API" describe what a skill is for, not what it may do, so they
+// declare nothing; allowed-tools is the primary declaration.
+const DESCRIPTION_CAPABILITIES: Array<[Capability, RegExp]> = [
+  ["network", /\b(?:network (?:access|requests?|calls?)|(?:makes?|sends?) (?:https?|web) requests?|(?:fetch|download|upload)(?:es|s)? (?:\w+ ){0,2}(?:from|to) (?:the )?(?:internet|web|remote (?:servers?|urls?)))\b/i],
+  ["shell", /\b(?:shell access|(?:runs?|executes?) (?:arbitrary |local )?(?:shell|terminal|bash) (?:commands|scripts))\b/i],
+  ["filesystem-write", /\b(?:(?:writes?|saves?) (?:\w+ )?(?:files )?to (?:the )?(?:disk|filesystem|file system)|(?:disk|filesystem|file system) write access)\b/i],
+  ["env-access", /\b(?:reads? (?:the )?environment variables?|environment variable access)\b/i],
+  ["credential-access", /\b(?:(?:reads?|uses?|accesses) (?:your |the user's )?(?:credentials|ssh keys|keychain|kubeconfig)|credential access)\b/i],
+];
+
+function declaredCapabilities(metadata: SkillMetadata): Set<Capability> {
+  const declared = new Set<Capability>();
+  const fm = metadata.frontmatter;
+  if (!fm) return declared;
+
+  for (const tool of fm.allowedTools ?? []) {
+    const match = /^(\w+)(?:\((.*)\))?$/.exec(tool.trim());
+    if (!match) continue;
+    const [, name, rule] = match;
+    // Own keys only: names like "constructor" would reach Object.prototype
+    const capabilities = Object.hasOwn(TOOL_CAPABILITIES, name) ? TOOL_CAPABILITIES[name] : [];
+    for (const capability of capabilities) declared.add(capability);
+    if (name === "Bash" && rule && NETWORK_COMMAND.test(rule.trim())) declared.add("network");
+  }
+  for (const [capability, re] of DESCRIPTION_CAPABILITIES) {
+    if (fm.description && re.test(fm.description)) declared.add(capability);
+  }
+  return declared;
+}
+
+// ─── Profile ─────────────────────────────────────────────────────────────────
+
+/**
+ * Infer what a skill's files can do and compare it with what its SKILL.md
+ * frontmatter declares.
+ */
+export function buildCapabilityProfile(
+  threats: Threat[],
+  files: ReadonlyArray<{ path: string; content: string }>,
+  metadata: SkillMetadata,
+): CapabilityProfile {
+  const found = inferFromFindings(threats, files);
+  const declared = declaredCapabilities(metadata);
+  const fm = metadata.frontmatter;
+  return {
+    inferred: CAPABILITIES.filter((c) => found.has(c)).map((capability) => ({
+      capability,
+      declared: declared.has(capability),
+      evidence: found.get(capability)!,
+    })),
+    declared: CAPABILITIES.filter((c) => declared.has(c)),
+    hasDeclaration: !!fm && (fm.description !== undefined || fm.allowedTools !== undefined),
+  };
+}
+
+/**
+ * A single `capability-mismatch` threat listing every capability the code
+ * uses but SKILL.md does not declare, or null when they agree (or there is
+ * no declaration to compare against).
+ */
+export function capabilityMismatchThreat(profile: CapabilityProfile, skillMdPath = "SKILL.md"): Threat | null {
+  if (!profile.hasDeclaration) return null;
+  const undeclared = profile.inferred.filter((c) => !c.declared);
+  if (undeclared.length === 0) return null;
+
+  const detail = undeclared.map(({ capability, evidence }) => {
+    const shown = evidence.slice(0, MAX_EVIDENCE).join(", ");
+    const more = evidence.length > MAX_EVIDENCE ? `, +${evidence.length - MAX_EVIDENCE} more` : "";
+    return `${capability} (${shown}${more})`;
+  });
+  return {
+    pattern: "capability-mismatch",
+    severity: "warning",
+    description: `Skill uses capabilities its frontmatter does not declare: ${sanitizeText(detail.join("; "))}`,
+    category: "capability-mismatch",
+    file: skillMdPath,
+  };
+}
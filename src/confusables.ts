@@ -0,0 +1,82 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Text folded for matching, with the raw UTF-16 index each character came from. */
+export interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+// ─── Confusables ─────────────────────────────────────────────────────────────
+
+// Letters from other scripts that render like ASCII, mapped to the letter they
+// imitate. Compatibility forms (fullwidth, ligatures, math alphanumerics,
+// Kelvin sign) are already folded by NFKC and are not repeated here.
+const CONFUSABLES = new Map<string, string>(Object.entries({
+  // Cyrillic
+  "\u0430": "a", "\u0435": "e", "\u043E": "o", "\u0440": "p", "\u0441": "c", "\u0443": "y", "\u0445": "x",
+  "\u0456": "i", "\u0458": "j", "\u0455": "s", "\u04BB": "h", "\u0501": "d", "\u051B": "q", "\u051D": "w",
+  "\u04CF": "l", "\u0410": "A", "\u0412": "B", "\u0415": "E", "\u041A": "K", "\u041C": "M", "\u041D": "H",
+  "\u041E": "O", "\u0420": "P", "\u0421": "C", "\u0422": "T", "\u0425": "X", "\u0423": "Y", "\u04AE": "Y",
+  "\u0405": "S", "\u0406": "I", "\u0408": "J", "\u051A": "Q", "\u051C": "W",
+  // Greek
+  "\u03B1": "a", "\u03B5": "e", "\u03BF": "o", "\u03C1": "p", "\u03BA": "k", "\u03BD": "v", "\u03C4": "t",
+  "\u03B9": "i", "\u03C5": "u", "\u03C7": "x", "\u03B3": "y", "\u0391": "A", "\u0392": "B", "\u0395": "E",
+  "\u0396": "Z", "\u0397": "H", "\u0399": "I", "\u039A": "K", "\u039C": "M", "\u039D": "N", "\u039F": "O",
+  "\u03A1": "P", "\u03A4": "T", "\u03A5": "Y", "\u03A7": "X",
+  // Armenian
+  "\u0585": "o", "\u057D": "u", "\u0570": "h", "\u0578": "n",
+  // Latin letters NFKC keeps: IPA, small capitals, dotless i
+  "\u0251": "a", "\u0261": "g", "\u0269": "i", "\u0131": "i", "\u1D00": "a", "\u1D04": "c", "\u1D0F": "o",
+  "\u1D20": "v", "\u1D21": "w", "\u1D22": "z",
+  // Punctuation that stands in for shell syntax
+  "\u2010": "-", "\u2011": "-", "\u2012": "-", "\u2013": "-", "\u2014": "-", "\u2212": "-",
+  "\u2018": "'", "\u2019": "'", "\u201C": "\"", "\u201D": "\"", "\u2044": "/", "\u2215": "/",
+}));
+
+// Invisible characters (zero-width, bidi controls, soft hyphen) and combining marks
+const DROPPED = /^[\p{Cf}\p{M}]$/u;
+
+const WORD = "[\\p{L}\\p{M}\\p{N}_]";
+
+// Non-ASCII letters that spoof ASCII inside a word: the non-Latin confusables
+// above, plus fullwidth Latin, IPA and phonetic-extension letters
+const LOOKALIKE_LETTERS = [...CONFUSABLES.keys()]
+  .filter((ch) => /\p{L}/u.test(ch) && !/\p{Script=Latin}/u.test(ch))
+  .join("") + "\\uFF21-\\uFF3A\\uFF41-\\uFF5A\\u0250-\\u02AF\\u1D00-\\u1D7F";
+
+/**
+ * A word that mixes ASCII letters with look-alike letters from another script
+ * ("paypal" spelled with a Cyrillic "p" and "a"). Words written wholly in one
+ * script, and lines that merely contain two languages, do not match.
+ */
+export const MIXED_SCRIPT_TOKEN = new RegExp(
+  `(?<!${WORD})(?=${WORD}*[A-Za-z])(?=${WORD}*[${LOOKALIKE_LETTERS}])${WORD}+`,
+  "u",
+);
+
+// ─── Normalization ───────────────────────────────────────────────────────────
+
+/**
+ * Skeleton of `text` for pattern matching: each character is NFKC-folded,
+ * look-alikes are replaced with the ASCII they imitate, and invisible
+ * characters and combining marks are dropped — so fullwidth "curl", "curl"
+ * with a Cyrillic "c" and "curl" split by a zero-width space all read
+ * "curl". Null when nothing changes, which includes all ASCII text.
+ */
+export function normalizeForMatching(text: string): NormalizedText | null {
+  if (!/[^\x00-\x7F]/.test(text)) return null;
+  let out = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const ch of text) {
+    const folded = CONFUSABLES.get(ch) ?? ch.normalize("NFKC");
+    for (const part of folded.normalize("NFD")) {
+      if (DROPPED.test(part)) continue;
+      const mapped = CONFUSABLES.get(part) ?? part;
+      out += mapped;
+      for (let i = 0; i < mapped.length; i++) offsets.push(index);
+    }
+    index += ch.length;
+  }
+  return out === text ? null : { text: out, offsets };
+}
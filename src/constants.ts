@@ -1,11 +1,20 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
 
+// ─── Server Identity ────────────────────────────────────────────────────────
+
+export const SERVER_NAME = "skillsync";
+export const SERVER_VERSION = "1.4.1";
+
 // ─── Skills Directory ───────────────────────────────────────────────────────
 
 export const SKILLS_DIR = join(homedir(), ".claude", "skills");
 export const VALID_SKILL_NAME = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
 
+// SKILL.md frontmatter limits enforced by Claude Code
+export const SKILL_NAME_MAX_LENGTH = 64;
+export const SKILL_DESCRIPTION_MAX_LENGTH = 1024;
+
 // ─── Scanner Limits ──────────────────────────────────────────────────────────
 
 export const MAX_FILES = 50;
@@ -14,6 +23,41 @@ export const MAX_TOTAL_SIZE = 2 * 1024 * 1024; // 2 MB total
 export const MAX_LINE_LENGTH = 2000; // Skip ReDoS-prone long lines
 export const ALLOWED_GITHUB_HOSTS = ["github.com", "www.github.com"];
 
+// ─── Scan Workers ───────────────────────────────────────────────────────────
+
+// Pattern matching runs in worker threads so a runaway regex cannot block the server
+export const MAX_SCAN_WORKERS = 4;           // capped further by available CPUs
+export const SCAN_FILE_TIMEOUT_MS = 10_000;  // per file before its worker is terminated
+export const SCAN_TIMEOUT_MS = 60_000;       // per skill, across all of its files
+
+// ─── Threat Reporting ───────────────────────────────────────────────────────
+
+export const SNIPPET_CONTEXT_LINES = 2; // lines shown before/after a match
+export const MAX_SNIPPET_LINE_LENGTH = 160;
+export const MAX_THREAT_LOCATIONS = 20; // occurrences recorded per pattern per file
+
+// ─── Encoded Payloads ───────────────────────────────────────────────────────
+
+export const MIN_BASE64_PAYLOAD_LENGTH = 32; // encoded chars (~24 decoded bytes)
+export const MIN_HEX_PAYLOAD_LENGTH = 32;    // hex digits (16 decoded bytes)
+export const MIN_URL_ENCODED_ESCAPES = 6;    // %XX sequences in one literal
+export const MIN_DECODED_PRINTABLE_RATIO = 0.9;
+export const MAX_DECODE_DEPTH = 3;           // nested encodings followed
+export const MAX_DECODED_PAYLOAD_BYTES = 64 * 1024;
+export const MAX_DECODED_BYTES_PER_FILE = 256 * 1024;
+export const MAX_PAYLOADS_PER_FILE = 50;
+
+// ─── Archives ───────────────────────────────────────────────────────────────
+
+// Members are scanned under MAX_FILES, MAX_FILE_SIZE and MAX_TOTAL_SIZE, shared with the regular files
+export const MAX_ARCHIVE_ENTRIES = 1000;        // entries listed before giving up
+export const MAX_ARCHIVE_UNPACKED_SIZE = 8 * 1024 * 1024; // tar.gz decompressed at most
+export const MAX_COMPRESSION_RATIO = 100;       // uncompressed:compressed above this is a bomb
+
+// ─── Network Inventory ──────────────────────────────────────────────────────
+
+export const MAX_DESTINATIONS = 200; // distinct hosts recorded per skill
+
 // ─── File Classification ────────────────────────────────────────────────────
 
 export const BINARY_EXTENSIONS = new Set([
@@ -32,9 +76,9 @@ export const SUSPICIOUS_FILENAMES = new Set([
 ]);
 
 export const TEXT_EXTENSIONS = new Set([
-  ".ts", ".js", ".mjs", ".cjs", ".tsx", ".jsx",
-  ".py", ".rb", ".go", ".rs", ".java", ".kt", ".swift", ".c", ".cpp", ".h",
-  ".sh", ".bash", ".zsh", ".fish", ".ps1", ".bat", ".cmd",
+  ".ts", ".js", ".mjs", ".cjs", ".mts", ".cts", ".tsx", ".jsx",
+  ".py", ".pyw", ".rb", ".go", ".rs", ".java", ".kt", ".swift", ".c", ".cpp", ".h",
+  ".sh", ".bash", ".zsh", ".fish", ".ps1", ".psm1", ".psd1", ".bat", ".cmd",
   ".yaml", ".yml", ".json", ".toml", ".ini", ".cfg", ".conf",
   ".md", ".txt", ".rst", ".adoc",
   ".html", ".htm", ".xml", ".svg",
@@ -45,6 +89,12 @@ export const TEXT_EXTENSIONS = new Set([
   "", // extensionless files
 ]);
 
+// Directories created by the installer (or a local checkout) that are not
+// part of the skill's own content. Remote snapshots skip them too, so the
+// installed files and their hash match what a local audit sees.
+export const PYTHON_VENV_DIRNAME = ".venv";
+export const LOCAL_SCAN_IGNORED_DIRS = new Set(["node_modules", ".git", PYTHON_VENV_DIRNAME]);
+
 // ─── Scan Cache ─────────────────────────────────────────────────────────────
 
 export const SCAN_CACHE_TTL_MS = 15 * 60 * 1000; // 15 minutes
@@ -66,6 +116,25 @@ export const RISK_LEVEL_ORDER: Record<string, number> = {
   safe: 0, low: 1, medium: 2, high: 3, critical: 4,
 };
 
+// ─── Custom Pattern Packs ───────────────────────────────────────────────────
+
+export const PATTERN_PACKS_DIRNAME = "skillsync-patterns"; // under ~/.claude and <cwd>/.claude
+export const PATTERN_PACK_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+export const PATTERN_PACK_MAX_BYTES = 256 * 1024;
+export const PATTERN_PACK_CACHE_TTL_MS = 30 * 1000;
+
+// ─── Threat Suppressions ────────────────────────────────────────────────────
+
+export const SUPPRESSIONS_FILENAME = "skillsync-ignore.json"; // under ~/.claude and <cwd>/.claude
+
+// ─── Scanner Tuning ─────────────────────────────────────────────────────────
+
+export const SCANNER_CONFIG_FILENAME = "skillsync-scanner.json"; // under ~/.claude and <cwd>/.claude
+
+// ─── Report Output ──────────────────────────────────────────────────────────
+
+export const REPORT_FILE_EXTENSIONS = new Set([".json", ".sarif"]);
+
 // ─── Sanitization ────────────────────────────────────────────────────────────
 
 export const SANITIZE_PATTERNS: Array<[RegExp, string]> = [
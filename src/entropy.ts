@@ -0,0 +1,160 @@
+import type { EntropyThresholds } from "./scanner-config.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ObfuscationFinding {
+  pattern: string;
+  description: string;
+  score: number;  // highest measured value across the locations
+  locations: Array<{ line: number; column: number }>;
+}
+
+// ─── Measurements ────────────────────────────────────────────────────────────
+
+/** Shannon entropy in bits per character. */
+export function shannonEntropy(text: string): number {
+  if (text.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of text) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  const total = [...text].length;
+  for (const count of counts.values()) {
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function whitespaceRatio(line: string): number {
+  let ws = 0;
+  for (let i = 0; i < line.length; i++) {
+    const c = line.charCodeAt(i);
+    if (c === 0x20 || c === 0x09) ws++;
+  }
+  return ws / line.length;
+}
+
+/** Fraction of characters that are neither letters, digits nor whitespace. */
+function symbolRatio(line: string): number {
+  let symbols = 0;
+  for (const ch of line) {
+    if (!/[\p{L}\p{N}\s]/u.test(ch)) symbols++;
+  }
+  return symbols / line.length;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// ─── Detectors ───────────────────────────────────────────────────────────────
+
+// Linear-time (no nested quantifiers), safe on arbitrarily long lines
+const STRING_LITERAL = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`/g;
+const HEX_RUN = /[0-9A-Fa-f]+/g;
+const BASE64_RUN = /[A-Za-z0-9+/]+={0,2}/g;
+const PACKER_SIGNATURE = /eval\s*\(\s*function\s*\(\s*p\s*,\s*a\s*,\s*c\s*,\s*k\s*,\s*e\s*,\s*[dr]\s*\)/;
+const MIN_SYMBOL_LINE_ENTROPY = 2.0;
+const JS_EXTENSIONS = /\.(?:js|mjs|cjs|jsx|ts|tsx)$/i;
+
+class FindingSet {
+  private readonly findings = new Map<string, ObfuscationFinding>();
+
+  add(pattern: string, describe: (score: number) => string, score: number, line: number, column: number): void {
+    const existing = this.findings.get(pattern);
+    if (existing) {
+      existing.locations.push({ line, column });
+      if (score > existing.score) {
+        existing.score = score;
+        existing.description = describe(score);
+      }
+      return;
+    }
+    this.findings.set(pattern, { pattern, description: describe(score), score, locations: [{ line, column }] });
+  }
+
+  list(): ObfuscationFinding[] {
+    return [...this.findings.values()].map((f) => ({ ...f, score: round2(f.score) }));
+  }
+}
+
+/**
+ * Statistical obfuscation pass: entropy of string literals and lines, long
+ * hex/base64 runs, packed or minified JavaScript, and punctuation-heavy lines
+ * (JSFuck-style encodings). One finding per detector, listing every location.
+ */
+export function analyzeObfuscation(lines: string[], file: string | undefined, t: EntropyThresholds): ObfuscationFinding[] {
+  if (!t.enabled) return [];
+  const found = new FindingSet();
+  const isJs = file !== undefined && JS_EXTENSIONS.test(file);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    const lineNo = i + 1;
+
+    for (const match of line.matchAll(STRING_LITERAL)) {
+      const body = match[0].slice(1, -1);
+      // Encoded payloads are ASCII; non-Latin prose has a naturally larger alphabet
+      if (body.length < t.minLiteralLength || !/^[\x20-\x7e]*$/.test(body)) continue;
+      const score = shannonEntropy(body);
+      if (score >= t.literalEntropy) {
+        found.add("high-entropy-string",
+          (s) => `High-entropy string literal (${round2(s)} bits/char) — possible encrypted or packed payload`,
+          score, lineNo, (match.index ?? 0) + 1);
+      }
+    }
+
+    for (const match of line.matchAll(HEX_RUN)) {
+      if (match[0].length >= t.hexRunLength) {
+        found.add("long-hex-run",
+          (s) => `Long hex-encoded run (${s} chars) — possible embedded binary or shellcode`,
+          match[0].length, lineNo, (match.index ?? 0) + 1);
+      }
+    }
+
+    for (const match of line.matchAll(BASE64_RUN)) {
+      if (match[0].length < t.base64RunLength) continue;
+      const score = shannonEntropy(match[0]);
+      if (score >= t.base64RunEntropy) {
+        found.add("long-base64-run",
+          (s) => `Long base64-encoded run (${round2(s)} bits/char) — possible embedded binary or packed code`,
+          score, lineNo, (match.index ?? 0) + 1);
+      }
+    }
+
+    if (PACKER_SIGNATURE.test(line)) {
+      found.add("packed-code", () => "Packed JavaScript (eval(function(p,a,c,k,e,...)) packer)", 1, lineNo, line.search(PACKER_SIGNATURE) + 1);
+    }
+
+    if (line.length >= t.minLineLength) {
+      const score = shannonEntropy(line);
+      if (score >= t.lineEntropy) {
+        found.add("high-entropy-line",
+          (s) => `High-entropy line (${round2(s)} bits/char) — unusual character distribution`,
+          score, lineNo, 1);
+      }
+    }
+
+    if (isJs && line.length >= t.minifiedLineLength) {
+      const ratio = whitespaceRatio(line);
+      if (ratio < t.minifiedWhitespaceRatio) {
+        // Scored as density (1 - whitespace) so the densest line is reported
+        found.add("minified-code",
+          (s) => `Minified code (${round2((1 - s) * 100)}% whitespace) — too dense to review by eye`,
+          1 - ratio, lineNo, 1);
+      }
+    }
+
+    if (line.length >= t.minSymbolLineLength) {
+      const score = symbolRatio(line);
+      // Entropy floor skips rulers, table separators and box drawing
+      if (score >= t.symbolRatio && shannonEntropy(line) >= MIN_SYMBOL_LINE_ENTROPY) {
+        found.add("unusual-charset",
+          (s) => `Punctuation-heavy line (${round2(s * 100)}% symbols) — possible JSFuck-style encoding`,
+          score, lineNo, 1);
+      }
+    }
+  }
+
+  return found.list();
+}
@@ -0,0 +1,194 @@
+import { extname } from "node:path";
+import type { Threat } from "./security-scanner.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type FileKind = "text" | "script" | "executable" | "archive" | "image" | "document" | "binary";
+
+/** What a file's bytes say it is, regardless of its name. */
+export interface FileType {
+  kind: FileKind;
+  format: string;         // "ELF", "PNG", "ZIP", "text", ...
+  interpreter?: string;   // for scripts: the program named on the #! line
+}
+
+/** A file identified by content rather than by name. */
+export interface SniffedFile {
+  path: string;
+  type: FileType;
+}
+
+/** Bytes read from the start of a file to identify it. */
+export const SNIFF_BYTES = 4096;
+
+// ─── Magic Bytes ─────────────────────────────────────────────────────────────
+
+type Signature = { offset?: number; bytes: number[]; kind: FileKind; format: string };
+
+const ascii = (s: string): number[] => [...s].map((c) => c.charCodeAt(0));
+
+const SIGNATURES: Signature[] = [
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], kind: "executable", format: "ELF" },
+  { bytes: [0xfe, 0xed, 0xfa, 0xce], kind: "executable", format: "Mach-O" },
+  { bytes: [0xfe, 0xed, 0xfa, 0xcf], kind: "executable", format: "Mach-O" },
+  { bytes: [0xce, 0xfa, 0xed, 0xfe], kind: "executable", format: "Mach-O" },
+  { bytes: [0xcf, 0xfa, 0xed, 0xfe], kind: "executable", format: "Mach-O" },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], kind: "executable", format: "WebAssembly" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], kind: "archive", format: "ZIP" },
+  { bytes: [0x50, 0x4b, 0x05, 0x06], kind: "archive", format: "ZIP" },
+  { bytes: [0x1f, 0x8b], kind: "archive", format: "gzip" },
+  { bytes: ascii("BZh"), kind: "archive", format: "bzip2" },
+  { bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], kind: "archive", format: "xz" },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], kind: "archive", format: "7z" },
+  { bytes: ascii("Rar!\x1a\x07"), kind: "archive", format: "RAR" },
+  { bytes: ascii("!<arch>\n"), kind: "archive", format: "ar" },
+  { offset: 257, bytes: ascii("ustar"), kind: "archive", format: "tar" },
+  { bytes: [0x89, 0x50, 0x4e, 0x47], kind: "image", format: "PNG" },
+  { bytes: [0xff, 0xd8, 0xff], kind: "image", format: "JPEG" },
+  { bytes: ascii("GIF8"), kind: "image", format: "GIF" },
+  { bytes: [0x00, 0x00, 0x01, 0x00], kind: "image", format: "ICO" },
+  { bytes: ascii("%PDF-"), kind: "document", format: "PDF" },
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], kind: "document", format: "OLE (legacy Office)" },
+];
+
+// Fraction of NUL bytes above which unrecognized content is treated as binary
+const NUL_RATIO = 0.01;
+
+function startsWith(bytes: Uint8Array, sig: number[], offset = 0): boolean {
+  if (bytes.length < offset + sig.length) return false;
+  return sig.every((b, i) => bytes[offset + i] === b);
+}
+
+function u32(bytes: Uint8Array, offset: number, littleEndian: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, littleEndian);
+}
+
+/** Interpreter named on a `#!` line, following `/usr/bin/env [-S]`. */
+function shebangInterpreter(firstLine: string): string | undefined {
+  const match = /^#!\s*(\S+)(?:\s+(?:-S\s+)?(\S+))?/.exec(firstLine);
+  if (!match) return undefined;
+  const program = match[1].substring(match[1].lastIndexOf("/") + 1);
+  return program === "env" && match[2] ? match[2] : program;
+}
+
+/** Classify already-decoded text: a `#!` script or plain text. */
+export function sniffText(content: string): FileType {
+  const interpreter = content.startsWith("#!") ? shebangInterpreter(content.split("\n", 1)[0]) : undefined;
+  return interpreter ? { kind: "script", format: "script", interpreter } : { kind: "text", format: "text" };
+}
+
+/**
+ * Identify a file from its leading bytes (at least SNIFF_BYTES where
+ * available): executables, archives, images and documents by magic number,
+ * `#!` scripts, and anything else with NUL bytes as generic binary data.
+ */
+export function sniffFileType(bytes: Uint8Array): FileType {
+  // "MZ" only counts with a PE header where e_lfanew points
+  if (startsWith(bytes, ascii("MZ")) && bytes.length >= 0x40 && startsWith(bytes, ascii("PE\0\0"), u32(bytes, 0x3c, true))) {
+    return { kind: "executable", format: "PE" };
+  }
+  // 0xCAFEBABE is both a fat Mach-O (few architectures) and a Java class (major version >= 45)
+  if (startsWith(bytes, [0xca, 0xfe, 0xba, 0xbe]) && bytes.length >= 8) {
+    return u32(bytes, 4, false) < 45
+      ? { kind: "executable", format: "Mach-O (universal)" }
+      : { kind: "executable", format: "Java class" };
+  }
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) {
+    return { kind: "image", format: "WebP" };
+  }
+  for (const sig of SIGNATURES) {
+    if (startsWith(bytes, sig.bytes, sig.offset)) return { kind: sig.kind, format: sig.format };
+  }
+
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  let nul = 0;
+  for (const b of sample) if (b === 0) nul++;
+  if (sample.length > 0 && nul / sample.length > NUL_RATIO) {
+    return { kind: "binary", format: "binary data" };
+  }
+  return sniffText(new TextDecoder().decode(sample));
+}
+
+/** True if the bytes should not be decoded and scanned as text. */
+export function isBinaryType(type: FileType): boolean {
+  return type.kind !== "text" && type.kind !== "script";
+}
+
+// ─── Extension Checks ────────────────────────────────────────────────────────
+
+// What a binary extension promises; anything else is a mismatch
+const EXTENSION_KINDS: Record<string, FileKind[]> = {
+  ".exe": ["executable"], ".dll": ["executable"], ".so": ["executable"], ".dylib": ["executable"],
+  ".node": ["executable"], ".o": ["executable"], ".wasm": ["executable"], ".class": ["executable"],
+  ".a": ["archive"], ".tar": ["archive"], ".gz": ["archive"], ".tgz": ["archive"], ".zip": ["archive"],
+  ".rar": ["archive"], ".7z": ["archive"], ".bz2": ["archive"],
+  ".png": ["image"], ".jpg": ["image"], ".jpeg": ["image"], ".gif": ["image"], ".bmp": ["image", "binary"],
+  ".ico": ["image"], ".webp": ["image"],
+  ".pdf": ["document"], ".doc": ["document"], ".xls": ["document"],
+  ".docx": ["archive"], ".xlsx": ["archive"],
+  ".mp3": ["binary"], ".mp4": ["binary"], ".avi": ["binary"], ".mov": ["binary"], ".wav": ["binary"],
+  ".bin": ["executable", "archive", "image", "document", "binary"],
+  ".pyc": ["binary"], ".pyo": ["binary"],
+};
+
+// Text formats that are read, not run — a #! line there is a disguise
+const DATA_EXTENSIONS = new Set([
+  ".md", ".markdown", ".txt", ".rst", ".adoc", ".json", ".yaml", ".yml", ".toml", ".ini", ".cfg", ".conf",
+  ".html", ".htm", ".xml", ".svg", ".css", ".scss", ".less", ".csv",
+]);
+
+function describeType(type: FileType): string {
+  if (type.kind === "script") return `${type.interpreter} script`;
+  if (type.kind === "executable") return `${type.format} executable`;
+  if (type.kind === "text") return "text";
+  return `${type.format} ${type.kind === "binary" ? "" : type.kind}`.trim();
+}
+
+/**
+ * Findings for a file whose content type is known: native executables,
+ * other binaries, and files whose extension claims something they are not.
+ * Plain text and scripts with a fitting extension produce nothing here.
+ */
+export function fileTypeThreats(path: string, type: FileType): Threat[] {
+  const ext = extname(path).toLowerCase();
+  const threats: Threat[] = [];
+  const expected = EXTENSION_KINDS[ext];
+
+  let mismatch = false;
+  if (expected) {
+    mismatch = !expected.includes(type.kind);
+  } else if (ext !== "") {
+    // Text extensions: binaries are disguised, and so are scripts in data files
+    mismatch = isBinaryType(type) || (type.kind === "script" && DATA_EXTENSIONS.has(ext));
+  }
+
+  if (mismatch) {
+    const disguisedCode = type.kind === "executable" || type.kind === "script";
+    threats.push({
+      pattern: "file-type-mismatch",
+      severity: type.kind === "executable" ? "critical" : "warning",
+      description: `${describeType(type)} disguised as a ${ext} file${disguisedCode ? "" : " — content does not match its extension"}`,
+      category: "disguised-file",
+      file: path,
+    });
+  }
+
+  if (type.kind === "executable") {
+    threats.push({
+      pattern: "executable-file",
+      severity: "warning",
+      description: `${describeType(type)} — native code cannot be scanned`,
+      category: "executable",
+      file: path,
+    });
+  } else if (isBinaryType(type) && !mismatch) {
+    threats.push({
+      pattern: "binary-file",
+      severity: "warning",
+      description: "Binary file detected — cannot scan, may contain executable code",
+      category: "binary",
+      file: path,
+    });
+  }
+  return threats;
+}
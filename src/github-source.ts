@@ -0,0 +1,357 @@
+import type { ParsedGitHubUrl } from "./security-scanner.js";
+import { sniffFileType, isBinaryType, SNIFF_BYTES, type FileType } from "./file-type.js";
+import { isInspectableArchive, type ArchiveBytes } from "./archive.js";
+import {
+  MAX_FILES,
+  MAX_FILE_SIZE,
+  MAX_TOTAL_SIZE,
+  BINARY_EXTENSIONS,
+  LOCAL_SCAN_IGNORED_DIRS,
+  SUSPICIOUS_FILENAMES,
+  TEXT_EXTENSIONS,
+} from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SkillTreeEntry {
+  path: string;      // relative to the skill root, e.g. "scripts/run.sh"
+  repoPath: string;  // relative to the repository root
+  size?: number;
+  symlink: boolean;
+}
+
+export interface SkillTree {
+  /** True when the URL points at a single file rather than a directory. */
+  singleFile: boolean;
+  entries: SkillTreeEntry[];
+  /** Submodules and other non-blob entries that cannot be fetched. */
+  unsupported: string[];
+  /** GitHub truncated the recursive listing — some files may be missing. */
+  truncated: boolean;
+  /** Git object SHA of the skill path: its tree, or the blob for a single file. */
+  sha?: string;
+}
+
+export interface SnapshotFile {
+  path: string;  // relative to the skill root
+  content: string;
+}
+
+export type SkipReason =
+  | "binary"
+  | "oversized"
+  | "symlink"
+  | "submodule"
+  | "fetch-failed"
+  | "file-limit"
+  | "size-limit"
+  | "ignored-dir";
+
+export interface SkippedEntry {
+  path: string;
+  reason: SkipReason;
+  detail?: string;
+  sniffed?: FileType;  // binary entries: what the content turned out to be
+}
+
+/**
+ * Everything fetched for one skill at one commit. The scanner and the
+ * installer both consume the same snapshot, so the bytes that are scanned
+ * are exactly the bytes written to disk.
+ */
+export interface SkillSnapshot {
+  parsed: ParsedGitHubUrl;
+  commitSha: string;
+  files: SnapshotFile[];
+  skipped: SkippedEntry[];
+  suspicious: string[];
+  truncated: boolean;
+  /** Zip and tar archives among the binary entries, fetched whole for inspection. */
+  archives?: ArchiveBytes[];
+  /** Git object SHA of the skill path; unlike commitSha it only moves when the skill does. */
+  treeSha?: string;
+}
+
+interface GitTreeResponse {
+  sha: string;
+  tree: Array<{
+    path: string;
+    mode: string;
+    type: "blob" | "tree" | "commit";
+    sha: string;
+    size?: number;
+  }>;
+  truncated: boolean;
+}
+
+export class GitHubFetchError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "GitHubFetchError";
+  }
+}
+
+// ─── URL Builders ────────────────────────────────────────────────────────────
+
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+export function rawFileUrl(parsed: ParsedGitHubUrl, repoPath: string): string {
+  return `https://raw.githubusercontent.com/${parsed.owner}/${parsed.repo}/${encodePath(parsed.ref)}/${encodePath(repoPath)}`;
+}
+
+export function fileExtension(path: string): string {
+  const base = path.split("/").pop() || "";
+  return base.includes(".") ? "." + base.split(".").pop()!.toLowerCase() : "";
+}
+
+// ─── Commit Resolution ───────────────────────────────────────────────────────
+
+/**
+ * Resolve a branch, tag or abbreviated SHA to the full 40-char commit SHA,
+ * so every later request in a snapshot reads from the same immutable commit.
+ * Pinned URLs already carry the SHA and need no lookup.
+ */
+export async function resolveCommitSha(parsed: ParsedGitHubUrl, userAgent: string): Promise<string> {
+  if (parsed.pinned) return parsed.ref;
+  const apiUrl = `https://api.github.com/repos/${parsed.owner}/${parsed.repo}/commits/${encodeURIComponent(parsed.ref)}`;
+  const resp = await fetch(apiUrl, {
+    headers: {
+      Accept: "application/vnd.github.sha",
+      "User-Agent": userAgent,
+    },
+  });
+  if (!resp.ok) {
+    throw new GitHubFetchError(resp.status, `GitHub API returned HTTP ${resp.status} resolving ref "${parsed.ref}"`);
+  }
+  const sha = (await resp.text()).trim();
+  if (!/^[0-9a-f]{40}$/i.test(sha)) {
+    throw new GitHubFetchError(502, `GitHub API returned an invalid commit SHA for ref "${parsed.ref}"`);
+  }
+  return sha.toLowerCase();
+}
+
+// ─── Tree Listing ────────────────────────────────────────────────────────────
+
+async function fetchGitTree(parsed: Pick<ParsedGitHubUrl, "owner" | "repo" | "ref">, userAgent: string): Promise<GitTreeResponse> {
+  const apiUrl = `https://api.github.com/repos/${parsed.owner}/${parsed.repo}/git/trees/${encodeURIComponent(parsed.ref)}?recursive=1`;
+  const resp = await fetch(apiUrl, {
+    headers: {
+      Accept: "application/vnd.github.v3+json",
+      "User-Agent": userAgent,
+    },
+  });
+  if (!resp.ok) {
+    throw new GitHubFetchError(resp.status, `GitHub API returned HTTP ${resp.status}`);
+  }
+
+  const body = (await resp.json()) as GitTreeResponse;
+  if (!body || !Array.isArray(body.tree)) {
+    throw new GitHubFetchError(502, "GitHub API returned an unexpected tree response");
+  }
+  return body;
+}
+
+function normalizeRoot(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "");
+}
+
+/** SHA of the tree or blob at `root` in a recursive listing; the repository root is the listing itself. */
+function pathSha(body: GitTreeResponse, root: string): string | undefined {
+  if (!root) return body.sha;
+  return body.tree.find((e) => e.path === root && e.type !== "commit")?.sha;
+}
+
+/**
+ * List every file under the skill path using the Git Trees API with
+ * `recursive=1`, so nested folders (scripts/, references/, ...) are included.
+ * Entries are sorted by relative path for deterministic scanning and hashing.
+ */
+export async function listSkillTree(parsed: ParsedGitHubUrl, userAgent: string): Promise<SkillTree> {
+  const body = await fetchGitTree(parsed, userAgent);
+
+  const root = normalizeRoot(parsed.path);
+  const exact = body.tree.find((e) => e.path === root && e.type === "blob");
+  if (exact) {
+    const name = root.split("/").pop() || "file";
+    return {
+      singleFile: true,
+      entries: [{ path: name, repoPath: exact.path, size: exact.size, symlink: exact.mode === "120000" }],
+      unsupported: [],
+      truncated: false,
+      sha: exact.sha,
+    };
+  }
+
+  const prefix = root + "/";
+  const entries: SkillTreeEntry[] = [];
+  const unsupported: string[] = [];
+  for (const e of body.tree) {
+    if (!e.path.startsWith(prefix)) continue;
+    const rel = e.path.substring(prefix.length);
+    if (e.type === "blob") {
+      entries.push({ path: rel, repoPath: e.path, size: e.size, symlink: e.mode === "120000" });
+    } else if (e.type === "commit") {
+      unsupported.push(rel);
+    }
+  }
+
+  if (entries.length === 0 && unsupported.length === 0 && !body.truncated) {
+    throw new GitHubFetchError(404, `Path "${root}" not found at ref "${parsed.ref}"`);
+  }
+
+  entries.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return { singleFile: false, entries, unsupported, truncated: body.truncated === true, sha: pathSha(body, root) };
+}
+
+/**
+ * Git object SHAs of several paths of one repository at `ref`, from a single
+ * recursive tree listing, so checking many skills of a monorepo costs one
+ * API call. A path's SHA only changes when something under it does. Paths
+ * missing from the listing, e.g. because GitHub truncated it, are left out.
+ */
+export async function resolvePathShas(
+  repo: Pick<ParsedGitHubUrl, "owner" | "repo" | "ref">,
+  paths: string[],
+  userAgent: string,
+): Promise<Map<string, string>> {
+  const body = await fetchGitTree(repo, userAgent);
+  const shas = new Map<string, string>();
+  for (const path of paths) {
+    const sha = pathSha(body, normalizeRoot(path));
+    if (sha) shas.set(path, sha);
+  }
+  return shas;
+}
+
+// ─── Snapshot ────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a raw file's bytes, or only the first SNIFF_BYTES when `prefixOnly`.
+ * The body is read no further than the prefix even if the server ignores the
+ * Range header; `complete` says whether the whole file came back. Returns the
+ * HTTP status on failure.
+ */
+async function fetchBytes(url: string, prefixOnly: boolean): Promise<{ bytes: Uint8Array; complete: boolean } | number> {
+  const resp = await fetch(url, prefixOnly ? { headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` } } : undefined);
+  if (!resp.ok) return resp.status;
+  if (!prefixOnly || !resp.body) {
+    return { bytes: new Uint8Array(await resp.arrayBuffer()), complete: true };
+  }
+
+  const reader = resp.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let done = false;
+  while (length < SNIFF_BYTES) {
+    const chunk = await reader.read();
+    if (chunk.done) {
+      done = true;
+      break;
+    }
+    chunks.push(chunk.value);
+    length += chunk.value.length;
+  }
+  if (!done) await reader.cancel();
+  return { bytes: Buffer.concat(chunks), complete: done && resp.status !== 206 };
+}
+
+/**
+ * Fetch every scannable file of a skill at a single resolved commit,
+ * applying the file count, per-file and total size limits.
+ */
+export async function fetchSkillSnapshot(parsed: ParsedGitHubUrl, userAgent: string): Promise<SkillSnapshot> {
+  const commitSha = await resolveCommitSha(parsed, userAgent);
+  const pinned: ParsedGitHubUrl = { ...parsed, ref: commitSha };
+  const tree = await listSkillTree(pinned, userAgent);
+
+  const files: SnapshotFile[] = [];
+  const archives: ArchiveBytes[] = [];
+  const skipped: SkippedEntry[] = tree.unsupported.map((path) => ({ path, reason: "submodule" as const }));
+  const suspicious: string[] = [];
+  let totalSize = 0;
+
+  for (const entry of tree.entries) {
+    // node_modules/, .git/ and .venv/ are left out of local audits and hashes,
+    // so they are neither installed nor scanned; npm and pip recreate them
+    if (entry.path.split("/").slice(0, -1).some((dir) => LOCAL_SCAN_IGNORED_DIRS.has(dir))) {
+      skipped.push({ path: entry.path, reason: "ignored-dir" });
+      continue;
+    }
+    if (files.length >= MAX_FILES) {
+      skipped.push({ path: entry.path, reason: "file-limit" });
+      continue;
+    }
+
+    const baseName = entry.path.split("/").pop() || entry.path;
+    if (SUSPICIOUS_FILENAMES.has(baseName.toLowerCase())) {
+      suspicious.push(entry.path);
+    }
+
+    if (entry.symlink) {
+      skipped.push({ path: entry.path, reason: "symlink" });
+      continue;
+    }
+
+    // Content decides text vs. binary. Files whose name suggests binary, or
+    // that are too large to scan, only need their first bytes to find out.
+    const ext = fileExtension(entry.path);
+    const oversized = !!entry.size && entry.size > MAX_FILE_SIZE;
+    const prefixOnly = oversized || BINARY_EXTENSIONS.has(ext) || (!TEXT_EXTENSIONS.has(ext) && ext !== "");
+
+    if (!prefixOnly && totalSize >= MAX_TOTAL_SIZE) {
+      skipped.push({ path: entry.path, reason: "size-limit" });
+      continue;
+    }
+
+    try {
+      let fetched = await fetchBytes(rawFileUrl(pinned, entry.repoPath), prefixOnly);
+      if (typeof fetched === "number") {
+        skipped.push({ path: entry.path, reason: "fetch-failed", detail: `HTTP ${fetched}` });
+        continue;
+      }
+
+      const sniffed = sniffFileType(fetched.bytes);
+      if (isBinaryType(sniffed)) {
+        skipped.push({ path: entry.path, reason: "binary", sniffed });
+        // Zip and tar archives are fetched whole so their members can be scanned
+        if (isInspectableArchive(sniffed) && !oversized && totalSize < MAX_TOTAL_SIZE) {
+          const whole = fetched.complete ? fetched : await fetchBytes(rawFileUrl(pinned, entry.repoPath), false);
+          if (typeof whole !== "number") {
+            totalSize += whole.bytes.length;
+            archives.push({ path: entry.path, bytes: whole.bytes });
+          }
+        }
+        continue;
+      }
+      if (oversized) {
+        skipped.push({ path: entry.path, reason: "oversized", detail: `${Math.round(entry.size! / 1024)}KB` });
+        continue;
+      }
+      if (totalSize >= MAX_TOTAL_SIZE) {
+        skipped.push({ path: entry.path, reason: "size-limit" });
+        continue;
+      }
+      if (!fetched.complete) {
+        fetched = await fetchBytes(rawFileUrl(pinned, entry.repoPath), false);
+        if (typeof fetched === "number") {
+          skipped.push({ path: entry.path, reason: "fetch-failed", detail: `HTTP ${fetched}` });
+          continue;
+        }
+      }
+
+      const content = new TextDecoder().decode(fetched.bytes);
+      totalSize += content.length;
+      if (totalSize > MAX_TOTAL_SIZE) {
+        skipped.push({ path: entry.path, reason: "size-limit" });
+        continue;
+      }
+      files.push({ path: entry.path, content });
+    } catch (err) {
+      skipped.push({ path: entry.path, reason: "fetch-failed", detail: err instanceof Error ? err.message : "unknown" });
+    }
+  }
+
+  return { parsed, commitSha, files, skipped, suspicious, truncated: tree.truncated, archives, treeSha: tree.sha };
+}
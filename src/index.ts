@@ -4,10 +4,12 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { registerTools } from "./tools.js";
 import { getSkillManager, shutdownAllManagers } from "./skill-manager.js";
 import { getSyncEngine, shutdownAllEngines } from "./sync-engine.js";
+import { shutdownScanPool } from "./scan-pool.js";
+import { SERVER_NAME, SERVER_VERSION } from "./constants.js";
 
 const server = new McpServer({
-  name: "skillsync",
-  version: "1.4.1",
+  name: SERVER_NAME,
+  version: SERVER_VERSION,
 });
 
 registerTools(server);
@@ -33,6 +35,7 @@ async function main() {
     console.error("[skillsync] Shutting down...");
     shutdownAllEngines();
     shutdownAllManagers();
+    await shutdownScanPool();
     try {
       await server.close();
     } catch {
@@ -1,22 +1,19 @@
-import { mkdir, rm, readdir, writeFile, stat } from "node:fs/promises";
-import { join, resolve } from "node:path";
+import { mkdir, rm, writeFile, readFile, stat } from "node:fs/promises";
+import { join, resolve, dirname, sep, posix } from "node:path";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
-import { createHash } from "node:crypto";
+import { MAX_FILES, MAX_TOTAL_SIZE, PYTHON_VENV_DIRNAME } from "./constants.js";
 import {
-  MAX_FILES,
-  MAX_FILE_SIZE,
-  MAX_TOTAL_SIZE,
-  BINARY_EXTENSIONS,
-  TEXT_EXTENSIONS,
-  ALLOWED_GITHUB_HOSTS,
-} from "./constants.js";
-import {
-  fetchAndScanSkill,
+  fetchAndScanSnapshot,
+  computeContentHash,
+  formatThreatLocation,
   validateGithubUrl,
-  type FetchScanResult,
   type ParsedGitHubUrl,
 } from "./security-scanner.js";
+import { GitHubFetchError, type SkippedEntry } from "./github-source.js";
+import { skillMetadataFromFiles, type SkillMetadata } from "./skill-metadata.js";
+import { analyzeRequirements, requirementsIncludes } from "./python-manifest.js";
+import { blocksInstall } from "./suppressions.js";
 import {
   type SkillScope,
   resolvePaths,
@@ -32,10 +29,16 @@ export interface InstallResult {
   success: boolean;
   installPath: string;
   filesCount: number;
+  files: string[];  // installed paths, relative to installPath
   contentHash: string;
+  commitSha: string;  // commit the installed snapshot was fetched from
+  treeSha?: string;   // Git object SHA of the skill path at that commit
   scanSummary: string;
   hasSkillMd: boolean;
+  metadata: SkillMetadata;
   npmInstalled: boolean;
+  pythonInstalled: boolean;  // requirements.txt installed into venvPath with hash checking
+  venvPath?: string;
   warnings: string[];
   scope: SkillScope;
 }
@@ -54,6 +57,97 @@ function inferSkillName(parsed: ParsedGitHubUrl): string {
   return segments[segments.length - 1] || parsed.repo;
 }
 
+function describeSkip(entry: SkippedEntry): string {
+  switch (entry.reason) {
+    case "binary":
+      return entry.sniffed ? `binary file (${entry.sniffed.format})` : "binary file";
+    case "oversized":
+      return `too large: ${entry.detail}`;
+    case "symlink":
+      return "symbolic link";
+    case "submodule":
+      return "git submodule";
+    case "fetch-failed":
+      return `fetch failed: ${entry.detail ?? "unknown"}`;
+    case "file-limit":
+      return `limit of ${MAX_FILES} files reached`;
+    case "size-limit":
+      return `total size limit of ${MAX_TOTAL_SIZE / 1024}KB reached`;
+    case "ignored-dir":
+      return "dependency or VCS directory";
+  }
+}
+
+/**
+ * Why pip must not run on requirements.txt, or null. Hashes pin what is
+ * installed but not where it is fetched from, so an index, find-links or
+ * trusted-host option anywhere in requirements.txt or the files it pulls in
+ * with -r / -c refuses the install, as does an include the scan never saw.
+ */
+async function pipSourceOverride(installPath: string): Promise<string | null> {
+  const seen = new Set<string>();
+  const pending = ["requirements.txt"];
+  for (let file = pending.pop(); file !== undefined; file = pending.pop()) {
+    if (seen.has(file)) continue;
+    seen.add(file);
+    let content: string;
+    try {
+      content = await readFile(join(installPath, file), "utf-8");
+    } catch {
+      return `${file} is included by a requirements file but is not part of the skill`;
+    }
+    const override = analyzeRequirements(file, content)
+      .find((t) => t.pattern === "pip-index-override" || t.pattern === "pip-trusted-host");
+    if (override) return `${file}:${override.line} ${override.description}`;
+    for (const include of requirementsIncludes(content)) {
+      const path = posix.normalize(posix.join(posix.dirname(file), include));
+      if (/^[a-z][\w+.-]*:/i.test(include) || !isSafeRelativePath(path)) {
+        return `${file} includes ${include}, which is outside the skill`;
+      }
+      pending.push(path);
+    }
+  }
+  return null;
+}
+
+/**
+ * Create `<installPath>/.venv` and install requirements.txt into it in pip's
+ * hash-checking mode, wheels only so no package build code runs. Returns
+ * the venv path, or a warning when the step could not complete or was
+ * refused because the requirements choose their own package sources.
+ */
+async function installPythonVenv(installPath: string): Promise<{ venvPath?: string; warning?: string }> {
+  const override = await pipSourceOverride(installPath);
+  if (override) {
+    return { warning: `Python venv skipped: ${override}. Review the package sources and install the requirements yourself.` };
+  }
+  const venvPath = join(installPath, PYTHON_VENV_DIRNAME);
+  const python = process.platform === "win32" ? "python" : "python3";
+  const pip = process.platform === "win32" ? join(venvPath, "Scripts", "pip.exe") : join(venvPath, "bin", "pip");
+  try {
+    await execFileAsync(python, ["-m", "venv", venvPath], { cwd: installPath, timeout: 60_000 });
+  } catch (err) {
+    return { warning: `Python venv creation failed: ${err instanceof Error ? err.message : "unknown"}` };
+  }
+  try {
+    await execFileAsync(pip, [
+      "install", "--require-hashes", "--only-binary=:all:", "--no-input", "--disable-pip-version-check",
+      "-r", "requirements.txt",
+    ], { cwd: installPath, timeout: 120_000 });
+    return { venvPath };
+  } catch (err) {
+    await rm(venvPath, { recursive: true, force: true });
+    return {
+      warning: `pip install failed: ${err instanceof Error ? err.message : "unknown"}. Hash-checking mode needs every requirement pinned with ==version and --hash.`,
+    };
+  }
+}
+
+function isSafeRelativePath(path: string): boolean {
+  if (!path || path.startsWith("/") || path.includes("\\") || path.includes("\0")) return false;
+  return path.split("/").every((seg) => seg !== "" && seg !== "." && seg !== "..");
+}
+
 // ─── Install ────────────────────────────────────────────────────────────────
 
 export async function installSkill(
@@ -61,6 +155,7 @@ export async function installSkill(
   name?: string,
   force?: boolean,
   scope: SkillScope = "global",
+  pythonVenv = false,
 ): Promise<InstallResult> {
   const warnings: string[] = [];
   const paths = resolvePaths(scope);
@@ -69,7 +164,7 @@ export async function installSkill(
   const parsed = validateGithubUrl(githubUrl);
   if (!parsed) {
     throw new Error(
-      "Invalid GitHub URL. Expected: https://github.com/owner/repo/tree/branch/path"
+      "Invalid GitHub URL. Expected: https://github.com/owner/repo/tree/<branch|sha>/path"
     );
   }
 
@@ -96,24 +191,42 @@ export async function installSkill(
     );
   }
 
-  // 4. Security scan
-  const scanResult = await fetchAndScanSkill(githubUrl);
-
-  // Block on critical threats — no override
-  if (scanResult.riskLevel === "critical") {
-    const criticals = scanResult.threats
-      .filter((t) => t.severity === "critical")
-      .map((t) => `  - [${t.category}] ${t.description}`)
+  // 4. Fetch one snapshot and scan it in memory
+  let fetched;
+  try {
+    fetched = await fetchAndScanSnapshot(githubUrl, "skillsync-mcp-installer/1.0");
+  } catch (err) {
+    if (err instanceof GitHubFetchError) {
+      throw new Error(`${err.message}. Verify URL and repo visibility.`);
+    }
+    throw err;
+  }
+  const { snapshot, result: scanResult } = fetched;
+
+  // Block on critical risk, or on any critical finding or unfinished file
+  // scan not suppressed from the global file — no override. A file whose
+  // scan timed out or crashed may hide criticals, so it fails closed. A
+  // critical score can come from a combination of warnings, in which case
+  // those are what get listed.
+  const active = scanResult.threats.filter((t) => !t.suppression);
+  const blocking = active.filter(blocksInstall);
+  if (scanResult.riskLevel === "critical" || blocking.length > 0) {
+    const listed = (blocking.length > 0 ? blocking : active)
+      .map((t) => `  - [${t.category}] ${formatThreatLocation(t) || "skill"}: ${t.description}`)
       .join("\n");
+    const reason = scanResult.riskLevel === "critical" || blocking.some((t) => t.severity === "critical")
+      ? "Critical security threats detected"
+      : "Some files could not be fully scanned";
     throw new Error(
-      `BLOCKED: Critical security threats detected. Cannot install.\n\n${scanResult.recommendation}\n\nCritical threats:\n${criticals}`
+      `BLOCKED: ${reason}. Cannot install.\n\n${scanResult.recommendation}\n\n${blocking.length > 0 ? "Blocking findings" : "Threats"}:\n${listed}`
     );
   }
 
   // Warn on medium/high — require force
   if ((scanResult.riskLevel === "high" || scanResult.riskLevel === "medium") && !force) {
     const threatSummary = scanResult.threats
-      .map((t) => `  - [${t.severity}/${t.category}] ${t.description}`)
+      .filter((t) => !t.suppression)
+      .map((t) => `  - [${t.severity}/${t.category}] ${formatThreatLocation(t) || "skill"}: ${t.description}`)
       .join("\n");
     throw new Error(
       `Security scan flagged ${scanResult.riskLevel.toUpperCase()} risk. Use force=true to install anyway.\n\n${scanResult.recommendation}\n\nThreats:\n${threatSummary}`
@@ -124,8 +237,18 @@ export async function installSkill(
     warnings.push(`Security scan: LOW risk — ${scanResult.recommendation}`);
   }
 
-  // 5. Fetch files from GitHub
-  const files = await fetchSkillFiles(parsed);
+  for (const entry of snapshot.skipped) {
+    warnings.push(`Not installed: ${entry.path} (${describeSkip(entry)})`);
+  }
+
+  // 5. Path traversal check on every nested path before anything is written
+  const root = resolve(installPath);
+  for (const file of snapshot.files) {
+    const resolvedFile = resolve(root, file.path);
+    if (!isSafeRelativePath(file.path) || !resolvedFile.startsWith(root + sep)) {
+      throw new Error(`BLOCKED: path traversal in filename "${file.path}".`);
+    }
+  }
 
   // 6. Create directory and write files
   if (exists) {
@@ -134,30 +257,43 @@ export async function installSkill(
   await mkdir(installPath, { recursive: true });
 
   let hasSkillMd = false;
-  const allContent: string[] = [];
-
-  for (const file of files) {
-    const filePath = join(installPath, file.name);
-    // Extra path traversal check on individual filenames
-    const resolvedFile = resolve(filePath);
-    if (!resolvedFile.startsWith(resolve(installPath) + "/") && resolvedFile !== resolve(installPath)) {
-      warnings.push(`Skipped "${file.name}": path traversal in filename`);
-      continue;
-    }
-    await writeFile(filePath, file.content, "utf-8");
-    allContent.push(file.content);
-    if (file.name.toLowerCase() === "skill.md") {
+  const installedFiles: string[] = [];
+
+  for (const file of snapshot.files) {
+    const resolvedFile = resolve(root, file.path);
+    await mkdir(dirname(resolvedFile), { recursive: true });
+    await writeFile(resolvedFile, file.content, "utf-8");
+    installedFiles.push(file.path);
+    if (file.path.toLowerCase() === "skill.md") {
       hasSkillMd = true;
     }
   }
 
+  // Verify what landed on disk is exactly what was scanned
+  const written = await Promise.all(snapshot.files.map(async (file) => ({
+    path: file.path,
+    content: await readFile(resolve(root, file.path), "utf-8"),
+  })));
+  const contentHash = computeContentHash(written);
+  if (contentHash !== scanResult.contentHash) {
+    await rm(installPath, { recursive: true, force: true });
+    throw new Error(
+      `BLOCKED: installed content hash ${contentHash.substring(0, 16)}... does not match the scanned hash ${scanResult.contentHash.substring(0, 16)}.... The install was removed.`
+    );
+  }
+
+  const metadata = skillMetadataFromFiles(snapshot.files, skillName);
   if (!hasSkillMd) {
     warnings.push("No SKILL.md found. This skill may not be recognized by Claude Code.");
+  } else {
+    for (const issue of metadata.issues) {
+      warnings.push(`SKILL.md frontmatter ${issue.severity}: ${issue.message}`);
+    }
   }
 
   // 7. Run npm install if package.json exists
   let npmInstalled = false;
-  const hasPackageJson = files.some((f) => f.name === "package.json");
+  const hasPackageJson = installedFiles.includes("package.json");
   if (hasPackageJson) {
     try {
       await execFileAsync("npm", ["install", "--ignore-scripts"], {
@@ -172,18 +308,31 @@ export async function installSkill(
     }
   }
 
-  const contentHash = createHash("sha256")
-    .update(allContent.join("\n---FILE-BOUNDARY---\n"))
-    .digest("hex");
+  // 8. Opt-in: install Python requirements into an isolated venv
+  let venvPath: string | undefined;
+  const hasRequirements = installedFiles.includes("requirements.txt");
+  if (pythonVenv && hasRequirements) {
+    const venv = await installPythonVenv(installPath);
+    venvPath = venv.venvPath;
+    if (venv.warning) warnings.push(venv.warning);
+  } else if (pythonVenv) {
+    warnings.push("Python venv skipped: no requirements.txt at the skill root.");
+  }
 
   return {
     success: true,
     installPath,
-    filesCount: files.length,
+    filesCount: installedFiles.length,
+    files: installedFiles,
     contentHash,
+    commitSha: snapshot.commitSha,
+    treeSha: snapshot.treeSha,
     scanSummary: `${scanResult.riskLevel.toUpperCase()} — ${scanResult.recommendation}`,
     hasSkillMd,
+    metadata,
     npmInstalled,
+    pythonInstalled: venvPath !== undefined,
+    venvPath,
     warnings,
     scope,
   };
@@ -218,94 +367,3 @@ export async function uninstallSkill(
     message: `Skill "${name}" has been uninstalled.`,
   };
 }
-
-// ─── File Fetching ──────────────────────────────────────────────────────────
-
-interface SkillFile {
-  name: string;
-  content: string;
-}
-
-const ALLOWED_DOWNLOAD_HOSTS = new Set([
-  "raw.githubusercontent.com",
-  "github.com",
-  "objects.githubusercontent.com",
-]);
-
-async function fetchSkillFiles(parsed: ParsedGitHubUrl): Promise<SkillFile[]> {
-  const apiUrl = `https://api.github.com/repos/${parsed.owner}/${parsed.repo}/contents/${parsed.path}?ref=${parsed.ref}`;
-  const files: SkillFile[] = [];
-  let totalSize = 0;
-
-  const dirResp = await fetch(apiUrl, {
-    headers: {
-      Accept: "application/vnd.github.v3+json",
-      "User-Agent": "skillsync-mcp-installer/1.0",
-    },
-  });
-
-  if (!dirResp.ok) {
-    // Try as single file
-    const rawUrl = `https://raw.githubusercontent.com/${parsed.owner}/${parsed.repo}/${parsed.ref}/${parsed.path}`;
-    const rawResp = await fetch(rawUrl);
-    if (!rawResp.ok) {
-      throw new Error(`GitHub API returned HTTP ${dirResp.status}. Verify URL and repo visibility.`);
-    }
-    const content = await rawResp.text();
-    const name = parsed.path.split("/").pop() || "file";
-    return [{ name, content }];
-  }
-
-  const body = await dirResp.json();
-
-  if (!Array.isArray(body)) {
-    // Single file via API
-    const content =
-      typeof body === "object" && body !== null && "content" in body
-        ? Buffer.from((body as { content: string }).content, "base64").toString()
-        : JSON.stringify(body);
-    const name = parsed.path.split("/").pop() || "file";
-    return [{ name, content }];
-  }
-
-  const entries = body as Array<{
-    type: string;
-    download_url: string | null;
-    name: string;
-    size?: number;
-  }>;
-
-  for (const entry of entries) {
-    if (files.length >= MAX_FILES) break;
-    if (entry.type !== "file" || !entry.download_url) continue;
-
-    // Skip binary files
-    const ext = entry.name.includes(".")
-      ? "." + entry.name.split(".").pop()!.toLowerCase()
-      : "";
-    if (BINARY_EXTENSIONS.has(ext)) continue;
-    if (!TEXT_EXTENSIONS.has(ext) && ext !== "") continue;
-
-    // Size guard
-    if (entry.size && entry.size > MAX_FILE_SIZE) continue;
-
-    // Validate download host
-    try {
-      const dlHost = new URL(entry.download_url).hostname;
-      if (!ALLOWED_DOWNLOAD_HOSTS.has(dlHost)) continue;
-    } catch {
-      continue;
-    }
-
-    const fileResp = await fetch(entry.download_url);
-    if (!fileResp.ok) continue;
-
-    const content = await fileResp.text();
-    totalSize += content.length;
-    if (totalSize > MAX_TOTAL_SIZE) break;
-
-    files.push({ name: entry.name, content });
-  }
-
-  return files;
-}
@@ -0,0 +1,508 @@
+import { parse, type ParserPlugin } from "@babel/parser";
+import type * as t from "@babel/types";
+import { detectLanguage } from "./languages.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface JsFinding {
+  pattern: string;
+  severity: "warning" | "critical";
+  category: string;
+  description: string;
+  obfuscated: boolean;  // sink name or module was built at runtime
+  locations: Array<{ line: number; column: number }>;
+}
+
+/**
+ * What an expression is known to evaluate to. `folded` marks values that
+ * were assembled at runtime (concatenation, join, char codes, decoding)
+ * rather than written as a plain literal — a strong evasion signal.
+ */
+type Value =
+  | { kind: "string"; value: string; folded: boolean }
+  | { kind: "array"; items: string[]; folded: boolean }
+  | { kind: "module"; name: string; folded: boolean }
+  | { kind: "member"; module: string; name: string; folded: boolean }
+  | { kind: "global"; name: string; folded: boolean }
+  | { kind: "env" };
+
+// ─── Sink Tables ─────────────────────────────────────────────────────────────
+
+const MAX_ANALYZED_LENGTH = 512_000;
+// Sink, module and path names are short; a longer fold is abandoned so that
+// doubling (`s = s + s` repeated) cannot allocate without bound
+const MAX_FOLDED_LENGTH = 4096;
+
+const SHELL_SINKS = new Set(["exec", "execSync", "spawn", "spawnSync", "execFile", "execFileSync", "fork"]);
+const VM_SINKS = new Set(["runInNewContext", "runInThisContext", "runInContext", "compileFunction", "Script", "createScript"]);
+const FS_WRITE_SINKS = new Set([
+  "writeFile", "writeFileSync", "appendFile", "appendFileSync", "createWriteStream",
+  "rm", "rmSync", "unlink", "unlinkSync", "rename", "renameSync", "copyFile", "copyFileSync",
+  "cp", "cpSync", "chmod", "chmodSync", "symlink", "symlinkSync", "mkdir", "mkdirSync",
+]);
+const NETWORK_SINKS: Record<string, Set<string>> = {
+  http: new Set(["request", "get"]),
+  https: new Set(["request", "get"]),
+  http2: new Set(["connect"]),
+  net: new Set(["connect", "createConnection", "Socket"]),
+  tls: new Set(["connect"]),
+  dgram: new Set(["createSocket"]),
+  axios: new Set(["get", "post", "put", "patch", "delete", "head", "request", "create"]),
+  undici: new Set(["request", "fetch", "stream"]),
+};
+const NETWORK_GLOBALS = new Set(["fetch", "WebSocket", "XMLHttpRequest", "EventSource"]);
+const CALLABLE_NETWORK_MODULES = new Set(["axios", "node-fetch", "got"]);
+
+// Importing these through a computed name is treated as hostile on its own
+const DANGEROUS_MODULES = new Set([
+  "child_process", "vm", "fs", "fs/promises", "net", "http", "https", "http2", "tls", "dgram", "worker_threads",
+]);
+
+const KNOWN_GLOBALS = new Set(["eval", "Function", "require", "process", "globalThis", "global", "window", "self", "__dirname", ...NETWORK_GLOBALS]);
+const GLOBAL_OBJECTS = new Set(["globalThis", "global", "window", "self"]);
+
+// Same targets the persistence and credential patterns watch for
+const SENSITIVE_PATH = /(?:^|\/)(?:\.ssh|\.aws|\.gnupg|\.claude|\.config\/autostart)(?:\/|$)|(?:^|\/)\.(?:bashrc|zshrc|profile|bash_profile|zprofile|npmrc|gitconfig)$|^\/etc\/|^\/(?:usr|bin|sbin)\/|LaunchAgents/;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+export function isJavaScriptFile(file: string | undefined): boolean {
+  return file !== undefined && detectLanguage(file) === "javascript";
+}
+
+function pluginsFor(file: string): ParserPlugin[] {
+  const ext = file.substring(file.lastIndexOf(".")).toLowerCase();
+  if (ext === ".tsx") return ["typescript", "jsx", "decorators-legacy"];
+  if (ext === ".ts" || ext === ".mts" || ext === ".cts") return ["typescript", "decorators-legacy"];
+  return ["jsx", "decorators-legacy"];
+}
+
+function isNode(value: unknown): value is t.Node {
+  return typeof value === "object" && value !== null && typeof (value as { type?: unknown }).type === "string";
+}
+
+const SKIPPED_KEYS = new Set(["loc", "start", "end", "extra", "leadingComments", "trailingComments", "innerComments", "range"]);
+
+/** Depth-first visit of every node. Iterative so hostile nesting cannot overflow the stack. */
+function walk(root: t.Node, visit: (node: t.Node) => void): void {
+  const stack: t.Node[] = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    visit(node);
+    const children: t.Node[] = [];
+    for (const [key, value] of Object.entries(node)) {
+      if (SKIPPED_KEYS.has(key)) continue;
+      if (Array.isArray(value)) {
+        for (const item of value) if (isNode(item)) children.push(item);
+      } else if (isNode(value)) {
+        children.push(value);
+      }
+    }
+    // Reverse so nodes are visited in source order
+    for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+  }
+}
+
+// ─── Resolution ──────────────────────────────────────────────────────────────
+
+function moduleName(specifier: string): string {
+  return specifier.replace(/^node:/, "");
+}
+
+function str(value: string, folded: boolean): Value {
+  return { kind: "string", value, folded };
+}
+
+/** `parts.join(separator)`, or null when the result would exceed MAX_FOLDED_LENGTH. */
+function joinFolded(parts: string[], separator = ""): string | null {
+  let length = separator.length * Math.max(0, parts.length - 1);
+  for (const part of parts) length += part.length;
+  return length > MAX_FOLDED_LENGTH ? null : parts.join(separator);
+}
+
+class Resolver {
+  readonly bindings = new Map<string, Value>();
+
+  resolve(node: t.Node | null | undefined, depth = 0): Value | null {
+    if (!node || depth > 32) return null;
+    switch (node.type) {
+      case "StringLiteral":
+        return str(node.value, false);
+      case "TemplateLiteral": {
+        const parts = [node.quasis[0].value.cooked ?? ""];
+        for (let i = 0; i < node.expressions.length; i++) {
+          const part = this.resolve(node.expressions[i], depth + 1);
+          if (part?.kind !== "string") return null;
+          parts.push(part.value, node.quasis[i + 1].value.cooked ?? "");
+        }
+        const value = joinFolded(parts);
+        return value === null ? null : str(value, node.expressions.length > 0);
+      }
+      case "BinaryExpression": {
+        if (node.operator !== "+") return null;
+        const left = this.resolve(node.left, depth + 1);
+        const right = this.resolve(node.right, depth + 1);
+        if (left?.kind !== "string" || right?.kind !== "string") return null;
+        const value = joinFolded([left.value, right.value]);
+        return value === null ? null : str(value, true);
+      }
+      case "ArrayExpression": {
+        const items: string[] = [];
+        let folded = false;
+        for (const element of node.elements) {
+          const item = this.resolve(element, depth + 1);
+          if (item?.kind !== "string") return null;
+          items.push(item.value);
+          folded ||= item.folded;
+        }
+        return { kind: "array", items, folded };
+      }
+      case "Identifier": {
+        const bound = this.bindings.get(node.name);
+        if (bound) return bound;
+        return KNOWN_GLOBALS.has(node.name) ? { kind: "global", name: node.name, folded: false } : null;
+      }
+      case "MemberExpression":
+      case "OptionalMemberExpression":
+        return this.resolveMember(node, depth);
+      case "CallExpression":
+      case "OptionalCallExpression":
+        return this.resolveCall(node, depth);
+      case "ImportExpression":
+        return this.importOf(node.source, depth);
+      case "AwaitExpression":
+      case "TSAsExpression":
+      case "TSNonNullExpression":
+      case "TSSatisfiesExpression":
+      case "TSTypeAssertion":
+      case "TypeCastExpression":
+      case "ParenthesizedExpression":
+        return this.resolve("expression" in node ? node.expression : node.argument, depth + 1);
+      case "SequenceExpression":
+        // (0, cp.exec)(...) — the value is the last expression
+        return this.resolve(node.expressions[node.expressions.length - 1], depth + 1);
+      default:
+        return null;
+    }
+  }
+
+  private propertyName(node: t.MemberExpression | t.OptionalMemberExpression, depth: number): { name: string; folded: boolean } | null {
+    if (!node.computed && node.property.type === "Identifier") return { name: node.property.name, folded: false };
+    const key = this.resolve(node.property, depth + 1);
+    return key?.kind === "string" ? { name: key.value, folded: key.folded } : null;
+  }
+
+  private resolveMember(node: t.MemberExpression | t.OptionalMemberExpression, depth: number): Value | null {
+    const prop = this.propertyName(node, depth);
+    if (!prop) return null;
+    const object = this.resolve(node.object, depth + 1);
+    if (!object) return null;
+    const folded = object.kind !== "env" && object.folded || prop.folded;
+
+    if (object.kind === "module") {
+      if (object.name === "fs" && prop.name === "promises") return { kind: "module", name: "fs/promises", folded };
+      return { kind: "member", module: object.name, name: prop.name, folded };
+    }
+    if (object.kind === "member") {
+      // cp.exec.call(...) / .apply / .bind invoke the same sink
+      if (prop.name === "call" || prop.name === "apply" || prop.name === "bind") return { ...object, folded };
+      if (object.name === "default") return { kind: "member", module: object.module, name: prop.name, folded };
+      return null;
+    }
+    if (object.kind === "global") {
+      if (GLOBAL_OBJECTS.has(object.name)) {
+        return KNOWN_GLOBALS.has(prop.name) ? { kind: "global", name: prop.name, folded } : null;
+      }
+      if (object.name === "process" && prop.name === "env") return { kind: "env" };
+      if (object.name === "process" && prop.name === "mainModule") return { kind: "global", name: "process", folded };
+      if (object.name === "process" && prop.name === "require") return { kind: "global", name: "require", folded };
+      if (object.name === "Function" && (prop.name === "call" || prop.name === "apply")) return object;
+      return null;
+    }
+    if (object.kind === "env") {
+      return prop.name === "HOME" || prop.name === "USERPROFILE" ? str("~", false) : null;
+    }
+    return null;
+  }
+
+  private importOf(source: t.Node, depth: number): Value | null {
+    const specifier = this.resolve(source, depth + 1);
+    if (specifier?.kind !== "string") return null;
+    return { kind: "module", name: moduleName(specifier.value), folded: specifier.folded };
+  }
+
+  private resolveCall(node: t.CallExpression | t.OptionalCallExpression, depth: number): Value | null {
+    const args = node.arguments;
+    if (node.callee.type === "Import") return this.importOf(args[0], depth);
+
+    const callee = this.resolve(node.callee, depth + 1);
+    if (callee?.kind === "global" && callee.name === "require") return this.importOf(args[0], depth);
+    if (callee?.kind === "member" && callee.module === "module" && callee.name === "createRequire") {
+      return { kind: "global", name: "require", folded: false };
+    }
+    if (callee?.kind === "member" && callee.module === "os" && callee.name === "homedir") return str("~", false);
+    if (callee?.kind === "member" && callee.module === "path" && (callee.name === "join" || callee.name === "resolve")) {
+      return this.joinPath(args, callee.name === "resolve", depth);
+    }
+    if (callee?.kind === "global" && callee.name === "atob") return this.decode(args[0], "base64", depth);
+
+    // String building: "a".concat(...), [..].join(""), s.split("").reverse(), String.fromCharCode(...)
+    if (node.callee.type !== "MemberExpression" && node.callee.type !== "OptionalMemberExpression") return null;
+    const method = node.callee.computed ? null : (node.callee.property as t.Identifier).name;
+    if (!method) return null;
+
+    if (node.callee.object.type === "Identifier" && node.callee.object.name === "String" && method === "fromCharCode") {
+      const codes: number[] = [];
+      for (const arg of args) {
+        if (arg.type !== "NumericLiteral") return null;
+        codes.push(arg.value);
+      }
+      return str(String.fromCharCode(...codes), true);
+    }
+
+    const target = this.resolve(node.callee.object, depth + 1);
+    if (method === "toString" && node.callee.object.type === "CallExpression") {
+      return this.bufferFrom(node.callee.object, depth);
+    }
+    if (target?.kind === "string") {
+      if (method === "concat") {
+        const parts = [target.value];
+        for (const arg of args) {
+          const part = this.resolve(arg, depth + 1);
+          if (part?.kind !== "string") return null;
+          parts.push(part.value);
+        }
+        const value = joinFolded(parts);
+        return value === null ? null : str(value, true);
+      }
+      if (method === "split") {
+        const sep = this.resolve(args[0], depth + 1);
+        if (sep?.kind !== "string") return null;
+        return { kind: "array", items: target.value.split(sep.value), folded: true };
+      }
+      if (method === "toLowerCase") return str(target.value.toLowerCase(), true);
+      if (method === "toUpperCase") return str(target.value.toUpperCase(), true);
+      return null;
+    }
+    if (target?.kind === "array") {
+      if (method === "reverse") return { kind: "array", items: [...target.items].reverse(), folded: true };
+      if (method === "join") {
+        const sep = args.length === 0 ? str(",", false) : this.resolve(args[0], depth + 1);
+        if (sep?.kind !== "string") return null;
+        const value = joinFolded(target.items, sep.value);
+        return value === null ? null : str(value, true);
+      }
+    }
+    return null;
+  }
+
+  /** Buffer.from("...", "base64" | "hex").toString() */
+  private bufferFrom(node: t.CallExpression, depth: number): Value | null {
+    const callee = node.callee;
+    if (callee.type !== "MemberExpression" || callee.object.type !== "Identifier" || callee.object.name !== "Buffer") return null;
+    if (callee.property.type !== "Identifier" || callee.property.name !== "from") return null;
+    const encoding = this.resolve(node.arguments[1], depth + 1);
+    if (encoding?.kind !== "string" || (encoding.value !== "base64" && encoding.value !== "hex")) return null;
+    return this.decode(node.arguments[0], encoding.value, depth);
+  }
+
+  private decode(arg: t.Node | undefined, encoding: "base64" | "hex", depth: number): Value | null {
+    const source = this.resolve(arg, depth + 1);
+    if (source?.kind !== "string") return null;
+    return str(Buffer.from(source.value, encoding).toString("utf-8"), true);
+  }
+
+  /** Fold path.join/resolve into a string, with the home dir as "~" and the skill dir as ".". */
+  private joinPath(args: t.Node[], absolute: boolean, depth: number): Value | null {
+    const parts: string[] = [];
+    let folded = false;
+    for (const arg of args) {
+      if (arg.type === "Identifier" && arg.name === "__dirname" && !this.bindings.has(arg.name)) {
+        parts.push(".");
+        continue;
+      }
+      const part = this.resolve(arg, depth + 1);
+      if (part?.kind !== "string") return null;
+      // A later absolute segment restarts path.resolve
+      if (absolute && (part.value.startsWith("/") || part.value.startsWith("~"))) parts.length = 0;
+      parts.push(part.value);
+      folded ||= part.folded;
+    }
+    const value = joinFolded(parts, "/");
+    return value === null ? null : str(value.replace(/\/{2,}/g, "/"), folded);
+  }
+
+  /** Record what a declaration or assignment binds, including destructured module members. */
+  bind(target: t.Node, init: t.Node | null | undefined): void {
+    if (!init) return;
+    if (target.type === "Identifier") {
+      const value = this.resolve(init);
+      if (value) this.bindings.set(target.name, value);
+      return;
+    }
+    if (target.type !== "ObjectPattern") return;
+    const source = this.resolve(init);
+    if (source?.kind !== "module" && !(source?.kind === "global" && GLOBAL_OBJECTS.has(source.name))) return;
+    for (const prop of target.properties) {
+      if (prop.type !== "ObjectProperty") continue;
+      const key = !prop.computed && prop.key.type === "Identifier" ? str(prop.key.name, false) : this.resolve(prop.key);
+      if (key?.kind !== "string") continue;
+      const local = prop.value.type === "AssignmentPattern" ? prop.value.left : prop.value;
+      if (local.type !== "Identifier") continue;
+      const folded = source.folded || key.folded;
+      this.bindings.set(local.name, source.kind === "module"
+        ? { kind: "member", module: source.name, name: key.value, folded }
+        : { kind: "global", name: key.value, folded });
+    }
+  }
+
+  bindImport(node: t.ImportDeclaration): void {
+    const module = moduleName(node.source.value);
+    for (const spec of node.specifiers) {
+      if (spec.type === "ImportSpecifier") {
+        const name = spec.imported.type === "Identifier" ? spec.imported.name : spec.imported.value;
+        this.bindings.set(spec.local.name, { kind: "member", module, name, folded: false });
+      } else {
+        this.bindings.set(spec.local.name, { kind: "module", name: module, folded: false });
+      }
+    }
+  }
+}
+
+// ─── Findings ────────────────────────────────────────────────────────────────
+
+interface SinkHit {
+  pattern: string;
+  severity: "warning" | "critical";
+  category: string;
+  label: string;  // e.g. "child_process.exec()"
+}
+
+const DESCRIPTIONS: Record<string, (labels: string) => string> = {
+  "js/child-process": (l) => `Runs shell commands via ${l}`,
+  "js/eval": (l) => `Evaluates code at runtime via ${l}`,
+  "js/vm": (l) => `Executes code in a VM context via ${l}`,
+  "js/network": (l) => `Opens network connections via ${l}`,
+  "js/fs-write-outside": (l) => `Writes outside the skill directory via ${l}`,
+  "js/fs-write-sensitive": (l) => `Writes to a sensitive path via ${l}`,
+  "js/obfuscated-call": (l) => `Calls a dangerous API through a name built at runtime: ${l}`,
+  "js/obfuscated-require": (l) => `Loads a dangerous module through a name built at runtime: ${l}`,
+};
+
+class FindingSet {
+  private readonly findings = new Map<string, { hit: SinkHit; labels: Set<string>; locations: JsFinding["locations"] }>();
+
+  add(hit: SinkHit, node: t.Node): void {
+    const at = { line: node.loc?.start.line ?? 1, column: (node.loc?.start.column ?? 0) + 1 };
+    const existing = this.findings.get(hit.pattern);
+    if (existing) {
+      existing.labels.add(hit.label);
+      existing.locations.push(at);
+    } else {
+      this.findings.set(hit.pattern, { hit, labels: new Set([hit.label]), locations: [at] });
+    }
+  }
+
+  list(): JsFinding[] {
+    return [...this.findings.values()].map(({ hit, labels, locations }) => ({
+      pattern: hit.pattern,
+      severity: hit.severity,
+      category: hit.category,
+      description: DESCRIPTIONS[hit.pattern]([...labels].join(", ")),
+      obfuscated: hit.pattern.startsWith("js/obfuscated-"),
+      locations,
+    }));
+  }
+}
+
+function classifyWritePath(path: string): "sensitive" | "outside" | null {
+  const normalized = path.replace(/\\/g, "/");
+  if (SENSITIVE_PATH.test(normalized.replace(/^~\/?/, "/"))) return "sensitive";
+  if (/^(?:\/|~|[A-Za-z]:\/)/.test(normalized) || normalized.split("/").includes("..")) return "outside";
+  return null;
+}
+
+function sinkFor(callee: Value, args: t.Node[], resolver: Resolver, isNew: boolean): SinkHit | null {
+  let hit: SinkHit | null = null;
+  if (callee.kind === "member") {
+    const label = `${callee.module}.${callee.name}()`;
+    if (callee.module === "child_process" && SHELL_SINKS.has(callee.name)) {
+      hit = { pattern: "js/child-process", severity: "warning", category: "shell-execution", label };
+    } else if (callee.module === "vm" && VM_SINKS.has(callee.name)) {
+      hit = { pattern: "js/vm", severity: "warning", category: "code-execution", label };
+    } else if (NETWORK_SINKS[callee.module]?.has(callee.name)) {
+      hit = { pattern: "js/network", severity: "warning", category: "network", label };
+    } else if ((callee.module === "fs" || callee.module === "fs/promises") && FS_WRITE_SINKS.has(callee.name)) {
+      const target = resolver.resolve(args[0]);
+      const where = target?.kind === "string" ? classifyWritePath(target.value) : null;
+      if (where === "sensitive") hit = { pattern: "js/fs-write-sensitive", severity: "critical", category: "filesystem", label };
+      else if (where === "outside") hit = { pattern: "js/fs-write-outside", severity: "warning", category: "filesystem", label };
+    }
+  } else if (callee.kind === "global") {
+    if (callee.name === "eval" || callee.name === "Function") {
+      hit = { pattern: "js/eval", severity: "warning", category: "code-execution", label: `${callee.name}()` };
+    } else if (NETWORK_GLOBALS.has(callee.name) && (callee.name === "fetch" || isNew)) {
+      hit = { pattern: "js/network", severity: "warning", category: "network", label: `${callee.name}()` };
+    }
+  } else if (callee.kind === "module" && CALLABLE_NETWORK_MODULES.has(callee.name)) {
+    hit = { pattern: "js/network", severity: "warning", category: "network", label: `${callee.name}()` };
+  }
+  if (hit && callee.kind !== "env" && callee.folded) {
+    return { ...hit, pattern: "js/obfuscated-call", severity: "critical" };
+  }
+  return hit;
+}
+
+/**
+ * Parse a JavaScript/TypeScript file and report calls that actually reach
+ * dangerous sinks — shell execution, eval/Function/vm, network clients and
+ * fs writes outside the skill directory — after resolving imports, simple
+ * aliases and constant-folded names. Comments and strings never match.
+ * Returns null if the file cannot be parsed.
+ */
+export function analyzeJavaScript(content: string, file: string): JsFinding[] | null {
+  if (content.length > MAX_ANALYZED_LENGTH) return null;
+  let ast: t.File;
+  try {
+    ast = parse(content, {
+      sourceType: "unambiguous",
+      errorRecovery: true,
+      allowReturnOutsideFunction: true,
+      allowImportExportEverywhere: true,
+      plugins: pluginsFor(file),
+    }) as t.File;
+  } catch {
+    return null;
+  }
+
+  // Pass 1: bindings, so functions declared above an alias still resolve it
+  const resolver = new Resolver();
+  walk(ast, (node) => {
+    if (node.type === "ImportDeclaration") resolver.bindImport(node);
+    else if (node.type === "VariableDeclarator") resolver.bind(node.id, node.init);
+    else if (node.type === "AssignmentExpression" && node.operator === "=") resolver.bind(node.left, node.right);
+    else if (node.type === "TSImportEqualsDeclaration" && node.moduleReference.type === "TSExternalModuleReference") {
+      resolver.bindings.set(node.id.name, { kind: "module", name: moduleName(node.moduleReference.expression.value), folded: false });
+    }
+  });
+
+  // Pass 2: calls
+  const found = new FindingSet();
+  walk(ast, (node) => {
+    if (node.type !== "CallExpression" && node.type !== "OptionalCallExpression" && node.type !== "NewExpression") return;
+    const isNew = node.type === "NewExpression";
+
+    const loaded = isNew ? null : resolver.resolve(node);
+    if (loaded?.kind === "module" && loaded.folded && DANGEROUS_MODULES.has(loaded.name)) {
+      found.add({ pattern: "js/obfuscated-require", severity: "critical", category: "obfuscation", label: `"${loaded.name}"` }, node);
+      return;
+    }
+
+    const callee = node.callee.type === "Import" || node.callee.type === "V8IntrinsicIdentifier" ? null : resolver.resolve(node.callee);
+    if (!callee) return;
+    const hit = sinkFor(callee, node.arguments, resolver, isNew);
+    if (hit) found.add(hit, node);
+  });
+
+  return found.list();
+}
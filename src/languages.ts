@@ -0,0 +1,72 @@
+import { extname } from "node:path";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * Language a file is scanned as. Source languages get their own rule sets;
+ * documents (Markdown and everything else) embed snippets in any language
+ * and are checked against every rule.
+ */
+export type Language = "javascript" | "python" | "shell" | "powershell" | "markdown" | "text";
+
+export const LANGUAGES: readonly Language[] = ["javascript", "python", "shell", "powershell", "markdown", "text"];
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  ".js": "javascript", ".mjs": "javascript", ".cjs": "javascript", ".jsx": "javascript",
+  ".ts": "javascript", ".mts": "javascript", ".cts": "javascript", ".tsx": "javascript",
+  ".py": "python", ".pyw": "python",
+  ".sh": "shell", ".bash": "shell", ".zsh": "shell", ".ksh": "shell",
+  ".ps1": "powershell", ".psm1": "powershell", ".psd1": "powershell",
+  ".md": "markdown", ".markdown": "markdown", ".mdx": "markdown",
+};
+
+const SHEBANG_LANGUAGES: Array<[RegExp, Language]> = [
+  [/^(?:node|deno|bun|tsx|ts-node)$/, "javascript"],
+  [/^python[0-9.]*$/, "python"],
+  [/^(?:sh|bash|zsh|ksh|dash)$/, "shell"],
+  [/^(?:pwsh|powershell)$/, "powershell"],
+];
+
+/** Interpreter named by a `#!` line, following `/usr/bin/env [-S]`. */
+function shebangLanguage(content: string): Language | undefined {
+  const match = /^#!\s*(\S+)(?:\s+(?:-S\s+)?(\S+))?/.exec(content);
+  if (!match) return undefined;
+  let interpreter = match[1].substring(match[1].lastIndexOf("/") + 1);
+  if (interpreter === "env" && match[2]) interpreter = match[2];
+  return SHEBANG_LANGUAGES.find(([re]) => re.test(interpreter))?.[1];
+}
+
+// Info strings seen on Markdown code fences, mapped to a representative extension
+const FENCE_EXTENSIONS: Record<string, string> = {
+  js: ".js", javascript: ".js", node: ".js", mjs: ".mjs", cjs: ".cjs", jsx: ".jsx",
+  ts: ".ts", typescript: ".ts", tsx: ".tsx",
+  py: ".py", python: ".py", python3: ".py",
+  sh: ".sh", bash: ".sh", shell: ".sh", zsh: ".zsh", ksh: ".ksh", console: ".sh", shellsession: ".sh",
+  ps1: ".ps1", powershell: ".ps1", pwsh: ".ps1",
+  md: ".md", markdown: ".md",
+};
+
+/** Extension a fenced code block is scanned as, from its info string (```python → ".py"). */
+export function fenceExtension(info: string): string | undefined {
+  const tag = info.trim().split(/[\s{,]/)[0].toLowerCase();
+  return Object.hasOwn(FENCE_EXTENSIONS, tag) ? FENCE_EXTENSIONS[tag] : undefined;
+}
+
+/**
+ * Language of a skill file, by extension. Extensionless files (scripts in
+ * bin/ and the like) fall back to their shebang line.
+ */
+export function detectLanguage(file: string | undefined, content?: string): Language {
+  if (!file) return "text";
+  const ext = extname(file).toLowerCase();
+  if (Object.hasOwn(EXTENSION_LANGUAGES, ext)) return EXTENSION_LANGUAGES[ext];
+  if (ext === "" && content !== undefined) return shebangLanguage(content) ?? "text";
+  return "text";
+}
+
+/** Documents are checked against every rule set, not just their own. */
+export function isDocumentLanguage(language: Language): boolean {
+  return language === "markdown" || language === "text";
+}
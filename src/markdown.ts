@@ -0,0 +1,293 @@
+import { detectLanguage, fenceExtension, type Language } from "./languages.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Where in a Markdown file something sits, as the agent and the user see it. */
+export type MarkdownContext = "prose" | "code" | "comment" | "link";
+
+export interface CodeBlock {
+  info: string;          // fence info string, e.g. "python title=setup.py"
+  ext?: string;          // extension the block is scanned as, from the info string
+  language: Language;
+  startLine: number;     // first line inside the fence, 1-based
+  endLine: number;       // last line inside the fence, 1-based (startLine - 1 when empty)
+  content: string;
+}
+
+export interface MarkdownComment {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
+}
+
+export interface MarkdownLink {
+  line: number;
+  column: number;        // start of the target, 1-based
+  endColumn: number;     // end of the target, inclusive
+  text: string;
+  target: string;
+  image: boolean;
+}
+
+export interface MarkdownDocument {
+  /** Language of each line (index = line - 1): the block's for fenced code, "markdown" otherwise. */
+  lineLanguages: Language[];
+  blocks: CodeBlock[];
+  comments: MarkdownComment[];
+  links: MarkdownLink[];
+  contextAt(line: number, column: number): MarkdownContext;
+}
+
+export interface MarkdownFinding {
+  pattern: string;
+  severity: "warning" | "critical";
+  category: string;
+  description: string;
+  locations: Array<{ line: number; column: number }>;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const INLINE_LINK = /(!?)\[([^\]\n]*)\]\(\s*<?([^)\s>]+)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+const AUTOLINK = /<((?:https?|ftp|mailto|javascript|data|vbscript):[^>\s]+)>/gi;
+const REFERENCE_DEFINITION = /^ {0,3}\[([^\]\n]+)\]:\s*<?(\S+?)>?(?:\s|$)/;
+
+function isClosingFence(line: string, fence: string): boolean {
+  const match = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line);
+  return match !== null && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+function before(a: { line: number; column: number }, b: { line: number; column: number }): boolean {
+  return a.line < b.line || (a.line === b.line && a.column <= b.column);
+}
+
+/**
+ * Split Markdown into fenced code blocks, HTML comments, link targets and
+ * prose. Line-based and linear-time; indented code blocks and other rarely
+ * used constructs are treated as prose, which is checked most strictly.
+ */
+export function parseMarkdown(content: string): MarkdownDocument {
+  const lines = content.split("\n").map((l) => l.replace(/\r$/, ""));
+  const lineLanguages: Language[] = new Array(lines.length).fill("markdown");
+  const codeLines = new Array<boolean>(lines.length).fill(false);
+  const blocks: CodeBlock[] = [];
+  const comments: MarkdownComment[] = [];
+  const links: MarkdownLink[] = [];
+
+  let fence: { marker: string; block: CodeBlock; body: string[] } | null = null;
+  let openComment: { startLine: number; startColumn: number; text: string[] } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNo = i + 1;
+
+    if (fence) {
+      codeLines[i] = true;
+      lineLanguages[i] = fence.block.language;
+      if (isClosingFence(line, fence.marker)) {
+        fence.block.content = fence.body.join("\n");
+        fence.block.endLine = lineNo - 1;
+        blocks.push(fence.block);
+        fence = null;
+      } else {
+        fence.body.push(line);
+      }
+      continue;
+    }
+
+    // Comment spans: ranges of this line covered by <!-- ... -->
+    const covered: Array<[number, number]> = [];
+    let from = 0;
+    if (openComment) {
+      const close = line.indexOf("-->");
+      if (close < 0) {
+        openComment.text.push(line);
+        continue;
+      }
+      openComment.text.push(line.substring(0, close));
+      comments.push({ startLine: openComment.startLine, startColumn: openComment.startColumn, endLine: lineNo, endColumn: close + 3, text: openComment.text.join("\n") });
+      covered.push([0, close + 3]);
+      openComment = null;
+      from = close + 3;
+    } else {
+      const open = FENCE_OPEN.exec(line);
+      if (open && !(open[1][0] === "`" && open[2].includes("`"))) {
+        const info = open[2].trim();
+        const ext = fenceExtension(info);
+        const language = ext ? detectLanguage(`block${ext}`) : "text";
+        codeLines[i] = true;
+        lineLanguages[i] = language;
+        fence = { marker: open[1], block: { info, ext, language, startLine: lineNo + 1, endLine: lineNo, content: "" }, body: [] };
+        continue;
+      }
+    }
+
+    while (from < line.length) {
+      const start = line.indexOf("<!--", from);
+      if (start < 0) break;
+      const close = line.indexOf("-->", start + 4);
+      if (close < 0) {
+        openComment = { startLine: lineNo, startColumn: start + 1, text: [line.substring(start + 4)] };
+        covered.push([start, line.length]);
+        break;
+      }
+      comments.push({ startLine: lineNo, startColumn: start + 1, endLine: lineNo, endColumn: close + 3, text: line.substring(start + 4, close) });
+      covered.push([start, close + 3]);
+      from = close + 3;
+    }
+
+    const inComment = (index: number) => covered.some(([s, e]) => index >= s && index < e);
+    const addLink = (text: string, target: string, targetIndex: number, image: boolean) => {
+      if (inComment(targetIndex)) return;
+      links.push({ line: lineNo, column: targetIndex + 1, endColumn: targetIndex + target.length, text, target, image });
+    };
+
+    const reference = REFERENCE_DEFINITION.exec(line);
+    if (reference) addLink(reference[1], reference[2], line.indexOf(reference[2], reference[0].indexOf("]:")), false);
+    for (const match of line.matchAll(INLINE_LINK)) {
+      const index = match.index ?? 0;
+      addLink(match[2], match[3], line.indexOf(match[3], index + match[1].length + match[2].length + 3), match[1] === "!");
+    }
+    for (const match of line.matchAll(AUTOLINK)) {
+      addLink(match[1], match[1], (match.index ?? 0) + 1, false);
+    }
+  }
+
+  // Unclosed constructs run to the end of the document
+  if (fence) {
+    fence.block.content = fence.body.join("\n");
+    fence.block.endLine = lines.length;
+    blocks.push(fence.block);
+  }
+  if (openComment) {
+    comments.push({ startLine: openComment.startLine, startColumn: openComment.startColumn, endLine: lines.length, endColumn: (lines[lines.length - 1]?.length ?? 0), text: openComment.text.join("\n") });
+  }
+
+  return {
+    lineLanguages,
+    blocks,
+    comments,
+    links,
+    contextAt(line: number, column: number): MarkdownContext {
+      if (codeLines[line - 1]) return "code";
+      const at = { line, column };
+      if (comments.some((c) => before({ line: c.startLine, column: c.startColumn }, at) && before(at, { line: c.endLine, column: c.endColumn }))) {
+        return "comment";
+      }
+      if (links.some((l) => l.line === line && column >= l.column && column <= l.endColumn)) return "link";
+      return "prose";
+    },
+  };
+}
+
+// ─── Prose Checks ────────────────────────────────────────────────────────────
+
+// Agent-directed imperatives: instructions aimed at the model rather than
+// explanations for the reader. Matched in prose and inside HTML comments.
+const AGENT_IMPERATIVES: Array<{ id: string; regex: RegExp; description: string }> = [
+  {
+    id: "md/always-run",
+    regex: /\b(?:always|automatically|immediately)\s+(?:run|execute|invoke|install|source)\b/gi,
+    description: "Instructs the agent to run commands unconditionally",
+  },
+  {
+    id: "md/skip-confirmation",
+    regex: /\bwithout\s+(?:asking|prompting|consulting|checking\s+with)\s+(?:the\s+)?user\b|\bwithout\s+(?:the\s+user'?s?\s+)?(?:permission|consent|confirmation|approval)\b|\b(?:do\s+not|don'?t|never)\s+(?:ask|prompt|wait)\s+(?:the\s+user\s+)?for\s+(?:permission|confirmation|approval)\b/gi,
+    description: "Instructs the agent to act without the user's confirmation",
+  },
+  {
+    id: "md/send-contents",
+    regex: /\b(?:send|post|upload|forward|transmit|exfiltrate)\s+(?:the\s+)?(?:full\s+|entire\s+)?(?:contents?|text|body)\s+of\b|\b(?:send|post|upload|forward|transmit)\s+(?:all\s+|the\s+|any\s+)?(?:files|credentials|secrets|tokens|api\s+keys|environment\s+variables|ssh\s+keys|conversation|chat\s+history)\b/gi,
+    description: "Instructs the agent to send file contents or secrets elsewhere",
+  },
+  {
+    id: "md/conceal-from-user",
+    regex: /\bwithout\s+(?:telling|informing|notifying)\s+the\s+user\b|\b(?:do\s+not|don'?t|never)\s+(?:tell|inform|notify|alert)\s+the\s+user\b|\bsilently\s+(?:run|execute|install|send|upload|delete|modify)\b|\bhide\s+(?:this|it|the\s+output)\s+from\s+the\s+user\b/gi,
+    description: "Instructs the agent to hide its actions from the user",
+  },
+  {
+    id: "md/claims-priority",
+    regex: /\b(?:these|this)\s+instructions?\s+(?:take|takes|have|has)\s+(?:priority|precedence)\b|\bregardless\s+of\s+(?:what\s+)?the\s+user\s+(?:says|asks|wants)\b/gi,
+    description: "Claims priority over the user's instructions",
+  },
+];
+
+// ─── Link Checks ─────────────────────────────────────────────────────────────
+
+const SCRIPT_URL = /^\s*(?:javascript|vbscript):|^\s*data:text\/html/i;
+const DOMAIN_TEXT = /^(?:https?:\/\/|www\.)((?:[a-z0-9-]+\.)*[a-z0-9-]+\.[a-z]{2,})(?:[/:?#]|$)/i;
+const IPV4_HOST = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+function hostOf(target: string): string | null {
+  try {
+    const url = new URL(target);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+function bareHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, "");
+}
+
+class FindingSet {
+  private readonly findings = new Map<string, MarkdownFinding>();
+
+  add(pattern: string, severity: MarkdownFinding["severity"], category: string, description: string, line: number, column: number): void {
+    const existing = this.findings.get(pattern);
+    if (existing) existing.locations.push({ line, column });
+    else this.findings.set(pattern, { pattern, severity, category, description, locations: [{ line, column }] });
+  }
+
+  list(): MarkdownFinding[] {
+    return [...this.findings.values()];
+  }
+}
+
+/**
+ * Markdown-specific findings: agent-directed imperatives in prose (critical
+ * when hidden in an HTML comment, which the rendered page does not show) and
+ * deceptive or script link targets.
+ */
+export function analyzeMarkdown(content: string, doc: MarkdownDocument): MarkdownFinding[] {
+  const found = new FindingSet();
+  const lines = content.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    if (doc.lineLanguages[i] !== "markdown" || doc.contextAt(i + 1, 1) === "code") continue;
+    for (const imperative of AGENT_IMPERATIVES) {
+      for (const match of lines[i].matchAll(imperative.regex)) {
+        const column = (match.index ?? 0) + 1;
+        const context = doc.contextAt(i + 1, column);
+        if (context === "comment") {
+          found.add("md/hidden-instruction", "critical", "prompt-injection",
+            "Agent-directed instruction hidden in an HTML comment", i + 1, column);
+        } else if (context === "prose") {
+          found.add(imperative.id, "warning", "prompt-injection", imperative.description, i + 1, column);
+        }
+      }
+    }
+  }
+
+  for (const link of doc.links) {
+    if (SCRIPT_URL.test(link.target)) {
+      found.add("md/script-link", "warning", "deceptive-link", "Link target runs script (javascript:, vbscript: or data:text/html URL)", link.line, link.column);
+      continue;
+    }
+    const host = hostOf(link.target);
+    if (!host) continue;
+    if (IPV4_HOST.test(host) && !host.startsWith("127.")) {
+      found.add("md/ip-link", "warning", "deceptive-link", "Link to a raw IP address", link.line, link.column);
+    }
+    const shown = DOMAIN_TEXT.exec(link.text.trim());
+    if (shown && link.text.trim() !== link.target && bareHost(shown[1]) !== bareHost(host)) {
+      found.add("md/mismatched-link", "warning", "deceptive-link", "Link text shows one domain but points to another", link.line, link.column);
+    }
+  }
+
+  return found.list();
+}
@@ -0,0 +1,223 @@
+import type { Threat } from "./security-scanner.js";
+import { redactSecretsInLine } from "./secrets.js";
+import { sanitizeText } from "./sanitize.js";
+import { MAX_DESTINATIONS, MAX_LINE_LENGTH } from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type DestinationClass =
+  | "github"
+  | "package-registry"
+  | "cdn"
+  | "url-shortener"
+  | "paste-site"
+  | "ip-literal"
+  | "local"      // localhost, loopback, private and link-local addresses
+  | "example"    // reserved documentation names: example.com, *.test, *.invalid
+  | "insecure";  // reached over http://, ws:// or ftp:// somewhere in the skill
+
+export interface DestinationLocation {
+  file: string;
+  line: number;
+}
+
+export interface NetworkDestination {
+  host: string;                 // lowercase hostname or IP literal
+  classes: DestinationClass[];
+  urls: string[];               // distinct URLs without query or credentials, secrets redacted
+  locations: DestinationLocation[];  // first MAX_DESTINATION_LOCATIONS occurrences
+  occurrences: number;
+}
+
+/** Allow and deny lists, by domain; an entry also covers its subdomains. */
+export interface NetworkPolicy {
+  allow: string[];  // when non-empty, anything else not well known is reported as unknown
+  deny: string[];   // always reported
+}
+
+// ─── Classification ──────────────────────────────────────────────────────────
+
+const KNOWN_DOMAINS: Array<[DestinationClass, string[]]> = [
+  ["github", [
+    "github.com", "githubusercontent.com", "github.io", "githubassets.com", "ghcr.io",
+  ]],
+  ["package-registry", [
+    "npmjs.org", "npmjs.com", "yarnpkg.com", "pypi.org", "pythonhosted.org", "crates.io",
+    "rubygems.org", "proxy.golang.org", "pkg.go.dev", "maven.org", "repo.maven.apache.org",
+    "nuget.org", "packagist.org", "hex.pm", "pub.dev", "registry-1.docker.io", "hub.docker.com",
+  ]],
+  ["cdn", [
+    "jsdelivr.net", "unpkg.com", "cdnjs.cloudflare.com", "esm.sh", "skypack.dev",
+    "ajax.googleapis.com", "fonts.googleapis.com", "fonts.gstatic.com", "code.jquery.com",
+    "cdn.tailwindcss.com", "bootstrapcdn.com",
+  ]],
+  ["url-shortener", [
+    "bit.ly", "tinyurl.com", "t.co", "goo.gl", "is.gd", "v.gd", "ow.ly", "buff.ly",
+    "rebrand.ly", "cutt.ly", "shorturl.at", "tiny.cc", "rb.gy", "t.ly", "s.id",
+  ]],
+  ["paste-site", [
+    "pastebin.com", "paste.ee", "hastebin.com", "ghostbin.com", "rentry.co", "rentry.org",
+    "dpaste.com", "dpaste.org", "paste.rs", "termbin.com", "transfer.sh", "0x0.st",
+    "ix.io", "controlc.com", "privatebin.net",
+  ]],
+];
+
+// Expected infrastructure: never "unknown" under an allow list
+const WELL_KNOWN: ReadonlySet<DestinationClass> = new Set(["github", "package-registry", "cdn", "local", "example"]);
+
+const EXAMPLE_DOMAINS = ["example.com", "example.net", "example.org", "example", "test", "invalid"];
+const LOCAL_DOMAINS = ["localhost", "local", "internal"];
+
+/** Whether `host` is `domain` or one of its subdomains. */
+export function matchesDomain(host: string, domain: string): boolean {
+  const d = domain.toLowerCase().replace(/^\*\./, "").replace(/\.$/, "");
+  return host === d || host.endsWith(`.${d}`);
+}
+
+function isIPv4(host: string): boolean {
+  return /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/.test(host);
+}
+
+function isPrivateIPv4(host: string): boolean {
+  const [a, b] = host.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+function classify(host: string): DestinationClass[] {
+  if (isIPv4(host)) return isPrivateIPv4(host) ? ["ip-literal", "local"] : ["ip-literal"];
+  if (host.startsWith("[")) {
+    return /^\[(?:::1?|f[cd][0-9a-f]{2}:.*|fe80:.*)\]$/i.test(host) ? ["ip-literal", "local"] : ["ip-literal"];
+  }
+  if (LOCAL_DOMAINS.some((d) => matchesDomain(host, d))) return ["local"];
+  if (EXAMPLE_DOMAINS.some((d) => matchesDomain(host, d))) return ["example"];
+  return KNOWN_DOMAINS.filter(([, domains]) => domains.some((d) => matchesDomain(host, d))).map(([cls]) => cls);
+}
+
+// ─── Extraction ──────────────────────────────────────────────────────────────
+
+const URL_PATTERN = /\b(?:https?|wss?|ftp):\/\/[^\s"'`<>()[\]{}\\|^]+/gi;
+const INSECURE_SCHEMES = new Set(["http:", "ws:", "ftp:"]);
+
+// Hostnames without a scheme only count in lowercase under TLDs that rarely
+// end a file name or a property access (".sh", ".py", ".info", ".app" do)
+const BARE_HOST = /(?<![\w.@/-])((?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+(?:com|net|org|io|ai|co|xyz|top|ru|cn|biz|tk|onion|su|pw))(?![\w.-]*[\w-])/g;
+const IPV4_LITERAL = /(?<![\w.])((?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d))(?![\w.])/g;
+
+const MAX_DESTINATION_URLS = 10;
+const MAX_DESTINATION_LOCATIONS = 10;
+
+interface Mention {
+  host: string;
+  url?: string;
+  insecure?: boolean;
+}
+
+/** Scheme, host and path of a URL; credentials, query and fragment are dropped. */
+function parseUrl(raw: string): Mention | null {
+  let url: URL;
+  try {
+    url = new URL(raw.replace(/[.,;:!?]+$/, ""));
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (!host) return null;
+  const shown = redactSecretsInLine([`${url.protocol}//${url.host}${url.pathname}`], 0);
+  return { host, url: sanitizeText(shown), insecure: INSECURE_SCHEMES.has(url.protocol) };
+}
+
+function mentionsInLine(line: string): Mention[] {
+  const mentions: Mention[] = [];
+  // URLs first, then blank them out so their hosts are not counted twice.
+  // Bare names are only looked for on lines short enough to match cheaply.
+  const rest = line.replace(URL_PATTERN, (raw) => {
+    const mention = parseUrl(raw);
+    if (mention) mentions.push(mention);
+    return " ".repeat(raw.length);
+  });
+  if (line.length > MAX_LINE_LENGTH) return mentions;
+  for (const match of rest.matchAll(BARE_HOST)) mentions.push({ host: match[1] });
+  for (const match of rest.matchAll(IPV4_LITERAL)) mentions.push({ host: match[1] });
+  return mentions;
+}
+
+/**
+ * Every URL, hostname and IP literal in a skill's files, grouped by host and
+ * classified. Covers prose and code alike: a link in SKILL.md tells the agent
+ * where to go just as a fetch() does. Sorted by host.
+ */
+export function buildNetworkInventory(files: ReadonlyArray<{ path: string; content: string }>): NetworkDestination[] {
+  const byHost = new Map<string, NetworkDestination & { insecure: boolean }>();
+  for (const file of files) {
+    const lines = file.content.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      for (const mention of mentionsInLine(lines[i])) {
+        let destination = byHost.get(mention.host);
+        if (!destination) {
+          if (byHost.size >= MAX_DESTINATIONS) continue;
+          destination = { host: mention.host, classes: [], urls: [], locations: [], occurrences: 0, insecure: false };
+          byHost.set(mention.host, destination);
+        }
+        destination.occurrences++;
+        destination.insecure ||= !!mention.insecure;
+        if (mention.url && !destination.urls.includes(mention.url) && destination.urls.length < MAX_DESTINATION_URLS) {
+          destination.urls.push(mention.url);
+        }
+        if (destination.locations.length < MAX_DESTINATION_LOCATIONS) {
+          destination.locations.push({ file: file.path, line: i + 1 });
+        }
+      }
+    }
+  }
+
+  return [...byHost.values()]
+    .map(({ insecure, ...destination }) => {
+      const classes = classify(destination.host);
+      // Plain http to your own machine is not a downgrade worth flagging
+      if (insecure && !classes.includes("local") && !classes.includes("example")) classes.push("insecure");
+      return { ...destination, classes };
+    })
+    .sort((a, b) => (a.host < b.host ? -1 : a.host > b.host ? 1 : 0));
+}
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+
+/**
+ * One finding per destination the policy rejects: `denied-destination`
+ * (critical) for hosts on the deny list and, when an allow list is set,
+ * `unknown-destination` (warning) for hosts that are neither allowed nor
+ * well-known infrastructure such as GitHub, package registries and CDNs.
+ */
+export function destinationThreats(destinations: NetworkDestination[], policy?: NetworkPolicy): Threat[] {
+  if (!policy) return [];
+  const threats: Threat[] = [];
+  for (const { host, classes, locations, occurrences } of destinations) {
+    const first = locations[0];
+    const where = { file: first?.file, line: first?.line, occurrences };
+    const shown = sanitizeText(host);
+    if (policy.deny.some((d) => matchesDomain(host, d))) {
+      threats.push({
+        pattern: "denied-destination",
+        severity: "critical",
+        description: `Skill references ${shown}, which the network policy denies`,
+        category: "network-policy",
+        ...where,
+      });
+    } else if (
+      policy.allow.length > 0
+      && !policy.allow.some((d) => matchesDomain(host, d))
+      && !classes.some((c) => WELL_KNOWN.has(c))
+    ) {
+      const kind = classes.filter((c) => c !== "insecure").join(", ");
+      threats.push({
+        pattern: "unknown-destination",
+        severity: "warning",
+        description: `Skill references ${shown}${kind ? ` (${kind})` : ""}, which is not on the network allow list`,
+        category: "network-policy",
+        ...where,
+      });
+    }
+  }
+  return threats;
+}
@@ -0,0 +1,239 @@
+import type { Threat } from "./security-scanner.js";
+import { sanitizeText } from "./sanitize.js";
+import { POPULAR_NPM_PACKAGES, typosquatTarget } from "./typosquat.js";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const PACKAGE_JSON = "package.json";
+const JSON_LOCKFILES = new Set(["package-lock.json", "npm-shrinkwrap.json"]);
+const TEXT_LOCKFILES = new Set(["yarn.lock", "pnpm-lock.yaml"]);
+
+// Scripts npm runs on `npm install` / `npm ci` (the installer passes --ignore-scripts,
+// but a user running npm in the skill directory later does not)
+const LIFECYCLE_SCRIPTS = ["preinstall", "install", "postinstall", "prepare", "preprepare", "postprepare", "prepublish", "preuninstall", "uninstall", "postuninstall"];
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "optionalDependencies", "peerDependencies"];
+
+const TRUSTED_REGISTRIES = new Set(["registry.npmjs.org", "registry.yarnpkg.com"]);
+
+const GIT_SPEC = /^(?:git\+[a-z]+:|git:\/\/|github:|gitlab:|bitbucket:|gist:)|^[\w.-]+\/[\w.-]+(?:#.*)?$/i;
+const URL_SPEC = /^https?:\/\//i;
+const LOCAL_SPEC = /^(?:file|link|workspace|portal|patch|exec):/;
+const ALIAS_SPEC = /^npm:((?:@[^/@\s]+\/)?[^@\s]+)(?:@(.*))?$/;
+
+const MAX_NAMES_SHOWN = 5;
+const MAX_SCRIPT_SHOWN = 120;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function fileName(path: string): string {
+  return path.substring(path.lastIndexOf("/") + 1);
+}
+
+/** 1-based line of the first `"key":` at or after line index `from`, if any. */
+function keyLine(lines: string[], key: string, from = 0): number | undefined {
+  const needle = JSON.stringify(key);
+  for (let i = from; i < lines.length; i++) {
+    const at = lines[i].indexOf(needle);
+    if (at >= 0 && /^\s*:/.test(lines[i].substring(at + needle.length))) return i + 1;
+  }
+  return undefined;
+}
+
+function supplyChainThreat(file: string, pattern: string, severity: Threat["severity"], description: string, line?: number): Threat {
+  return { pattern, severity, description: sanitizeText(description), category: "supply-chain", file, line };
+}
+
+function listNames(names: string[]): string {
+  const shown = names.slice(0, MAX_NAMES_SHOWN).join(", ");
+  return names.length > MAX_NAMES_SHOWN ? `${shown}, +${names.length - MAX_NAMES_SHOWN} more` : shown;
+}
+
+/** A range with no upper bound: "*", "latest" and other dist-tags, ">=1.0". */
+function isUnpinned(range: string): boolean {
+  return range.split("||").some((part) => {
+    const p = part.trim();
+    const distTag = /^[a-zA-Z][\w.-]*$/.test(p) && !/^v\d/.test(p);
+    return p === "" || p === "*" || /^[xX]$/.test(p) || /^>=?\s*[\w.+-]+$/.test(p) || distTag;
+  });
+}
+
+// ─── package.json ────────────────────────────────────────────────────────────
+
+function analyzePackageJson(file: string, content: string): Threat[] {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    return [{
+      pattern: "npm-manifest-invalid",
+      severity: "warning",
+      description: "package.json is not valid JSON — its dependencies could not be checked",
+      category: "incomplete-scan",
+      file,
+    }];
+  }
+  if (!manifest || typeof manifest !== "object") return [];
+  const pkg = manifest as Record<string, unknown>;
+  const lines = content.split("\n");
+  const threats: Threat[] = [];
+
+  const scripts = pkg.scripts && typeof pkg.scripts === "object" ? pkg.scripts as Record<string, unknown> : {};
+  const scriptsLine = keyLine(lines, "scripts") ?? 1;
+  for (const name of LIFECYCLE_SCRIPTS) {
+    const command = scripts[name];
+    if (typeof command !== "string") continue;
+    const shown = command.length > MAX_SCRIPT_SHOWN ? `${command.substring(0, MAX_SCRIPT_SHOWN)}…` : command;
+    threats.push(supplyChainThreat(file, "npm-lifecycle-script", "warning",
+      `"${name}" script runs on npm install: ${shown}`, keyLine(lines, name, scriptsLine - 1)));
+  }
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const deps = pkg[field];
+    if (!deps || typeof deps !== "object") continue;
+    const fieldLine = keyLine(lines, field) ?? 1;
+    for (const [name, value] of Object.entries(deps as Record<string, unknown>)) {
+      if (typeof value !== "string") continue;
+      const line = keyLine(lines, name, fieldLine - 1);
+      const alias = ALIAS_SPEC.exec(value.trim());
+      const target = alias ? alias[1] : name;
+      const spec = alias ? alias[2] ?? "" : value.trim();
+
+      if (GIT_SPEC.test(spec)) {
+        threats.push(supplyChainThreat(file, "npm-git-dependency", "warning",
+          `${field}.${name} installs from a git repository (${spec}) — no registry integrity check, content can change under the same ref`, line));
+      } else if (URL_SPEC.test(spec)) {
+        const insecure = /^http:/i.test(spec) ? " over plain HTTP" : "";
+        threats.push(supplyChainThreat(file, "npm-url-dependency", "warning",
+          `${field}.${name} installs a tarball from ${spec}${insecure} — bypasses the npm registry`, line));
+      } else if (!LOCAL_SPEC.test(spec) && isUnpinned(spec)) {
+        threats.push(supplyChainThreat(file, "npm-unpinned-dependency", "warning",
+          `${field}.${name} accepts any future version ("${spec || "*"}") — a compromised release would be installed`, line));
+      }
+
+      const imitated = typosquatTarget(target, POPULAR_NPM_PACKAGES);
+      if (imitated) {
+        const via = alias ? ` (aliased as "${name}")` : "";
+        threats.push(supplyChainThreat(file, "npm-typosquat", "warning",
+          `Dependency "${target}"${via} is one typo away from the popular package "${imitated}" — likely typosquat`, line));
+      }
+    }
+  }
+  return threats;
+}
+
+// ─── Lockfiles ───────────────────────────────────────────────────────────────
+
+interface LockedPackage {
+  name: string;
+  resolved: string;
+  integrity?: string;
+}
+
+/** Packages of an npm lockfile, v1 ("dependencies" tree) or v2/v3 ("packages" map). */
+function lockedPackages(lock: Record<string, unknown>): LockedPackage[] {
+  const found: LockedPackage[] = [];
+  const add = (name: string, entry: unknown): void => {
+    if (!entry || typeof entry !== "object") return;
+    const { resolved, integrity, link } = entry as Record<string, unknown>;
+    // Workspace links resolve to a directory in the same tree
+    if (typeof resolved === "string" && link !== true) {
+      found.push({ name, resolved, integrity: typeof integrity === "string" ? integrity : undefined });
+    }
+  };
+  if (lock.packages && typeof lock.packages === "object") {
+    for (const [key, entry] of Object.entries(lock.packages as Record<string, unknown>)) {
+      if (key) add(key.replace(/^.*node_modules\//, ""), entry);
+    }
+    return found;
+  }
+  const walk = (deps: unknown): void => {
+    if (!deps || typeof deps !== "object") return;
+    for (const [name, entry] of Object.entries(deps as Record<string, unknown>)) {
+      add(name, entry);
+      walk((entry as Record<string, unknown> | null)?.dependencies);
+    }
+  };
+  walk(lock.dependencies);
+  return found;
+}
+
+/** Why a resolved location is outside the public registry, or null when it is not. */
+function untrustedSource(resolved: string): string | null {
+  if (GIT_SPEC.test(resolved) || /\.git(?:#|$)/.test(resolved)) return "git";
+  let url: URL;
+  try {
+    url = new URL(resolved);
+  } catch {
+    return null;  // relative "file:" paths and workspace links
+  }
+  if (url.protocol === "http:") return `http://${url.host}`;
+  if (url.protocol === "https:" && !TRUSTED_REGISTRIES.has(url.hostname)) return url.hostname;
+  return null;
+}
+
+/**
+ * One finding per problem, listing the affected packages. `checkIntegrity` is
+ * off for text lockfiles, which do not always keep the hash next to the URL.
+ */
+function lockfileThreats(file: string, lines: string[], packages: LockedPackage[], checkIntegrity: boolean): Threat[] {
+  const threats: Threat[] = [];
+  const untrusted = packages.flatMap((p) => {
+    const source = untrustedSource(p.resolved);
+    return source ? [{ ...p, source }] : [];
+  });
+  if (untrusted.length > 0) {
+    const first = lines.findIndex((l) => l.includes(untrusted[0].resolved));
+    threats.push(supplyChainThreat(file, "lockfile-untrusted-source", "warning",
+      `${untrusted.length} locked package(s) resolve outside the npm registry: ${listNames(untrusted.map((p) => `${p.name} (${p.source})`))}`,
+      first >= 0 ? first + 1 : undefined));
+  }
+  const unverified = checkIntegrity ? packages.filter((p) => !p.integrity && /^https?:/i.test(p.resolved)).map((p) => p.name) : [];
+  if (unverified.length > 0) {
+    threats.push(supplyChainThreat(file, "lockfile-missing-integrity", "warning",
+      `${unverified.length} locked package(s) have no integrity hash, so tampered tarballs would install: ${listNames(unverified)}`));
+  }
+  return threats;
+}
+
+function analyzeJsonLockfile(file: string, content: string): Threat[] {
+  let lock: unknown;
+  try {
+    lock = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!lock || typeof lock !== "object") return [];
+  return lockfileThreats(file, content.split("\n"), lockedPackages(lock as Record<string, unknown>), true);
+}
+
+// yarn v1 `resolved "…"` and pnpm `resolution: {tarball: …}` lines
+const LOCKED_URL = /\b(?:resolved|tarball):?\s+"?([^"\s,}]+)/;
+
+function analyzeTextLockfile(file: string, content: string): Threat[] {
+  const lines = content.split("\n");
+  const packages: LockedPackage[] = [];
+  for (const line of lines) {
+    const match = LOCKED_URL.exec(line);
+    if (!match) continue;
+    const resolved = match[1];
+    packages.push({ name: resolved.replace(/[#?].*$/, "").split("/").pop() || resolved, resolved });
+  }
+  return lockfileThreats(file, lines, packages, false);
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+/**
+ * Supply-chain findings for an npm manifest or lockfile: lifecycle scripts,
+ * git and tarball dependencies, unbounded version ranges, likely typosquats
+ * of popular packages, and locked packages resolved outside the registry or
+ * without an integrity hash. Empty for any other file.
+ */
+export function analyzeNpmManifest(file: string, content: string): Threat[] {
+  const name = fileName(file);
+  if (name === PACKAGE_JSON) return analyzePackageJson(file, content);
+  if (JSON_LOCKFILES.has(name)) return analyzeJsonLockfile(file, content);
+  if (TEXT_LOCKFILES.has(name)) return analyzeTextLockfile(file, content);
+  return [];
+}
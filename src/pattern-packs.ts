@@ -0,0 +1,229 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join, extname } from "node:path";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { ThreatPattern } from "./patterns.js";
+import { LANGUAGES, isDocumentLanguage, type Language } from "./languages.js";
+import { resolvePaths, type SkillScope } from "./scope-resolver.js";
+import {
+  PATTERN_PACK_EXTENSIONS,
+  PATTERN_PACK_MAX_BYTES,
+  PATTERN_PACK_CACHE_TTL_MS,
+} from "./constants.js";
+import { sanitizeText } from "./sanitize.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PatternDefinition {
+  id: string;
+  regex: string;
+  flags?: string;
+  severity: "warning" | "critical";
+  category: string;
+  description: string;
+  files?: string[];
+  languages?: Language[];
+  multiline?: boolean;
+}
+
+export interface LoadedPatternPack {
+  name: string;
+  description?: string;
+  scope: SkillScope;
+  source: string;
+  definitions: PatternDefinition[];
+  patterns: ThreatPattern[];
+}
+
+export interface PatternPackState {
+  packs: LoadedPatternPack[];
+  errors: string[];
+  /** Hash of every loaded definition — changes whenever the active rules do. */
+  signature: string;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const patternSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/),
+  regex: z.string().min(1).max(500),
+  flags: z.string().regex(/^[imsu]*$/).optional(),
+  severity: z.enum(["warning", "critical"]),
+  category: z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/),
+  description: z.string().min(1).max(200),
+  files: z.array(z.string().min(1).max(200)).max(20).optional(),
+  languages: z.array(z.enum(LANGUAGES as [Language, ...Language[]])).min(1).optional(),
+  multiline: z.boolean().optional(),
+});
+
+const packSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/),
+  description: z.string().max(500).optional(),
+  patterns: z.array(patternSchema).min(1).max(500),
+});
+
+// ─── Glob Matching ───────────────────────────────────────────────────────────
+
+/**
+ * Compile a file glob to a RegExp over "/"-separated relative paths.
+ * Supports `**`, `*` and `?`. Globs without a "/" match the basename
+ * anywhere in the tree, like .gitignore entries.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let src = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      src += ".*";
+      i++;
+      if (glob[i + 1] === "/") i++;
+    } else if (c === "*") {
+      src += "[^/]*";
+    } else if (c === "?") {
+      src += "[^/]";
+    } else {
+      src += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return glob.includes("/") ? new RegExp(`^${src}$`) : new RegExp(`(?:^|/)${src}$`);
+}
+
+/**
+ * True if the pattern applies to the given file. Unscoped patterns apply
+ * everywhere; language-scoped ones apply to that language and to documents.
+ */
+export function patternAppliesTo(pattern: ThreatPattern, file: string | undefined, language?: Language): boolean {
+  if (pattern.languages && language && !isDocumentLanguage(language) && !pattern.languages.includes(language)) {
+    return false;
+  }
+  if (!pattern.files || pattern.files.length === 0) return true;
+  if (!file) return false;
+  return pattern.files.some((re) => re.test(file));
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+function compilePack(raw: unknown, scope: SkillScope, source: string): LoadedPatternPack {
+  const pack = packSchema.parse(raw);
+  const seen = new Set<string>();
+  const patterns: ThreatPattern[] = pack.patterns.map((def) => {
+    if (seen.has(def.id)) {
+      throw new Error(`duplicate pattern id "${def.id}"`);
+    }
+    seen.add(def.id);
+    let regex: RegExp;
+    try {
+      regex = new RegExp(def.regex, def.flags ?? "");
+    } catch (err) {
+      throw new Error(`pattern "${def.id}": invalid regex — ${err instanceof Error ? err.message : "unknown"}`);
+    }
+    return {
+      id: `${pack.name}/${def.id}`,
+      regex,
+      severity: def.severity,
+      description: sanitizeText(def.description),
+      category: def.category,
+      multiline: def.multiline,
+      files: def.files?.map(globToRegExp),
+      languages: def.languages,
+    };
+  });
+  return {
+    name: pack.name,
+    description: pack.description,
+    scope,
+    source,
+    definitions: pack.patterns,
+    patterns,
+  };
+}
+
+async function loadPacksFromDir(dir: string, scope: SkillScope, errors: string[]): Promise<LoadedPatternPack[]> {
+  let names: string[];
+  try {
+    names = (await readdir(dir)).sort();
+  } catch {
+    return []; // No pack directory for this scope
+  }
+
+  const packs: LoadedPatternPack[] = [];
+  for (const name of names) {
+    const ext = extname(name).toLowerCase();
+    if (!PATTERN_PACK_EXTENSIONS.has(ext)) continue;
+    const source = join(dir, name);
+    try {
+      const info = await stat(source);
+      if (!info.isFile()) continue;
+      if (info.size > PATTERN_PACK_MAX_BYTES) {
+        errors.push(`${source}: larger than ${PATTERN_PACK_MAX_BYTES / 1024}KB, skipped`);
+        continue;
+      }
+      const text = await readFile(source, "utf-8");
+      const raw = ext === ".json" ? JSON.parse(text) : parseYaml(text);
+      packs.push(compilePack(raw, scope, source));
+    } catch (err) {
+      const detail = err instanceof z.ZodError
+        ? err.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ")
+        : err instanceof Error ? err.message : "unknown";
+      errors.push(`${source}: ${detail}`);
+    }
+  }
+  return packs;
+}
+
+function packSignature(packs: LoadedPatternPack[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify(packs.map((p) => [p.name, p.definitions])))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+/**
+ * Load every pack in the given directories, in order. Invalid packs are
+ * skipped and reported in `errors`; they never abort the load.
+ */
+export async function loadPatternPacksFrom(
+  dirs: Array<{ dir: string; scope: SkillScope }>,
+): Promise<PatternPackState> {
+  const errors: string[] = [];
+  const packs: LoadedPatternPack[] = [];
+  const seen = new Set<string>();
+  for (const { dir, scope } of dirs) {
+    if (seen.has(dir)) continue;
+    seen.add(dir);
+    for (const pack of await loadPacksFromDir(dir, scope, errors)) {
+      const clash = packs.find((p) => p.name === pack.name);
+      if (clash) {
+        errors.push(`${pack.source}: pack name "${pack.name}" already loaded from ${clash.source}, skipped`);
+        continue;
+      }
+      packs.push(pack);
+    }
+  }
+  return { packs, errors, signature: packSignature(packs) };
+}
+
+let cachedState: PatternPackState | null = null;
+let cachedAt = 0;
+
+/**
+ * Load custom threat pattern packs from the global (~/.claude/skillsync-patterns/)
+ * and project (<cwd>/.claude/skillsync-patterns/) directories. Cached briefly so
+ * batch scans do not re-read the packs for every skill.
+ */
+export async function loadPatternPacks(options?: { refresh?: boolean }): Promise<PatternPackState> {
+  if (!options?.refresh && cachedState && Date.now() - cachedAt <= PATTERN_PACK_CACHE_TTL_MS) {
+    return cachedState;
+  }
+  cachedState = await loadPatternPacksFrom(
+    (["global", "project"] as const).map((scope) => ({ dir: resolvePaths(scope).patternPacksDir, scope })),
+  );
+  cachedAt = Date.now();
+  return cachedState;
+}
+
+/** All patterns from every loaded pack, flattened. */
+export function customPatterns(state: PatternPackState): ThreatPattern[] {
+  return state.packs.flatMap((p) => p.patterns);
+}
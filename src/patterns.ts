@@ -1,12 +1,18 @@
 // ─── Threat Pattern Definitions ──────────────────────────────────────────────
 // Split from security-scanner.ts for maintainability and testability.
 
+import type { Language } from "./languages.js";
+import { MIXED_SCRIPT_TOKEN } from "./confusables.js";
+
 export interface ThreatPattern {
   regex: RegExp;
   severity: "warning" | "critical";
   description: string;
   category: string;
   multiline?: boolean;
+  id?: string;         // stable identifier; custom packs use "<pack>/<id>"
+  files?: RegExp[];    // only applied to files whose path matches one of these
+  languages?: Language[];  // source languages it targets; documents get every pattern
 }
 
 // ─── Critical Patterns (BLOCK installation) ─────────────────────────────────
@@ -22,9 +28,8 @@ export const CRITICAL_PATTERNS: ThreatPattern[] = [
   { regex: /\u202A|\u202B|\u202C|\u202D|\u202E|\u2066|\u2067|\u2068|\u2069/, severity: "critical", description: "Prompt injection: bidirectional text override characters", category: "prompt-injection" },
 
   // ── UNICODE HOMOGLYPH ATTACKS ──
-  { regex: /[\u0430\u0435\u043E\u0440\u0441\u0445\u0456\u0458\u0455\u04BB].*[a-zA-Z]|[a-zA-Z].*[\u0430\u0435\u043E\u0440\u0441\u0445\u0456\u0458\u0455\u04BB]/, severity: "critical", description: "Prompt injection: Cyrillic homoglyph characters mixed with ASCII (visual spoofing)", category: "prompt-injection" },
-  { regex: /[\u03B1\u03B5\u03BF\u03C1\u03BA\u03BD\u03C4\u0391\u0392\u0395\u0396\u0397\u039A\u039C\u039D\u039F\u03A1\u03A4].*[a-zA-Z]|[a-zA-Z].*[\u03B1\u03B5\u03BF\u03C1\u03BA\u03BD\u03C4\u0391\u0392\u0395\u0396\u0397\u039A\u039C\u039D\u039F\u03A1\u03A4]/, severity: "critical", description: "Prompt injection: Greek homoglyph characters mixed with ASCII (visual spoofing)", category: "prompt-injection" },
-  { regex: /[\u0250-\u02AF\u1D00-\u1D7F\u2100-\u214F\uFF01-\uFF5E]/, severity: "critical", description: "Prompt injection: Unicode confusable characters from IPA/letterlike/fullwidth ranges", category: "prompt-injection" },
+  // Look-alike spellings of the other patterns are caught by matching a normalized copy of each line
+  { regex: MIXED_SCRIPT_TOKEN, severity: "critical", description: "Prompt injection: word mixes ASCII with look-alike Cyrillic, Greek or fullwidth letters (visual spoofing)", category: "prompt-injection" },
 
   // ── DESTRUCTIVE SHELL ──
   { regex: /rm\s+-[a-z]*r[a-z]*f[a-z]*\s+\//, severity: "critical", description: "Destructive removal of root filesystem", category: "destructive" },
@@ -93,76 +98,135 @@ export const WARNING_PATTERNS: ThreatPattern[] = [
   { regex: /do\s+not\s+(?:mention|tell|reveal|show)\s+(?:this|the\s+user)/i, severity: "warning", description: "Possible prompt injection: secrecy instruction", category: "prompt-injection" },
 
   // ── OBFUSCATION & ENCODING ──
-  { regex: /Buffer\.from\([^)]*,\s*['"]base64['"]\)/, severity: "warning", description: "Base64 decoding — potential obfuscation", category: "obfuscation" },
-  { regex: /Buffer\.from\([^)]*,\s*['"]hex['"]\)/, severity: "warning", description: "Hex decoding — potential obfuscation", category: "obfuscation" },
-  { regex: /atob\s*\(/, severity: "warning", description: "Base64 decoding via atob()", category: "obfuscation" },
+  { regex: /Buffer\.from\([^)]*,\s*['"]base64['"]\)/, severity: "warning", description: "Base64 decoding — potential obfuscation", category: "obfuscation", languages: ["javascript"] },
+  { regex: /Buffer\.from\([^)]*,\s*['"]hex['"]\)/, severity: "warning", description: "Hex decoding — potential obfuscation", category: "obfuscation", languages: ["javascript"] },
+  { regex: /atob\s*\(/, severity: "warning", description: "Base64 decoding via atob()", category: "obfuscation", languages: ["javascript"] },
   { regex: /\\x[0-9a-f]{2}\\x[0-9a-f]{2}\\x[0-9a-f]{2}/i, severity: "warning", description: "Hex escape sequences — potential obfuscation", category: "obfuscation" },
   { regex: /base64\s+-d\s*\|/, severity: "warning", description: "Shell base64 decode piped to execution", category: "obfuscation" },
   { regex: /base64\s+--decode\s*\|/, severity: "warning", description: "Shell base64 decode piped to execution", category: "obfuscation" },
-  { regex: /String\.fromCharCode\s*\(/, severity: "warning", description: "Dynamic string construction from char codes", category: "obfuscation" },
+  { regex: /String\.fromCharCode\s*\(/, severity: "warning", description: "Dynamic string construction from char codes", category: "obfuscation", languages: ["javascript"] },
 
   // ── DYNAMIC CODE EXECUTION ──
-  { regex: new RegExp("ev" + "al\\s*\\("), severity: "warning", description: "Dynamic code evaluation via eval()", category: "code-execution" },
-  { regex: /new\s+Function\s*\(/, severity: "warning", description: "Dynamic function construction", category: "code-execution" },
-  { regex: /import\s*\(\s*[^'"]\s*[^)]*\)/, severity: "warning", description: "Dynamic import() with computed module path", category: "code-execution" },
-  { regex: /require\s*\(\s*[^'"][^)]*\)/, severity: "warning", description: "Dynamic require() with computed module path", category: "code-execution" },
-  { regex: /process\.binding\s*\(/, severity: "warning", description: "Low-level process.binding() — bypasses module safety", category: "code-execution" },
-  { regex: /vm\.(?:runInNewContext|runInThisContext|createScript)\s*\(/, severity: "warning", description: "VM module code execution", category: "code-execution" },
+  { regex: new RegExp("ev" + "al\\s*\\("), severity: "warning", description: "Dynamic code evaluation via eval()", category: "code-execution", languages: ["javascript", "python"] },
+  { regex: /new\s+Function\s*\(/, severity: "warning", description: "Dynamic function construction", category: "code-execution", languages: ["javascript"] },
+  { regex: /import\s*\(\s*[^'"]\s*[^)]*\)/, severity: "warning", description: "Dynamic import() with computed module path", category: "code-execution", languages: ["javascript"] },
+  { regex: /require\s*\(\s*[^'"][^)]*\)/, severity: "warning", description: "Dynamic require() with computed module path", category: "code-execution", languages: ["javascript"] },
+  { regex: /process\.binding\s*\(/, severity: "warning", description: "Low-level process.binding() — bypasses module safety", category: "code-execution", languages: ["javascript"] },
+  { regex: /vm\.(?:runInNewContext|runInThisContext|createScript)\s*\(/, severity: "warning", description: "VM module code execution", category: "code-execution", languages: ["javascript"] },
 
   // ── CHILD PROCESSES & SHELL ──
-  { regex: /child_process/, severity: "warning", description: "Importing child_process module", category: "shell-execution" },
-  { regex: /execSync|spawnSync/, severity: "warning", description: "Synchronous shell command execution", category: "shell-execution" },
-  { regex: /exec\s*\(\s*['"`]/, severity: "warning", description: "Executing shell commands", category: "shell-execution" },
+  { regex: /child_process/, severity: "warning", description: "Importing child_process module", category: "shell-execution", languages: ["javascript"] },
+  { regex: /execSync|spawnSync/, severity: "warning", description: "Synchronous shell command execution", category: "shell-execution", languages: ["javascript"] },
+  { regex: /exec\s*\(\s*['"`]/, severity: "warning", description: "Executing shell commands", category: "shell-execution", languages: ["javascript", "python"] },
 
   // ── NETWORK ──
-  { regex: /fetch\s*\(\s*['"`]https?:\/\/(?!(?:api\.github\.com|registry\.npmjs\.org|pypi\.org))/i, severity: "warning", description: "Network request to external domain", category: "network" },
-  { regex: /axios\.\w+\s*\(\s*['"`]https?:\/\//i, severity: "warning", description: "HTTP request via axios", category: "network" },
-  { regex: /net\.connect|dgram\.createSocket/, severity: "warning", description: "Raw network socket creation", category: "network" },
-  { regex: /WebSocket\s*\(\s*['"`]wss?:\/\//i, severity: "warning", description: "WebSocket connection — potential backdoor channel", category: "network" },
-  { regex: /new\s+WebSocket\s*\(/, severity: "warning", description: "WebSocket instantiation", category: "network" },
-  { regex: /http\.createServer|https\.createServer|app\.listen\s*\(/, severity: "warning", description: "Starting a network server/listener", category: "network" },
-  { regex: /\.listen\s*\(\s*\d{2,5}\s*\)/, severity: "warning", description: "Listening on a network port", category: "network" },
+  { regex: /fetch\s*\(\s*['"`]https?:\/\/(?!(?:api\.github\.com|registry\.npmjs\.org|pypi\.org))/i, severity: "warning", description: "Network request to external domain", category: "network", languages: ["javascript"] },
+  { regex: /axios\.\w+\s*\(\s*['"`]https?:\/\//i, severity: "warning", description: "HTTP request via axios", category: "network", languages: ["javascript"] },
+  { regex: /net\.connect|dgram\.createSocket/, severity: "warning", description: "Raw network socket creation", category: "network", languages: ["javascript"] },
+  { regex: /WebSocket\s*\(\s*['"`]wss?:\/\//i, severity: "warning", description: "WebSocket connection — potential backdoor channel", category: "network", languages: ["javascript"] },
+  { regex: /new\s+WebSocket\s*\(/, severity: "warning", description: "WebSocket instantiation", category: "network", languages: ["javascript"] },
+  { regex: /http\.createServer|https\.createServer|app\.listen\s*\(/, severity: "warning", description: "Starting a network server/listener", category: "network", languages: ["javascript"] },
+  { regex: /\.listen\s*\(\s*\d{2,5}\s*\)/, severity: "warning", description: "Listening on a network port", category: "network", languages: ["javascript"] },
 
   // ── DNS EXFILTRATION ──
   { regex: /dig\s+.*\$[\({]/, severity: "warning", description: "DNS exfiltration: variable interpolation in dig", category: "exfiltration" },
   { regex: /nslookup\s+.*\$[\({]/, severity: "warning", description: "DNS exfiltration: variable interpolation in nslookup", category: "exfiltration" },
-  { regex: /dns\.resolve|dns\.lookup.*\$/, severity: "warning", description: "DNS resolution with dynamic input", category: "exfiltration" },
+  { regex: /dns\.resolve|dns\.lookup.*\$/, severity: "warning", description: "DNS resolution with dynamic input", category: "exfiltration", languages: ["javascript"] },
 
   // ── CRYPTO WALLET EXFILTRATION ──
   { regex: /['"`][13][a-km-zA-HJ-NP-Z1-9]{25,34}['"`]/, severity: "warning", description: "Hardcoded Bitcoin address — potential crypto exfiltration", category: "credential-theft" },
   { regex: /['"`]0x[0-9a-fA-F]{40}['"`]/, severity: "warning", description: "Hardcoded Ethereum address — potential crypto exfiltration", category: "credential-theft" },
-  { regex: /(?:fetch|axios\.\w+|XMLHttpRequest)\s*\([^)]*(?:[13][a-km-zA-HJ-NP-Z1-9]{25,34}|0x[0-9a-fA-F]{40})/, severity: "warning", description: "Crypto wallet address sent via network request — exfiltration attempt", category: "credential-theft" },
+  { regex: /(?:fetch|axios\.\w+|XMLHttpRequest)\s*\([^)]*(?:[13][a-km-zA-HJ-NP-Z1-9]{25,34}|0x[0-9a-fA-F]{40})/, severity: "warning", description: "Crypto wallet address sent via network request — exfiltration attempt", category: "credential-theft", languages: ["javascript"] },
 
   // ── CRYPTOCURRENCY MINING ──
   { regex: /stratum\+tcp:\/\/|stratum:\/\//, severity: "warning", description: "Cryptocurrency mining pool connection", category: "crypto-mining" },
   { regex: /xmrig|cryptonight|minerd|coinhive|cpuminer/i, severity: "warning", description: "Cryptocurrency mining software detected", category: "crypto-mining" },
 
   // ── FILE SYSTEM ──
-  { regex: /writeFile.*(?:\/tmp|\/var|~\/)/, severity: "warning", description: "File write outside project directory", category: "filesystem" },
-  { regex: /fs\.(?:write|append|create).*(?:\/tmp|\/var|~\/)/, severity: "warning", description: "File system write outside project", category: "filesystem" },
+  { regex: /writeFile.*(?:\/tmp|\/var|~\/)/, severity: "warning", description: "File write outside project directory", category: "filesystem", languages: ["javascript"] },
+  { regex: /fs\.(?:write|append|create).*(?:\/tmp|\/var|~\/)/, severity: "warning", description: "File system write outside project", category: "filesystem", languages: ["javascript"] },
   { regex: /fs\.symlink|fs\.symlinkSync|ln\s+-s/, severity: "warning", description: "Symlink creation — potential symlink attack", category: "filesystem" },
 
   // ── PROTOTYPE POLLUTION ──
-  { regex: /__proto__/, severity: "warning", description: "Prototype chain access — potential pollution", category: "prototype-pollution" },
-  { regex: /constructor\s*\[\s*['"]prototype['"]\s*\]/, severity: "warning", description: "Prototype access via constructor", category: "prototype-pollution" },
-  { regex: /Object\.assign\s*\(\s*\{\s*\}\s*,\s*JSON\.parse/, severity: "warning", description: "Object.assign from parsed JSON — pollution risk", category: "prototype-pollution" },
+  { regex: /__proto__/, severity: "warning", description: "Prototype chain access — potential pollution", category: "prototype-pollution", languages: ["javascript"] },
+  { regex: /constructor\s*\[\s*['"]prototype['"]\s*\]/, severity: "warning", description: "Prototype access via constructor", category: "prototype-pollution", languages: ["javascript"] },
+  { regex: /Object\.assign\s*\(\s*\{\s*\}\s*,\s*JSON\.parse/, severity: "warning", description: "Object.assign from parsed JSON — pollution risk", category: "prototype-pollution", languages: ["javascript"] },
 
   // ── TIME BOMBS ──
-  { regex: /setTimeout\s*\(.*,\s*\d{5,}\s*\)/, severity: "warning", description: "Long delayed execution (>10s) — potential time bomb", category: "time-bomb" },
-  { regex: /setInterval\s*\(.*,\s*\d{4,}\s*\)/, severity: "warning", description: "Periodic execution — potential persistent backdoor", category: "time-bomb" },
+  { regex: /setTimeout\s*\(.*,\s*\d{5,}\s*\)/, severity: "warning", description: "Long delayed execution (>10s) — potential time bomb", category: "time-bomb", languages: ["javascript"] },
+  { regex: /setInterval\s*\(.*,\s*\d{4,}\s*\)/, severity: "warning", description: "Periodic execution — potential persistent backdoor", category: "time-bomb", languages: ["javascript"] },
 
   // ── SELF-MODIFYING / ENVIRONMENT ──
-  { regex: /process\.env\.\w+\s*=/, severity: "warning", description: "Modifying process environment variables", category: "environment" },
-  { regex: /Object\.defineProperty\s*\(\s*(?:globalThis|global|window)/, severity: "warning", description: "Modifying global object properties", category: "environment" },
-  { regex: /process\.exit\s*\(/, severity: "warning", description: "Forcing process termination", category: "environment" },
+  { regex: /process\.env\.\w+\s*=/, severity: "warning", description: "Modifying process environment variables", category: "environment", languages: ["javascript"] },
+  { regex: /Object\.defineProperty\s*\(\s*(?:globalThis|global|window)/, severity: "warning", description: "Modifying global object properties", category: "environment", languages: ["javascript"] },
+  { regex: /process\.exit\s*\(/, severity: "warning", description: "Forcing process termination", category: "environment", languages: ["javascript"] },
 
   // ── CLIPBOARD / INPUT CAPTURE ──
-  { regex: /navigator\.clipboard|clipboard\.(?:readText|writeText)/i, severity: "warning", description: "Clipboard access — potential data theft", category: "input-capture" },
+  { regex: /navigator\.clipboard|clipboard\.(?:readText|writeText)/i, severity: "warning", description: "Clipboard access — potential data theft", category: "input-capture", languages: ["javascript"] },
   { regex: /pbcopy|xclip|xsel|wl-copy/i, severity: "warning", description: "System clipboard command — potential data theft", category: "input-capture" },
-  { regex: /addEventListener\s*\(\s*['"]key(?:down|up|press)['"]/i, severity: "warning", description: "Keyboard event listener — potential keylogger", category: "input-capture" },
+  { regex: /addEventListener\s*\(\s*['"]key(?:down|up|press)['"]/i, severity: "warning", description: "Keyboard event listener — potential keylogger", category: "input-capture", languages: ["javascript"] },
 
   // ── DOTFILE POISONING ──
   { regex: />\s*~\/\.bashrc|>\s*~\/\.zshrc|>\s*~\/\.profile|>\s*~\/\.bash_profile/, severity: "warning", description: "Writing to shell RC files — persistent backdoor", category: "dotfile-poisoning" },
   { regex: />\s*~\/\.npmrc|>\s*~\/\.yarnrc/, severity: "warning", description: "Writing to package manager config — supply chain risk", category: "dotfile-poisoning" },
   { regex: />\s*~\/\.gitconfig/, severity: "warning", description: "Writing to git config — credential interception risk", category: "dotfile-poisoning" },
 ];
+
+// ─── Language-Specific Patterns (routed by file type) ───────────────────────
+// Applied to files of the listed language and to documents (Markdown, text),
+// which embed snippets in any language.
+
+export const PYTHON_PATTERNS: ThreatPattern[] = [
+  // ── CRITICAL ──
+  { regex: /\b(?:exec|eval)\s*\(\s*(?:base64\.b64decode|codecs\.decode|bytes\.fromhex|zlib\.decompress|marshal\.loads)\s*\(/, severity: "critical", description: "Executing a decoded Python payload", category: "obfuscation", languages: ["python"] },
+  { regex: /\bpty\.spawn\s*\(/, severity: "critical", description: "Interactive shell via pty.spawn() — reverse shell", category: "reverse-shell", languages: ["python"] },
+  { regex: /\bos\.dup2\s*\(\s*\w+\.fileno\s*\(\s*\)/, severity: "critical", description: "Socket redirected onto stdio via os.dup2() — reverse shell", category: "reverse-shell", languages: ["python"] },
+
+  // ── SHELL EXECUTION ──
+  { regex: /\bsubprocess\.(?:Popen|run|call|check_call|check_output)\s*\([^)]*shell\s*=\s*True/, severity: "warning", description: "subprocess call with shell=True — command injection risk", category: "shell-execution", languages: ["python"] },
+  { regex: /\bos\.(?:system|popen|exec[lv]p?e?|spawn[lv]p?e?)\s*\(/, severity: "warning", description: "Shell command execution via the os module", category: "shell-execution", languages: ["python"] },
+  { regex: /\bsubprocess\.(?:getoutput|getstatusoutput)\s*\(/, severity: "warning", description: "Shell command execution via subprocess.getoutput()", category: "shell-execution", languages: ["python"] },
+
+  // ── CODE EXECUTION ──
+  { regex: /\bexec\s*\(\s*compile\s*\(/, severity: "warning", description: "Compiling and executing code at runtime", category: "code-execution", languages: ["python"] },
+  { regex: /\b(?:c?[Pp]ickle|dill|joblib)\.loads?\s*\(/, severity: "warning", description: "Unpickling data — executes arbitrary code on untrusted input", category: "code-execution", languages: ["python"] },
+  { regex: /\bmarshal\.loads\s*\(/, severity: "warning", description: "Loading marshalled bytecode", category: "code-execution", languages: ["python"] },
+  { regex: /\byaml\.(?:load|unsafe_load)\s*\((?![^)]*Loader\s*=\s*(?:yaml\.)?(?:Safe|Base)Loader)/, severity: "warning", description: "yaml.load() without SafeLoader — arbitrary object construction", category: "code-execution", languages: ["python"] },
+  { regex: /__import__\s*\(\s*['"](?:os|subprocess|socket|pty|ctypes)['"]/, severity: "warning", description: "Dynamic import of a dangerous module via __import__()", category: "code-execution", languages: ["python"] },
+  { regex: /\bctypes\.(?:CDLL|cdll|windll|WinDLL)\b/, severity: "warning", description: "Loading a native library via ctypes", category: "code-execution", languages: ["python"] },
+
+  // ── NETWORK ──
+  { regex: /\b(?:requests|httpx)\.(?:get|post|put|patch|delete|request)\s*\(|\burlopen\s*\(/, severity: "warning", description: "HTTP request from Python", category: "network", languages: ["python"] },
+  { regex: /\bsocket\.socket\s*\(/, severity: "warning", description: "Raw socket creation", category: "network", languages: ["python"] },
+];
+
+export const SHELL_PATTERNS: ThreatPattern[] = [
+  // ── CRITICAL ──
+  { regex: /(?:\b(?:source|bash|sh|zsh)|^\s*\.)\s+<\(\s*(?:curl|wget)\b/, severity: "critical", description: "Remote code execution via process substitution of a download", category: "rce", languages: ["shell"] },
+
+  // ── WARNINGS ──
+  { regex: /\beval\s+["'`$]/, severity: "warning", description: "Shell eval of a dynamic string", category: "code-execution", languages: ["shell"] },
+  { regex: /\bchmod\s+\+x\s+\S+\s*&&\s*\.?\//, severity: "warning", description: "Making a file executable and running it", category: "shell-execution", languages: ["shell"] },
+  { regex: /\bcrontab\s+-|\/etc\/cron\.|\/var\/spool\/cron/, severity: "warning", description: "Installing a cron job — persistence", category: "persistence", languages: ["shell"] },
+  { regex: /\bnohup\b[^#]*&\s*(?:disown\b|$)/, severity: "warning", description: "Detached background process", category: "persistence", languages: ["shell"] },
+  { regex: /\bexport\s+(?:LD_PRELOAD|LD_LIBRARY_PATH|DYLD_INSERT_LIBRARIES)=/, severity: "warning", description: "Overriding the dynamic loader — library injection", category: "environment", languages: ["shell"] },
+  { regex: /\bhistory\s+-c\b|\bunset\s+HISTFILE\b|HISTFILE=\/dev\/null|\bset\s+\+o\s+history\b/, severity: "warning", description: "Disabling or clearing shell history — anti-forensics", category: "environment", languages: ["shell"] },
+];
+
+export const POWERSHELL_PATTERNS: ThreatPattern[] = [
+  // ── CRITICAL ──
+  { regex: /(?:Invoke-WebRequest|\biwr\b|Invoke-RestMethod|\birm\b|DownloadString)[^|\n]*\|\s*(?:Invoke-Expression|iex)\b|\b(?:Invoke-Expression|iex)\s*\(?\s*\(?\s*New-Object\s+(?:System\.)?Net\.WebClient\s*\)?\.DownloadString/i, severity: "critical", description: "Remote code execution via download piped to Invoke-Expression", category: "rce", languages: ["powershell"] },
+  { regex: /\s-(?:e|ec|enc|encodedcommand)\s+[A-Za-z0-9+/]{20,}={0,2}/i, severity: "critical", description: "PowerShell -EncodedCommand — hidden base64 script", category: "obfuscation", languages: ["powershell"] },
+  { regex: /Set-MpPreference\s+[^\n]*-Disable\w+\s+\$?true|Add-MpPreference\s+[^\n]*-Exclusion/i, severity: "critical", description: "Disabling or excluding Windows Defender scanning", category: "privilege-escalation", languages: ["powershell"] },
+
+  // ── WARNINGS ──
+  { regex: /\b(?:Invoke-Expression|iex)\b(?!>)/i, severity: "warning", description: "Dynamic code evaluation via Invoke-Expression", category: "code-execution", languages: ["powershell"] },
+  { regex: /\[(?:System\.)?Convert\]::FromBase64String/i, severity: "warning", description: "Base64 decoding — potential obfuscation", category: "obfuscation", languages: ["powershell"] },
+  { regex: /-(?:ExecutionPolicy|ep)\s+(?:Bypass|Unrestricted)\b/i, severity: "warning", description: "Bypassing the PowerShell execution policy", category: "privilege-escalation", languages: ["powershell"] },
+  { regex: /-(?:w|WindowStyle)\s+Hidden\b/i, severity: "warning", description: "Hidden PowerShell window", category: "obfuscation", languages: ["powershell"] },
+  { regex: /Start-Process\b[^\n]*-Verb\s+RunAs\b/i, severity: "warning", description: "Elevating via Start-Process -Verb RunAs", category: "privilege-escalation", languages: ["powershell"] },
+  { regex: /\b(?:Invoke-WebRequest|Invoke-RestMethod|Start-BitsTransfer)\b|Net\.WebClient/i, severity: "warning", description: "HTTP request from PowerShell", category: "network", languages: ["powershell"] },
+  { regex: /CurrentVersion\\Run\b|Register-ScheduledTask|schtasks(?:\.exe)?\s+\/create/i, severity: "warning", description: "Autorun key or scheduled task — persistence", category: "persistence", languages: ["powershell"] },
+];
+
+export const LANGUAGE_PATTERNS: ThreatPattern[] = [...PYTHON_PATTERNS, ...SHELL_PATTERNS, ...POWERSHELL_PATTERNS];
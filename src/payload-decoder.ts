@@ -0,0 +1,99 @@
+import {
+  MIN_BASE64_PAYLOAD_LENGTH,
+  MIN_HEX_PAYLOAD_LENGTH,
+  MIN_URL_ENCODED_ESCAPES,
+  MAX_DECODED_PAYLOAD_BYTES,
+  MAX_DECODED_BYTES_PER_FILE,
+  MAX_PAYLOADS_PER_FILE,
+  MIN_DECODED_PRINTABLE_RATIO,
+} from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type PayloadEncoding = "base64" | "hex" | "url";
+
+export interface EncodedPayload {
+  encoding: PayloadEncoding;
+  offset: number;   // start of the encoded literal in the scanned text
+  length: number;   // length of the encoded literal
+  decoded: string;
+}
+
+/** Shared across one file's decode recursion so nesting cannot multiply the work. */
+export interface DecodeBudget {
+  bytes: number;
+  payloads: number;
+}
+
+export function newDecodeBudget(): DecodeBudget {
+  return { bytes: MAX_DECODED_BYTES_PER_FILE, payloads: MAX_PAYLOADS_PER_FILE };
+}
+
+// ─── Literal Extraction ──────────────────────────────────────────────────────
+
+// All three are linear-time (no nested quantifiers), so they are safe to run
+// over lines too long for the threat patterns.
+const BASE64_LITERAL = new RegExp(`[A-Za-z0-9+/_-]{${MIN_BASE64_PAYLOAD_LENGTH},}={0,2}`, "g");
+const HEX_LITERAL = new RegExp(`(?:\\\\x[0-9A-Fa-f]{2}){${MIN_HEX_PAYLOAD_LENGTH / 2},}|\\b(?:[0-9A-Fa-f]{2}){${MIN_HEX_PAYLOAD_LENGTH / 2},}\\b`, "g");
+const URL_LITERAL = /[^\s"'`<>()]*%[0-9A-Fa-f]{2}[^\s"'`<>()]*/g;
+
+/**
+ * Decoded text counts as a payload only if it is mostly printable — random
+ * identifiers, hashes and binary blobs decode to noise and are discarded.
+ */
+function isMostlyPrintable(text: string): boolean {
+  if (text.length === 0) return false;
+  let printable = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    if ((c >= 0x20 && c < 0x7f) || c === 0x09 || c === 0x0a || c === 0x0d) printable++;
+  }
+  return printable / text.length >= MIN_DECODED_PRINTABLE_RATIO;
+}
+
+function decodeBase64(literal: string): string | null {
+  const normalized = literal.replace(/-/g, "+").replace(/_/g, "/").replace(/=+$/, "");
+  if (normalized.length % 4 === 1) return null;
+  return Buffer.from(normalized, "base64").toString("latin1");
+}
+
+function decodeHex(literal: string): string {
+  return Buffer.from(literal.replace(/\\x/g, ""), "hex").toString("latin1");
+}
+
+function decodeUrl(literal: string): string | null {
+  if ((literal.match(/%[0-9A-Fa-f]{2}/g) ?? []).length < MIN_URL_ENCODED_ESCAPES) return null;
+  try {
+    return decodeURIComponent(literal.replace(/\+/g, " "));
+  } catch {
+    return null;
+  }
+}
+
+const DECODERS: Array<[PayloadEncoding, RegExp, (literal: string) => string | null]> = [
+  ["base64", BASE64_LITERAL, decodeBase64],
+  ["hex", HEX_LITERAL, decodeHex],
+  ["url", URL_LITERAL, decodeUrl],
+];
+
+/**
+ * Find base64, hex and URL-encoded literals above the size thresholds and
+ * decode them. Each decoded payload is capped at MAX_DECODED_PAYLOAD_BYTES and
+ * the budget bounds the total work per file.
+ */
+export function extractEncodedPayloads(content: string, budget: DecodeBudget): EncodedPayload[] {
+  const payloads: EncodedPayload[] = [];
+  for (const [encoding, pattern, decode] of DECODERS) {
+    for (const match of content.matchAll(pattern)) {
+      if (budget.payloads <= 0 || budget.bytes <= 0) return payloads;
+      const literal = match[0];
+      let decoded = decode(literal);
+      if (!decoded || !isMostlyPrintable(decoded) || decoded === literal) continue;
+      decoded = decoded.substring(0, Math.min(MAX_DECODED_PAYLOAD_BYTES, budget.bytes));
+      budget.bytes -= decoded.length;
+      budget.payloads--;
+      payloads.push({ encoding, offset: match.index ?? 0, length: literal.length, decoded });
+    }
+  }
+  return payloads;
+}
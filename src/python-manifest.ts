@@ -0,0 +1,251 @@
+import type { Threat } from "./security-scanner.js";
+import { sanitizeText } from "./sanitize.js";
+import { POPULAR_PYPI_PACKAGES, typosquatTarget } from "./typosquat.js";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const REQUIREMENTS_FILE = /^(?:[\w.-]*[-_.])?(?:requirements|constraints)(?:[-_.][\w.-]*)?\.(?:txt|in)$/i;
+const REQUIREMENTS_DIR = /(?:^|\/)requirements\/[^/]+\.(?:txt|in)$/i;
+
+const VCS_URL = /^(?:git|hg|svn|bzr)\+/i;
+const DIRECT_URL = /^(?:https?|ftp):\/\//i;
+const REQUIREMENT = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)\s*(?:\[[^\]]*\])?\s*(.*)$/;
+
+// pip options that change where packages come from
+const INDEX_OPTIONS = new Set(["--index-url", "--extra-index-url", "--find-links"]);
+
+// Long options pip accepts in requirements files. Its optparse parser also
+// takes any unambiguous prefix ("--extra-index=", "--find"), and short
+// options may carry their value attached ("-ihttps://…")
+const REQUIREMENTS_OPTIONS = [
+  "--index-url", "--extra-index-url", "--no-index", "--constraint", "--requirement", "--editable",
+  "--find-links", "--no-binary", "--only-binary", "--prefer-binary", "--require-hashes", "--pre",
+  "--trusted-host", "--use-feature", "--global-option", "--config-settings", "--hash",
+];
+const SHORT_OPTIONS: Record<string, string> = {
+  "-i": "--index-url", "-f": "--find-links", "-c": "--constraint", "-r": "--requirement", "-e": "--editable",
+};
+
+// pyproject.toml tables whose values are PEP 508 requirement arrays
+const PEP508_ARRAYS: Array<[RegExp, RegExp]> = [
+  [/^project$/, /^dependencies$/],
+  [/^project\.optional-dependencies$/, /./],
+  [/^dependency-groups$/, /./],
+  [/^build-system$/, /^requires$/],
+  [/^tool\.uv$/, /^(?:dev-dependencies|constraint-dependencies|override-dependencies)$/],
+];
+const POETRY_DEPENDENCIES = /^tool\.poetry\.(?:(?:dev-)?dependencies|group\.[^.]+\.dependencies)$/;
+const INDEX_TABLES = /^tool\.(?:poetry\.source|uv\.index|pdm\.source)$/;
+const UV_INDEX_KEYS = new Set(["index-url", "extra-index-url", "find-links"]);
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** PEP 503 normalized project name. */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+function supplyChainThreat(file: string, pattern: string, severity: Threat["severity"], description: string, line: number): Threat {
+  return { pattern, severity, description: sanitizeText(description), category: "supply-chain", file, line };
+}
+
+/** A specifier set with no upper bound: none at all, or only ">=", ">" and "!=" clauses. */
+function isUnpinned(specifiers: string): boolean {
+  const clauses = specifiers.split(",").map((c) => c.trim()).filter(Boolean);
+  return clauses.length === 0 || clauses.every((c) => /^(?:>=|>|!=)/.test(c));
+}
+
+function sourceThreat(file: string, requirement: string, url: string, line: number): Threat {
+  const insecure = /^http:/i.test(url) ? " over plain HTTP" : "";
+  return VCS_URL.test(url)
+    ? supplyChainThreat(file, "pip-vcs-requirement", "warning",
+      `${requirement} installs from version control (${url}) — no index, and hashes cannot be checked`, line)
+    : supplyChainThreat(file, "pip-url-requirement", "warning",
+      `${requirement} installs an archive from ${url}${insecure} — bypasses the package index`, line);
+}
+
+function typosquatThreat(file: string, name: string, line: number): Threat | null {
+  const normalized = normalizePythonName(name);
+  const imitated = typosquatTarget(normalized, POPULAR_PYPI_PACKAGES);
+  return imitated
+    ? supplyChainThreat(file, "pip-typosquat", "warning",
+      `Requirement "${name}" is one typo away from the popular package "${imitated}" — likely typosquat`, line)
+    : null;
+}
+
+/**
+ * Findings for one PEP 508 requirement ("name[extra]>=1.0; marker",
+ * "name @ https://…") or a bare VCS/URL requirement.
+ */
+function checkRequirement(file: string, text: string, line: number): Threat[] {
+  const requirement = text.split(";")[0].trim();
+  if (!requirement) return [];
+  if (VCS_URL.test(requirement) || DIRECT_URL.test(requirement)) {
+    const egg = /#(?:.*&)?egg=([\w.-]+)/.exec(requirement)?.[1];
+    return [sourceThreat(file, egg ?? "Requirement", requirement, line)];
+  }
+
+  const match = REQUIREMENT.exec(requirement);
+  if (!match) return [];
+  const [, name, rest] = match;
+  const threats: Threat[] = [];
+  if (rest.startsWith("@")) {
+    threats.push(sourceThreat(file, name, rest.substring(1).trim(), line));
+  } else if (isUnpinned(rest.replace(/^\(|\)$/g, ""))) {
+    threats.push(supplyChainThreat(file, "pip-unpinned-requirement", "warning",
+      `${name} accepts any future version ("${rest || "*"}") — a compromised release would be installed`, line));
+  }
+  const squat = typosquatThreat(file, name, line);
+  if (squat) threats.push(squat);
+  return threats;
+}
+
+// ─── requirements.txt ────────────────────────────────────────────────────────
+
+/** Logical lines with backslash continuations joined and comments stripped; `line` is the first physical line. */
+function requirementsLines(content: string): Array<{ text: string; line: number }> {
+  const result: Array<{ text: string; line: number }> = [];
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const start = i;
+    let logical = lines[i];
+    while (/\\\s*$/.test(logical) && i + 1 < lines.length) {
+      logical = logical.replace(/\\\s*$/, " ") + lines[++i];
+    }
+    const text = logical.replace(/(?:^|\s)#.*$/, "").trim();
+    if (text) result.push({ text, line: start + 1 });
+  }
+  return result;
+}
+
+/** An option line resolved the way pip reads it, with the option's full long name. */
+function parseOption(text: string): { option: string; value: string } {
+  const long = /^(--[^\s=]+)(?:[=\s]\s*(.*))?$/.exec(text);
+  if (long) {
+    const [, written, value = ""] = long;
+    const candidates = REQUIREMENTS_OPTIONS.includes(written)
+      ? [written]
+      : REQUIREMENTS_OPTIONS.filter((o) => o.startsWith(written));
+    return { option: candidates.length === 1 ? candidates[0] : written, value: value.trim() };
+  }
+  const [, short = text, value = ""] = /^(-\w)\s*=?\s*(.*)$/.exec(text) ?? [];
+  return { option: SHORT_OPTIONS[short] ?? short, value: value.trim() };
+}
+
+/** Findings for a pip requirements file, whatever its name. */
+export function analyzeRequirements(file: string, content: string): Threat[] {
+  const threats: Threat[] = [];
+  for (const { text, line } of requirementsLines(content)) {
+    if (text.startsWith("-")) {
+      const { option, value } = parseOption(text);
+      if (INDEX_OPTIONS.has(option)) {
+        const extra = option === "--extra-index-url" ? " — packages missing there fall back to PyPI and vice versa (dependency confusion)" : "";
+        threats.push(supplyChainThreat(file, "pip-index-override", "warning",
+          `${option} ${value} changes where packages are downloaded from${extra}`, line));
+      } else if (option === "--trusted-host") {
+        threats.push(supplyChainThreat(file, "pip-trusted-host", "warning",
+          `--trusted-host ${value} disables TLS verification for that host`, line));
+      } else if (option === "--editable") {
+        if (VCS_URL.test(value) || DIRECT_URL.test(value)) threats.push(...checkRequirement(file, value, line));
+      }
+      continue;
+    }
+    // Per-requirement options such as --hash follow the requirement itself
+    threats.push(...checkRequirement(file, text.split(/\s+--?[a-z]/)[0], line));
+  }
+  return threats;
+}
+
+/** Files a requirements file pulls in with -r / -c, as written. */
+export function requirementsIncludes(content: string): string[] {
+  return requirementsLines(content)
+    .filter(({ text }) => text.startsWith("-"))
+    .map(({ text }) => parseOption(text))
+    .filter(({ option }) => option === "--requirement" || option === "--constraint")
+    .map(({ value }) => value);
+}
+
+// ─── pyproject.toml ──────────────────────────────────────────────────────────
+
+const QUOTED = /"((?:[^"\\]|\\.)*)"|'([^']*)'/g;
+
+function quotedStrings(text: string): string[] {
+  return [...text.matchAll(QUOTED)].map((m) => m[1] ?? m[2]);
+}
+
+/** Poetry constraint: "^1.2", "*", ">=2", or an inline table with git/url/version. */
+function checkPoetryDependency(file: string, name: string, value: string, line: number): Threat[] {
+  const threats: Threat[] = [];
+  const inline = /^\{(.*)\}$/.exec(value.trim());
+  const field = (key: string): string | undefined =>
+    inline ? new RegExp(`(?:^|,)\\s*${key}\\s*=\\s*["']([^"']*)["']`).exec(inline[1])?.[1] : undefined;
+  const source = field("git") ?? field("url");
+  const version = inline ? field("version") : quotedStrings(value)[0];
+
+  if (source) {
+    threats.push(sourceThreat(file, name, field("git") ? `git+${source}` : source, line));
+  } else if (version !== undefined && (version.trim() === "*" || isUnpinned(version))) {
+    threats.push(supplyChainThreat(file, "pip-unpinned-requirement", "warning",
+      `${name} accepts any future version ("${version || "*"}") — a compromised release would be installed`, line));
+  }
+  const squat = typosquatThreat(file, name, line);
+  if (squat) threats.push(squat);
+  return threats;
+}
+
+/**
+ * Line-based reading of the parts of pyproject.toml that name dependencies
+ * and package indexes: PEP 621 / PEP 735 arrays, build requirements, Poetry
+ * dependency tables, and Poetry, uv and PDM index sources.
+ */
+function analyzePyproject(file: string, content: string): Threat[] {
+  const threats: Threat[] = [];
+  const lines = content.split("\n");
+  let table = "";
+  let inArray = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/^\s+|\s+#[^"']*$/g, "");
+    const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(line);
+    if (header && !inArray) {
+      table = header[1].replace(/["']/g, "");
+      continue;
+    }
+    if (inArray) {
+      for (const requirement of quotedStrings(line)) threats.push(...checkRequirement(file, requirement, i + 1));
+      if (line.replace(QUOTED, "").includes("]")) inArray = false;
+      continue;
+    }
+
+    const kv = /^([A-Za-z0-9_."'-]+)\s*=\s*(.*)$/.exec(line);
+    if (!kv) continue;
+    const key = kv[1].replace(/["']/g, "");
+    const value = kv[2];
+
+    if (PEP508_ARRAYS.some(([t, k]) => t.test(table) && k.test(key)) && value.startsWith("[")) {
+      for (const requirement of quotedStrings(value)) threats.push(...checkRequirement(file, requirement, i + 1));
+      inArray = !value.replace(QUOTED, "").includes("]");
+    } else if (POETRY_DEPENDENCIES.test(table) && key !== "python") {
+      threats.push(...checkPoetryDependency(file, key, value, i + 1));
+    } else if ((INDEX_TABLES.test(table) && key === "url") || (table === "tool.uv" && UV_INDEX_KEYS.has(key))) {
+      const url = quotedStrings(value)[0] ?? value;
+      threats.push(supplyChainThreat(file, "pip-index-override", "warning",
+        `[${table}] ${key} = ${url} changes where packages are downloaded from`, i + 1));
+    }
+  }
+  return threats;
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+/**
+ * Supply-chain findings for requirements files and pyproject.toml: VCS and
+ * direct-URL requirements, unbounded versions, package index overrides and
+ * likely typosquats of popular PyPI packages. Empty for any other file.
+ */
+export function analyzePythonManifest(file: string, content: string): Threat[] {
+  const name = file.substring(file.lastIndexOf("/") + 1);
+  if (name === "pyproject.toml") return analyzePyproject(file, content);
+  if (REQUIREMENTS_FILE.test(name) || REQUIREMENTS_DIR.test(file)) return analyzeRequirements(file, content);
+  return [];
+}
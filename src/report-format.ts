@@ -0,0 +1,299 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { dirname, isAbsolute, extname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { createHash } from "node:crypto";
+import {
+  CRITICAL_PATTERNS,
+  CRITICAL_MULTILINE_PATTERNS,
+  WARNING_PATTERNS,
+  LANGUAGE_PATTERNS,
+  type ThreatPattern,
+} from "./patterns.js";
+import type { ScanResult, FetchScanResult, Threat, ParsedGitHubUrl } from "./security-scanner.js";
+import type { RiskFactor } from "./risk-score.js";
+import type { SniffedFile } from "./file-type.js";
+import type { ArchiveListing } from "./archive.js";
+import type { NetworkDestination } from "./network-inventory.js";
+import { SERVER_NAME, SERVER_VERSION, REPORT_FILE_EXTENSIONS } from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ReportFormat = "markdown" | "json" | "sarif";
+
+export type ReportTarget =
+  | { kind: "github"; url: string; parsed: ParsedGitHubUrl | null }
+  | { kind: "installed"; name: string; scope: string; path: string };
+
+export type JsonReportTarget =
+  | { kind: "github"; url: string }
+  | { kind: "installed"; name: string; scope: string; path: string };
+
+export interface JsonThreat {
+  ruleId: string;
+  pattern: string;
+  severity: Threat["severity"];
+  category: string;
+  description: string;
+  file: string | null;
+  line: number | null;
+  column: number | null;
+  occurrences: number;
+  locations: Array<{ line: number; column: number }>;
+  language: Threat["language"] | null;
+  context: Threat["context"] | null;
+  encoding: string | null;
+  score: number | null;
+  fingerprint: string | null;
+  suppressed: boolean;
+  suppression: Threat["suppression"] | null;
+}
+
+/** Stable machine-readable report. Bump `schemaVersion` on breaking changes. */
+export interface JsonReport {
+  schemaVersion: 1;
+  tool: { name: string; version: string };
+  generatedAt: string;
+  target: JsonReportTarget;
+  commitSha: string | null;
+  contentHash: string;
+  riskLevel: ScanResult["riskLevel"];
+  riskScore: number | null;
+  riskFactors: RiskFactor[];
+  safe: boolean;
+  recommendation: string;
+  filesScanned: number | null;
+  summary: { critical: number; warning: number; suppressed: number };
+  executables: SniffedFile[];
+  archives: ArchiveListing[];
+  destinations: NetworkDestination[];
+  threats: JsonThreat[];
+  errors: string[];
+}
+
+// ─── Rule Identifiers ────────────────────────────────────────────────────────
+
+const BUILTIN_PATTERNS: ThreatPattern[] = [...CRITICAL_PATTERNS, ...WARNING_PATTERNS, ...CRITICAL_MULTILINE_PATTERNS, ...LANGUAGE_PATTERNS];
+
+/**
+ * Stable rule id for a threat. Named patterns (pack ids, scanner checks like
+ * "binary-file") are used as-is; built-in regexes get "<category>/<hash>" so
+ * the id survives reordering of the pattern tables.
+ */
+export function ruleIdFor(pattern: string, category: string): string {
+  if (/^[A-Za-z0-9][A-Za-z0-9._/-]*$/.test(pattern)) return pattern;
+  return `${category}/${createHash("sha256").update(pattern).digest("hex").substring(0, 8)}`;
+}
+
+function findPattern(threat: Threat, patterns: ThreatPattern[]): ThreatPattern | undefined {
+  return patterns.find((p) => (p.id ?? p.regex.source) === threat.pattern);
+}
+
+// ─── JSON ────────────────────────────────────────────────────────────────────
+
+function commitOf(result: ScanResult): string | null {
+  return (result as FetchScanResult).commitSha ?? null;
+}
+
+export function buildJsonReport(result: ScanResult, target: ReportTarget, filesScanned?: number): JsonReport {
+  const active = result.threats.filter((t) => !t.suppression);
+  return {
+    schemaVersion: 1,
+    tool: { name: SERVER_NAME, version: SERVER_VERSION },
+    generatedAt: new Date().toISOString(),
+    target: target.kind === "github" ? { kind: "github", url: target.url } : target,
+    commitSha: commitOf(result),
+    contentHash: result.contentHash,
+    riskLevel: result.riskLevel,
+    riskScore: result.riskScore ?? null,
+    riskFactors: result.riskFactors ?? [],
+    safe: result.safe,
+    recommendation: result.recommendation,
+    filesScanned: filesScanned ?? (result as FetchScanResult).filesScanned ?? null,
+    summary: {
+      critical: active.filter((t) => t.severity === "critical").length,
+      warning: active.filter((t) => t.severity === "warning").length,
+      suppressed: result.threats.length - active.length,
+    },
+    executables: result.executables ?? [],
+    archives: result.archives ?? [],
+    destinations: result.destinations ?? [],
+    threats: result.threats.map((t) => ({
+      ruleId: ruleIdFor(t.pattern, t.category),
+      pattern: t.pattern,
+      severity: t.severity,
+      category: t.category,
+      description: t.description,
+      file: t.file ?? null,
+      line: t.line ?? null,
+      column: t.column ?? null,
+      occurrences: t.occurrences ?? 1,
+      locations: t.locations ?? [],
+      language: t.language ?? null,
+      context: t.context ?? null,
+      encoding: t.encoding ?? null,
+      score: t.score ?? null,
+      fingerprint: t.fingerprint ?? null,
+      suppressed: t.suppression !== undefined,
+      suppression: t.suppression ?? null,
+    })),
+    errors: (result as FetchScanResult).errors ?? [],
+  };
+}
+
+// ─── SARIF 2.1.0 ─────────────────────────────────────────────────────────────
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+function sarifLevel(severity: Threat["severity"]): "error" | "warning" {
+  return severity === "critical" ? "error" : "warning";
+}
+
+function skillRootUri(target: ReportTarget, commitSha: string | null): string | undefined {
+  if (target.kind === "installed") {
+    return pathToFileURL(target.path).href.replace(/\/?$/, "/");
+  }
+  if (!target.parsed) return undefined;
+  const { owner, repo, ref, path } = target.parsed;
+  const root = path.replace(/^\/+|\/+$/g, "");
+  return `https://github.com/${owner}/${repo}/blob/${commitSha ?? ref}/${root}/`;
+}
+
+/**
+ * SARIF 2.1.0 log for code-scanning dashboards. Rules are derived from the
+ * ThreatPattern entries that produced results; locations are relative to the
+ * SKILLROOT base URI. Suppressed findings carry an accepted external suppression.
+ */
+export function buildSarifReport(result: ScanResult, target: ReportTarget, extraPatterns: ThreatPattern[] = []): object {
+  const patterns = [...BUILTIN_PATTERNS, ...extraPatterns];
+  const commitSha = commitOf(result);
+  const rules: object[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  const results = result.threats.map((t) => {
+    const ruleId = ruleIdFor(t.pattern, t.category);
+    if (!ruleIndex.has(ruleId)) {
+      const source = findPattern(t, patterns);
+      ruleIndex.set(ruleId, rules.length);
+      rules.push({
+        id: ruleId,
+        name: ruleId,
+        shortDescription: { text: source?.description ?? t.description },
+        defaultConfiguration: { level: sarifLevel(source?.severity ?? t.severity) },
+        properties: {
+          category: t.category,
+          tags: ["security", t.category],
+          ...(source ? { pattern: source.regex.source } : {}),
+        },
+      });
+    }
+
+    const region = t.line !== undefined ? { startLine: t.line, ...(t.column !== undefined ? { startColumn: t.column } : {}) } : undefined;
+    const location = (line?: { line: number; column: number }) => ({
+      physicalLocation: {
+        artifactLocation: { uri: t.file?.split("/").map(encodeURIComponent).join("/"), uriBaseId: "SKILLROOT" },
+        ...(line ? { region: { startLine: line.line, startColumn: line.column } } : region ? { region } : {}),
+      },
+    });
+
+    return {
+      ruleId,
+      ruleIndex: ruleIndex.get(ruleId),
+      level: sarifLevel(t.severity),
+      message: { text: t.description },
+      ...(t.file ? { locations: [location()] } : {}),
+      ...(t.file && t.locations && t.locations.length > 1
+        ? { relatedLocations: t.locations.slice(1).map((l, i) => ({ id: i + 1, ...location(l) })) }
+        : {}),
+      ...(t.fingerprint ? { partialFingerprints: { "skillsyncFingerprint/v1": t.fingerprint } } : {}),
+      ...(t.suppression
+        ? {
+          suppressions: [{
+            kind: "external",
+            status: "accepted",
+            justification: t.suppression.reason,
+            properties: { reviewer: t.suppression.reviewer, ...(t.suppression.expires ? { expires: t.suppression.expires } : {}) },
+          }],
+        }
+        : {}),
+      properties: { category: t.category, occurrences: t.occurrences ?? 1, ...(t.language ? { language: t.language } : {}), ...(t.context ? { context: t.context } : {}), ...(t.encoding ? { encoding: t.encoding } : {}), ...(t.score !== undefined ? { score: t.score } : {}) },
+    };
+  });
+
+  const rootUri = skillRootUri(target, commitSha);
+  const errors = (result as FetchScanResult).errors ?? [];
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: SERVER_NAME,
+          version: SERVER_VERSION,
+          informationUri: "https://github.com/adityasugandhi/skillsync-mcp",
+          rules,
+        },
+      },
+      ...(rootUri ? { originalUriBaseIds: { SKILLROOT: { uri: rootUri } } } : {}),
+      ...(target.kind === "github" && target.parsed && commitSha
+        ? {
+          versionControlProvenance: [{
+            repositoryUri: `https://github.com/${target.parsed.owner}/${target.parsed.repo}`,
+            revisionId: commitSha,
+          }],
+        }
+        : {}),
+      invocations: [{
+        executionSuccessful: true,
+        toolExecutionNotifications: errors.map((text) => ({ level: "warning", message: { text } })),
+      }],
+      results,
+      properties: {
+        riskLevel: result.riskLevel,
+        riskScore: result.riskScore ?? null,
+        riskFactors: result.riskFactors ?? [],
+        safe: result.safe,
+        contentHash: result.contentHash,
+        recommendation: result.recommendation,
+      },
+    }],
+  };
+}
+
+// ─── Output ──────────────────────────────────────────────────────────────────
+
+export function renderReport(
+  format: Exclude<ReportFormat, "markdown">,
+  result: ScanResult,
+  target: ReportTarget,
+  options: { filesScanned?: number; extraPatterns?: ThreatPattern[] } = {},
+): string {
+  const doc = format === "sarif"
+    ? buildSarifReport(result, target, options.extraPatterns)
+    : buildJsonReport(result, target, options.filesScanned);
+  return JSON.stringify(doc, null, 2) + "\n";
+}
+
+/**
+ * Write a rendered report to a new file. Only absolute paths ending in .json
+ * or .sarif are accepted, and an existing file (or symlink) is never
+ * overwritten, so a tool call cannot replace settings.json, package.json, an
+ * ignore file or anything else already on disk.
+ */
+export async function writeReport(outputPath: string, text: string): Promise<string> {
+  if (!isAbsolute(outputPath)) {
+    throw new Error(`Output path must be absolute: "${outputPath}"`);
+  }
+  if (!REPORT_FILE_EXTENSIONS.has(extname(outputPath).toLowerCase())) {
+    throw new Error(`Output path must end in ${[...REPORT_FILE_EXTENSIONS].join(" or ")}: "${outputPath}"`);
+  }
+  await mkdir(dirname(outputPath), { recursive: true });
+  try {
+    await writeFile(outputPath, text, { encoding: "utf-8", flag: "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`Output path already exists: "${outputPath}". Reports are never written over existing files; choose a new path.`);
+    }
+    throw err;
+  }
+  return outputPath;
+}
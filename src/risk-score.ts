@@ -0,0 +1,107 @@
+import type { Threat } from "./security-scanner.js";
+import { defaultScannerConfig, type RiskLevel, type RiskModel } from "./scanner-config.js";
+import { ruleIdFor } from "./report-format.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RiskFactor {
+  kind: "finding" | "combination";
+  id: string;         // rule id of the finding, or the combination id
+  category?: string;
+  file?: string;
+  points: number;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  riskLevel: RiskLevel;
+  safe: boolean;
+  /** What the score is made of, largest contribution first. */
+  factors: RiskFactor[];
+}
+
+// ─── Scoring ─────────────────────────────────────────────────────────────────
+
+const LEVEL_ORDER: RiskLevel[] = ["safe", "low", "medium", "high", "critical"];
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function levelForScore(score: number, thresholds: RiskModel["thresholds"]): RiskLevel {
+  if (score >= thresholds.critical) return "critical";
+  if (score >= thresholds.high) return "high";
+  if (score >= thresholds.medium) return "medium";
+  if (score >= thresholds.low && score > 0) return "low";
+  return "safe";
+}
+
+// Own keys only: pattern ids like "__proto__" must not reach Object.prototype
+function weightFor(weights: Record<string, number>, key: string): number | undefined {
+  return Object.hasOwn(weights, key) ? weights[key] : undefined;
+}
+
+function maxLevel(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Weighted risk score over the active (unsuppressed) threats. Each finding
+ * scores its severity weight (or a per-pattern override) times its category
+ * weight, more inside decoded payloads; the same pattern repeated across
+ * files decays so noise doesn't outrank one real threat. Combinations of
+ * categories then add bonus points and can raise the level directly. An
+ * active critical finding is critical whatever the model says, so a
+ * project's scanner config can tune warnings but never wave a critical through.
+ */
+export function assessRisk(threats: Threat[], model: RiskModel = defaultScannerConfig().risk): RiskAssessment {
+  const active = threats.filter((t) => !t.suppression);
+  const factors: RiskFactor[] = [];
+  const repeats = new Map<string, number>();
+
+  for (const threat of active) {
+    const ruleId = ruleIdFor(threat.pattern, threat.category);
+    const base = weightFor(model.patternWeights, threat.pattern)
+      ?? weightFor(model.patternWeights, ruleId)
+      ?? weightFor(model.severityWeights, threat.severity)
+      ?? 0;
+    const repeat = repeats.get(threat.pattern) ?? 0;
+    repeats.set(threat.pattern, repeat + 1);
+
+    let points = base * (weightFor(model.categoryWeights, threat.category) ?? 1);
+    if (threat.encoding) points *= model.encodedWeight;
+    points = round2(points * model.repeatDecay ** repeat);
+    if (!Number.isFinite(points) || points <= 0) continue;
+
+    const notes = [threat.severity, threat.category];
+    if (threat.encoding) notes.push(`inside ${threat.encoding} payload`);
+    if (repeat > 0) notes.push(`repeat #${repeat + 1}`);
+    factors.push({ kind: "finding", id: ruleId, category: threat.category, file: threat.file, points, detail: notes.join(", ") });
+  }
+
+  const present = new Set(active.map((t) => t.category));
+  if (active.some((t) => t.encoding)) present.add("encoded");
+
+  let floor: RiskLevel = active.some((t) => t.severity === "critical") ? "critical" : "safe";
+  for (const combination of model.combinations) {
+    if (!combination.groups.every((group) => group.some((c) => present.has(c)))) continue;
+    if (combination.minLevel) floor = maxLevel(floor, combination.minLevel);
+    factors.push({
+      kind: "combination",
+      id: combination.id,
+      points: combination.bonus,
+      detail: `${combination.description}${combination.minLevel ? ` (at least ${combination.minLevel})` : ""}`,
+    });
+  }
+
+  factors.sort((a, b) => b.points - a.points);
+  const score = round2(factors.reduce((sum, f) => sum + f.points, 0));
+  const riskLevel = maxLevel(levelForScore(score, model.thresholds), floor);
+  return {
+    score,
+    riskLevel,
+    safe: riskLevel === "safe" || riskLevel === "low",
+    factors,
+  };
+}
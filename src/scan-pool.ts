@@ -0,0 +1,159 @@
+import { Worker } from "node:worker_threads";
+import { availableParallelism } from "node:os";
+import { MAX_SCAN_WORKERS } from "./constants.js";
+import type { ThreatPattern } from "./patterns.js";
+import type { EntropyThresholds, ScanTimeouts } from "./scanner-config.js";
+import type { Threat } from "./security-scanner.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** What a worker needs to scan one file; patterns are structured-cloned. */
+export interface ScanTask {
+  path: string;
+  content: string;
+  extraPatterns?: ThreatPattern[];
+  entropy?: EntropyThresholds;
+}
+
+/**
+ * Outcome of one task. "file" and "scan" name the budget that ran out:
+ * the file's own, or the skill's before the file finished or started.
+ * "failed" means the scan threw or its worker crashed or exited.
+ */
+export type ScanOutcome =
+  | { status: "done"; threats: Threat[] }
+  | { status: "timeout"; budget: "file" | "scan" }
+  | { status: "failed"; error: string };
+
+export type ScanWorkerReply =
+  | { id: number; threats: Threat[] }
+  | { id: number; error: string };
+
+interface Job {
+  task: ScanTask;
+  fileMs: number;
+  deadline: number;   // epoch ms at which the skill's scan budget runs out
+  resolve: (outcome: ScanOutcome) => void;
+  reject: (error: Error) => void;
+}
+
+// ─── Pool ────────────────────────────────────────────────────────────────────
+
+/**
+ * Fixed-size pool of scan workers shared by every scan in the process. A
+ * worker that overruns its budget may be stuck in a backtracking regex that
+ * never yields, so it is terminated rather than asked to stop, and a fresh
+ * one is spawned for the next task. Idle workers are unref'd so they never
+ * keep the process alive.
+ */
+export class ScanWorkerPool {
+  private readonly idle: Worker[] = [];
+  private readonly queue: Job[] = [];
+  private busy = 0;
+  private nextId = 0;
+  private closed = false;
+
+  constructor(private readonly size: number, private readonly entry: URL) {}
+
+  /**
+   * Scan every file, at most `timeouts.scanMs` in total; outcomes follow
+   * `tasks` order. A file's failure is its own outcome, so the other files'
+   * results survive; only shutting the pool down rejects.
+   */
+  run(tasks: ScanTask[], timeouts: ScanTimeouts): Promise<ScanOutcome[]> {
+    const deadline = Date.now() + timeouts.scanMs;
+    return Promise.all(tasks.map((task) => new Promise<ScanOutcome>((resolve, reject) => {
+      this.queue.push({ task, fileMs: timeouts.fileMs, deadline, resolve, reject });
+      this.drain();
+    })));
+  }
+
+  async terminate(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) job.reject(new Error("Scan worker pool shut down"));
+    await Promise.all(this.idle.splice(0).map((w) => w.terminate()));
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.busy < this.size) {
+      const job = this.queue.shift();
+      if (!job) break;
+      const remaining = job.deadline - Date.now();
+      if (remaining <= 0) {
+        job.resolve({ status: "timeout", budget: "scan" });
+        continue;
+      }
+      this.dispatch(job, Math.min(job.fileMs, remaining), remaining < job.fileMs ? "scan" : "file");
+    }
+  }
+
+  private dispatch(job: Job, limitMs: number, budget: "file" | "scan"): void {
+    this.busy++;
+    const worker = this.idle.pop() ?? this.spawn();
+    const id = ++this.nextId;
+
+    const settle = (keep: boolean): void => {
+      clearTimeout(timer);
+      worker.off("message", onMessage);
+      worker.off("error", onError);
+      worker.off("exit", onExit);
+      this.busy--;
+      if (keep && !this.closed) this.idle.push(worker);
+      else void worker.terminate();
+      this.drain();
+    };
+    const onMessage = (reply: ScanWorkerReply): void => {
+      if (reply.id !== id) return;
+      settle(true);
+      if ("error" in reply) job.resolve({ status: "failed", error: reply.error });
+      else job.resolve({ status: "done", threats: reply.threats });
+    };
+    const onError = (err: Error): void => {
+      settle(false);
+      job.resolve({ status: "failed", error: `scan worker crashed: ${err.message}` });
+    };
+    const onExit = (code: number): void => {
+      settle(false);
+      job.resolve({ status: "failed", error: `scan worker exited with code ${code}` });
+    };
+    const timer = setTimeout(() => {
+      settle(false);
+      job.resolve({ status: "timeout", budget });
+    }, limitMs);
+
+    worker.on("message", onMessage);
+    worker.on("error", onError);
+    worker.on("exit", onExit);
+    worker.postMessage({ id, task: job.task });
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(this.entry);
+    worker.unref();
+    worker.on("exit", () => {
+      const index = this.idle.indexOf(worker);
+      if (index >= 0) this.idle.splice(index, 1);
+    });
+    return worker;
+  }
+}
+
+// ─── Shared Pool ─────────────────────────────────────────────────────────────
+
+// Under tsx the worker is loaded from source like this module
+const WORKER_ENTRY = new URL(import.meta.url.endsWith(".ts") ? "./scan-worker.ts" : "./scan-worker.js", import.meta.url);
+
+let pool: ScanWorkerPool | null = null;
+
+export function getScanPool(): ScanWorkerPool {
+  if (!pool) {
+    pool = new ScanWorkerPool(Math.max(1, Math.min(MAX_SCAN_WORKERS, availableParallelism() - 1)), WORKER_ENTRY);
+  }
+  return pool;
+}
+
+export async function shutdownScanPool(): Promise<void> {
+  const current = pool;
+  pool = null;
+  await current?.terminate();
+}
@@ -0,0 +1,20 @@
+import { parentPort } from "node:worker_threads";
+import { findFileThreats } from "./security-scanner.js";
+import type { ScanTask, ScanWorkerReply } from "./scan-pool.js";
+
+// ─── Scan Worker ─────────────────────────────────────────────────────────────
+
+// Entry point of a scan-pool worker: scans one file per message. Runaway
+// patterns are not interrupted here; the pool terminates the whole worker.
+const port = parentPort;
+if (port) {
+  port.on("message", ({ id, task }: { id: number; task: ScanTask }) => {
+    let reply: ScanWorkerReply;
+    try {
+      reply = { id, threats: findFileThreats(task.path, task.content, { extraPatterns: task.extraPatterns, entropy: task.entropy }) };
+    } catch (err) {
+      reply = { id, error: err instanceof Error ? err.message : String(err) };
+    }
+    port.postMessage(reply);
+  });
+}
@@ -0,0 +1,302 @@
+import { readFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { resolvePaths } from "./scope-resolver.js";
+import type { NetworkPolicy } from "./network-inventory.js";
+import { SCAN_FILE_TIMEOUT_MS, SCAN_TIMEOUT_MS } from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Thresholds for the statistical obfuscation pass (see entropy.ts). */
+export interface EntropyThresholds {
+  enabled: boolean;
+  minLiteralLength: number;       // string literals shorter than this are not measured
+  literalEntropy: number;         // bits/char above which a literal is flagged
+  minLineLength: number;          // lines shorter than this are not measured
+  lineEntropy: number;            // bits/char above which a line is flagged
+  hexRunLength: number;           // contiguous hex digits flagged as a packed blob
+  base64RunLength: number;        // contiguous base64 chars flagged as a packed blob
+  base64RunEntropy: number;       // ... when the run is at least this random
+  minifiedLineLength: number;     // JS lines longer than this may be minified
+  minifiedWhitespaceRatio: number;  // ... when whitespace is below this fraction
+  minSymbolLineLength: number;    // lines shorter than this skip the charset check
+  symbolRatio: number;            // fraction of punctuation above which a line is flagged
+}
+
+export type RiskLevel = "safe" | "low" | "medium" | "high" | "critical";
+
+/**
+ * Escalation when findings from every group occur in the same skill, e.g.
+ * obfuscation + network + shell execution. Each group lists alternative
+ * categories; "encoded" matches findings inside decoded payloads.
+ */
+export interface RiskCombination {
+  id: string;
+  description: string;
+  groups: string[][];
+  bonus: number;          // points added to the score
+  minLevel?: RiskLevel;   // floor for the resulting risk level
+}
+
+/** Weights and thresholds for the risk score (see risk-score.ts). */
+export interface RiskModel {
+  severityWeights: { critical: number; warning: number };
+  categoryWeights: Record<string, number>;  // multipliers, default 1
+  patternWeights: Record<string, number>;   // points by pattern or rule id, replacing the severity weight
+  encodedWeight: number;   // multiplier for findings inside decoded payloads
+  repeatDecay: number;     // each repeat of a pattern in another file counts this fraction of the last
+  thresholds: { low: number; medium: number; high: number; critical: number };  // minimum score per level
+  combinations: RiskCombination[];
+}
+
+/** Time budgets for pattern matching in scan workers (see scan-pool.ts). */
+export interface ScanTimeouts {
+  fileMs: number;   // a file still scanning after this is stopped and flagged
+  scanMs: number;   // files not scanned within this, per skill, are flagged
+}
+
+export interface ScannerConfig {
+  version: 1;
+  entropy: EntropyThresholds;
+  risk: RiskModel;
+  network: NetworkPolicy;
+  timeouts: ScanTimeouts;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const entropySchema = z.object({
+  enabled: z.boolean(),
+  minLiteralLength: z.number().int().min(8).max(10_000),
+  literalEntropy: z.number().min(0).max(8),
+  minLineLength: z.number().int().min(16).max(100_000),
+  lineEntropy: z.number().min(0).max(8),
+  hexRunLength: z.number().int().min(16).max(100_000),
+  base64RunLength: z.number().int().min(16).max(100_000),
+  base64RunEntropy: z.number().min(0).max(8),
+  minifiedLineLength: z.number().int().min(100).max(1_000_000),
+  minifiedWhitespaceRatio: z.number().min(0).max(1),
+  minSymbolLineLength: z.number().int().min(16).max(100_000),
+  symbolRatio: z.number().min(0).max(1),
+});
+
+const riskLevelSchema = z.enum(["safe", "low", "medium", "high", "critical"]);
+const categorySchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/);
+
+const combinationSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/),
+  description: z.string().min(1).max(200),
+  groups: z.array(z.array(categorySchema).min(1).max(20)).min(2).max(10),
+  bonus: z.number().min(0).max(1000),
+  minLevel: riskLevelSchema.optional(),
+});
+
+const thresholdsSchema = z.object({
+  low: z.number().min(0).max(10_000),
+  medium: z.number().min(0).max(10_000),
+  high: z.number().min(0).max(10_000),
+  critical: z.number().min(0).max(10_000),
+});
+
+const riskSchema = z.object({
+  severityWeights: z.object({ critical: z.number().min(0).max(1000), warning: z.number().min(0).max(1000) }).partial(),
+  categoryWeights: z.record(categorySchema, z.number().min(0).max(100)),
+  patternWeights: z.record(z.string().min(1).max(500), z.number().min(0).max(1000)),
+  encodedWeight: z.number().min(0).max(100),
+  repeatDecay: z.number().min(0).max(1),
+  thresholds: thresholdsSchema.partial(),
+  combinations: z.array(combinationSchema).max(50),
+});
+
+// A domain, optionally "*."-prefixed, or an IPv4 literal
+const domainSchema = z.string().max(253).regex(/^(?:\*\.)?[A-Za-z0-9](?:[A-Za-z0-9-]{0,62})(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,62}))*\.?$/);
+
+const networkSchema = z.object({
+  allow: z.array(domainSchema).max(500),
+  deny: z.array(domainSchema).max(500),
+});
+
+const timeoutsSchema = z.object({
+  fileMs: z.number().int().min(100).max(600_000),
+  scanMs: z.number().int().min(1000).max(3_600_000),
+});
+
+// Every field is optional on disk; missing values fall back to the defaults
+const fileSchema = z.object({
+  version: z.literal(1),
+  entropy: entropySchema.partial().optional(),
+  risk: riskSchema.partial().optional(),
+  network: networkSchema.partial().optional(),
+  timeouts: timeoutsSchema.partial().optional(),
+});
+
+// ─── Defaults ────────────────────────────────────────────────────────────────
+
+export function defaultScannerConfig(): ScannerConfig {
+  return {
+    version: 1,
+    entropy: {
+      enabled: true,
+      minLiteralLength: 80,
+      literalEntropy: 5.2,
+      minLineLength: 200,
+      lineEntropy: 5.5,
+      hexRunLength: 128,
+      base64RunLength: 200,
+      base64RunEntropy: 5.0,
+      minifiedLineLength: 1000,
+      minifiedWhitespaceRatio: 0.05,
+      minSymbolLineLength: 80,
+      symbolRatio: 0.85,
+    },
+    risk: {
+      // One critical finding is enough to block; three warnings are not safe
+      severityWeights: { critical: 100, warning: 10 },
+      categoryWeights: {
+        "environment": 0.5,
+        "incomplete-scan": 0.5,
+        "binary": 0.5,
+        "executable": 2.5,
+        "disguised-file": 1.5,
+        "obfuscation": 1.5,
+        "exfiltration": 1.5,
+        "credential-theft": 1.5,
+        "rce": 1.5,
+        "reverse-shell": 1.5,
+      },
+      // A likely typosquat, or a file that could not be fully scanned, warrants
+      // review on its own; loose ranges are routine
+      patternWeights: {
+        "npm-typosquat": 50, "pip-typosquat": 50, "scan-timeout": 50, "scan-error": 50,
+        "npm-unpinned-dependency": 5, "pip-unpinned-requirement": 5,
+      },
+      encodedWeight: 2,
+      repeatDecay: 0.5,
+      thresholds: { low: 1, medium: 25, high: 50, critical: 100 },
+      combinations: [
+        {
+          id: "obfuscated-dropper",
+          description: "Obfuscated code that reaches the network and executes commands",
+          groups: [["obfuscation", "encoded"], ["network", "exfiltration"], ["shell-execution", "code-execution", "rce"]],
+          bonus: 50,
+          minLevel: "critical",
+        },
+        {
+          id: "decode-and-execute",
+          description: "Encoded payload combined with code or shell execution",
+          groups: [["encoded"], ["shell-execution", "code-execution", "rce"]],
+          bonus: 30,
+          minLevel: "high",
+        },
+        {
+          id: "credential-exfiltration",
+          description: "Credential access combined with outbound network access",
+          groups: [["credential-theft"], ["network", "exfiltration"]],
+          bonus: 50,
+          minLevel: "critical",
+        },
+        {
+          id: "persistent-backdoor",
+          description: "Persistence combined with a network channel",
+          groups: [["persistence", "dotfile-poisoning"], ["network", "reverse-shell"]],
+          bonus: 30,
+          minLevel: "high",
+        },
+        {
+          id: "undeclared-obfuscation",
+          description: "Obfuscated code doing more than the frontmatter declares",
+          groups: [["capability-mismatch"], ["obfuscation", "encoded"]],
+          bonus: 20,
+        },
+      ],
+    },
+    // Inventory only: no destination is reported until a list is configured
+    network: { allow: [], deny: [] },
+    timeouts: { fileMs: SCAN_FILE_TIMEOUT_MS, scanMs: SCAN_TIMEOUT_MS },
+  };
+}
+
+// ─── Read / Merge ────────────────────────────────────────────────────────────
+
+async function readScannerConfigFile(path: string): Promise<z.infer<typeof fileSchema> | null> {
+  try {
+    const raw = await readFile(path, "utf-8");
+    return fileSchema.parse(JSON.parse(raw));
+  } catch (err) {
+    if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    if (err instanceof z.ZodError) {
+      console.error(`[skillsync] Invalid scanner config ${path}, ignoring:`, err.issues);
+      return null;
+    }
+    if (err instanceof SyntaxError) {
+      console.error(`[skillsync] Unparseable scanner config ${path}, ignoring: ${err.message}`);
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Overlay a partial risk section. Weight maps merge key by key and
+ * combinations merge by id; thresholds that would no longer ascend are
+ * rejected as a whole.
+ */
+function mergeRiskModel(base: RiskModel, partial: NonNullable<z.infer<typeof fileSchema>["risk"]>, path: string): RiskModel {
+  const merged: RiskModel = {
+    severityWeights: { ...base.severityWeights, ...partial.severityWeights },
+    categoryWeights: { ...base.categoryWeights, ...partial.categoryWeights },
+    patternWeights: { ...base.patternWeights, ...partial.patternWeights },
+    encodedWeight: partial.encodedWeight ?? base.encodedWeight,
+    repeatDecay: partial.repeatDecay ?? base.repeatDecay,
+    thresholds: { ...base.thresholds, ...partial.thresholds },
+    combinations: [...base.combinations],
+  };
+  for (const combination of partial.combinations ?? []) {
+    const index = merged.combinations.findIndex((c) => c.id === combination.id);
+    if (index >= 0) merged.combinations[index] = combination;
+    else merged.combinations.push(combination);
+  }
+  const { low, medium, high, critical } = merged.thresholds;
+  if (!(low <= medium && medium <= high && high <= critical)) {
+    console.error(`[skillsync] Risk thresholds in ${path} must ascend (low <= medium <= high <= critical), ignoring them`);
+    merged.thresholds = base.thresholds;
+  }
+  return merged;
+}
+
+/**
+ * Overlay a partial network section. Lists accumulate, so a project config
+ * can extend the global allow and deny lists but not drop entries from them.
+ */
+function mergeNetworkPolicy(base: NetworkPolicy, partial: NonNullable<z.infer<typeof fileSchema>["network"]>): NetworkPolicy {
+  const merge = (a: string[], b: string[] = []): string[] => [...new Set([...a, ...b.map((d) => d.toLowerCase())])];
+  return { allow: merge(base.allow, partial.allow), deny: merge(base.deny, partial.deny) };
+}
+
+/**
+ * Scanner tuning from ~/.claude/skillsync-scanner.json, overridden field by
+ * field by <cwd>/.claude/skillsync-scanner.json. Both are optional.
+ */
+export async function loadScannerConfig(paths?: string[]): Promise<{ config: ScannerConfig; signature: string }> {
+  const files = paths ?? [...new Set([resolvePaths("global").scannerConfigPath, resolvePaths("project").scannerConfigPath])];
+  const config = defaultScannerConfig();
+  for (const path of files) {
+    const partial = await readScannerConfigFile(path);
+    if (partial?.entropy) {
+      config.entropy = { ...config.entropy, ...partial.entropy };
+    }
+    if (partial?.risk) {
+      config.risk = mergeRiskModel(config.risk, partial.risk, path);
+    }
+    if (partial?.network) {
+      config.network = mergeNetworkPolicy(config.network, partial.network);
+    }
+    if (partial?.timeouts) {
+      config.timeouts = { ...config.timeouts, ...partial.timeouts };
+    }
+  }
+  const signature = createHash("sha256").update(JSON.stringify(config)).digest("hex").substring(0, 16);
+  return { config, signature };
+}
@@ -1,6 +1,6 @@
 import { homedir } from "node:os";
 import { join, resolve } from "node:path";
-import { VALID_SKILL_NAME } from "./constants.js";
+import { VALID_SKILL_NAME, PATTERN_PACKS_DIRNAME, SUPPRESSIONS_FILENAME, SCANNER_CONFIG_FILENAME } from "./constants.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -11,6 +11,9 @@ export interface ResolvedPaths {
   skillsDir: string;
   syncConfigPath: string;
   syncLockPath: string;
+  patternPacksDir: string;
+  suppressionsPath: string;
+  scannerConfigPath: string;
   label: string;
 }
 
@@ -25,6 +28,9 @@ export function resolvePaths(scope: SkillScope): ResolvedPaths {
       skillsDir: join(base, "skills"),
       syncConfigPath: join(base, "skillsync.json"),
       syncLockPath: join(base, "skillsync.lock"),
+      patternPacksDir: join(base, PATTERN_PACKS_DIRNAME),
+      suppressionsPath: join(base, SUPPRESSIONS_FILENAME),
+      scannerConfigPath: join(base, SCANNER_CONFIG_FILENAME),
       label: `project (${cwd})`,
     };
   }
@@ -36,6 +42,9 @@ export function resolvePaths(scope: SkillScope): ResolvedPaths {
     skillsDir: join(base, "skills"),
     syncConfigPath: join(base, "skillsync.json"),
     syncLockPath: join(base, "skillsync.lock"),
+    patternPacksDir: join(base, PATTERN_PACKS_DIRNAME),
+    suppressionsPath: join(base, SUPPRESSIONS_FILENAME),
+    scannerConfigPath: join(base, SCANNER_CONFIG_FILENAME),
     label: "global (~/.claude/skills/)",
   };
 }
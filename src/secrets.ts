@@ -0,0 +1,139 @@
+import { shannonEntropy } from "./entropy.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SecretFinding {
+  pattern: string;   // "secret/<rule id>"
+  severity: "critical" | "warning";
+  description: string;  // names the provider; the secret itself is redacted
+  locations: Array<{ line: number; column: number }>;
+}
+
+interface SecretRule {
+  id: string;
+  label: string;
+  severity: "critical" | "warning";
+  /** Global regex; capture group 1 is the secret value. */
+  regex: RegExp;
+  /** Minimum Shannon entropy (bits/char) of the value — rejects placeholders. */
+  minEntropy: number;
+}
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+const SECRET_RULES: SecretRule[] = [
+  { id: "aws-access-key-id", label: "AWS access key ID", severity: "critical", minEntropy: 3, regex: /\b((?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16})\b/g },
+  { id: "aws-secret-access-key", label: "AWS secret access key", severity: "critical", minEntropy: 4, regex: /aws.{0,20}?(?:secret|private).{0,20}?['"=:\s]([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gi },
+  { id: "github-token", label: "GitHub token", severity: "critical", minEntropy: 3.5, regex: /\b(gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{60,255})\b/g },
+  { id: "slack-token", label: "Slack token", severity: "critical", minEntropy: 3, regex: /\b(xox[abposr]-[A-Za-z0-9-]{10,250})\b/g },
+  { id: "slack-webhook", label: "Slack webhook URL", severity: "critical", minEntropy: 3, regex: /(https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]{6,}\/B[A-Z0-9]{6,}\/[A-Za-z0-9]{20,})/g },
+  { id: "stripe-live-key", label: "Stripe live key", severity: "critical", minEntropy: 3.5, regex: /\b((?:sk|rk)_live_[A-Za-z0-9]{20,99})\b/g },
+  { id: "stripe-test-key", label: "Stripe test key", severity: "warning", minEntropy: 3.5, regex: /\b((?:sk|rk)_test_[A-Za-z0-9]{20,99})\b/g },
+  { id: "anthropic-api-key", label: "Anthropic API key", severity: "critical", minEntropy: 4, regex: /\b(sk-ant-(?:api|admin)\d{2}-[A-Za-z0-9_-]{80,120})/g },
+  { id: "openai-api-key", label: "OpenAI API key", severity: "critical", minEntropy: 4, regex: /\b(sk-(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,200}|sk-[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20})\b/g },
+  { id: "google-api-key", label: "Google API key", severity: "critical", minEntropy: 3.5, regex: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/g },
+  { id: "generic-secret", label: "credential assignment", severity: "warning", minEntropy: 3.5, regex: /(?:api[_-]?key|secret|token|passw(?:or)?d|auth)["']?\s*[:=]\s*["']([A-Za-z0-9_\-+/=.]{20,200})["']/gi },
+];
+
+// Documentation keys and obvious stand-ins are not leaks
+const PLACEHOLDER = /example|sample|dummy|placeholder|your[_-]|redacted|changeme|x{6,}|\*{4,}|0{8,}|(?:abc|123){3}/i;
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN ((?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?)-----/;
+const PRIVATE_KEY_END = /-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----/;
+const MIN_KEY_BODY = 64;           // base64 characters of key material
+const MAX_KEY_LINES = 200;         // how far a key body is followed
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+function isSecretValue(value: string, rule: SecretRule): boolean {
+  return !PLACEHOLDER.test(value) && shannonEntropy(value) >= rule.minEntropy;
+}
+
+/** Base64 key material between a BEGIN line and its END line, or null. */
+function privateKeyBody(lines: string[], begin: number): string | null {
+  let body = "";
+  for (let i = begin + 1; i < Math.min(lines.length, begin + MAX_KEY_LINES); i++) {
+    const line = lines[i].trim().replace(/^["'`]|["'`,;+]*$/g, "").replace(/\\n/g, "");
+    if (PRIVATE_KEY_END.test(line)) return body;
+    if (/^[A-Za-z-]+:\s/.test(line)) continue;  // "Proc-Type:" and similar headers
+    body += line;
+  }
+  return null;
+}
+
+/**
+ * Provider-specific API keys and tokens, PEM private keys with real key
+ * material, and high-entropy values assigned to secret-looking names. Each
+ * candidate must pass an entropy check, so placeholders and documentation
+ * examples are not reported. One finding per rule, listing every location.
+ */
+export function analyzeSecrets(lines: string[]): SecretFinding[] {
+  const found = new Map<string, SecretFinding>();
+  const add = (id: string, label: string, severity: SecretFinding["severity"], line: number, column: number): void => {
+    const pattern = `secret/${id}`;
+    const finding = found.get(pattern) ?? {
+      pattern,
+      severity,
+      description: `Hardcoded ${label} — the secret is exposed to anyone who installs the skill`,
+      locations: [],
+    };
+    finding.locations.push({ line, column });
+    found.set(pattern, finding);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const begin = PRIVATE_KEY_BEGIN.exec(line);
+    if (begin) {
+      const body = privateKeyBody(lines, i);
+      if (body && body.length >= MIN_KEY_BODY && /^[A-Za-z0-9+/=]+$/.test(body) && shannonEntropy(body) >= 4.5) {
+        add("private-key", begin[1].toLowerCase(), "critical", i + 1, begin.index + 1);
+      }
+    }
+    // Provider rules come first; a value they matched is not reported again as generic
+    const reported: string[] = [];
+    for (const rule of SECRET_RULES) {
+      for (const match of line.matchAll(rule.regex)) {
+        if (!isSecretValue(match[1], rule) || reported.some((v) => v.includes(match[1]) || match[1].includes(v))) continue;
+        reported.push(match[1]);
+        add(rule.id, rule.label, rule.severity, i + 1, (match.index ?? 0) + match[0].indexOf(match[1]) + 1);
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+// ─── Redaction ───────────────────────────────────────────────────────────────
+
+const REDACTED = "[REDACTED]";
+
+function redactValue(value: string): string {
+  return `${value.substring(0, 4)}…${REDACTED}`;
+}
+
+/**
+ * Whether `index` is a line of key material inside a PEM private key block.
+ * The BEGIN and END lines themselves carry nothing secret.
+ */
+function insidePrivateKey(lines: string[], index: number): boolean {
+  if (PRIVATE_KEY_BEGIN.test(lines[index]) || PRIVATE_KEY_END.test(lines[index])) return false;
+  for (let i = index - 1; i >= Math.max(0, index - MAX_KEY_LINES); i--) {
+    if (PRIVATE_KEY_END.test(lines[i])) return false;
+    if (PRIVATE_KEY_BEGIN.test(lines[i])) return true;
+  }
+  return false;
+}
+
+/**
+ * Line `index` with every secret-shaped value masked — key material, tokens
+ * and credential assignments, whether or not they passed the entropy check.
+ * Used for every snippet shown to a user or written to a report.
+ */
+export function redactSecretsInLine(lines: string[], index: number): string {
+  if (insidePrivateKey(lines, index)) return REDACTED;
+  let line = lines[index];
+  for (const rule of SECRET_RULES) {
+    line = line.replace(rule.regex, (match: string, value: string) => match.replace(value, redactValue(value)));
+  }
+  return line;
+}
@@ -3,28 +3,75 @@ import {
   CRITICAL_PATTERNS,
   CRITICAL_MULTILINE_PATTERNS,
   WARNING_PATTERNS,
+  LANGUAGE_PATTERNS,
+  type ThreatPattern,
 } from "./patterns.js";
 import {
   MAX_FILES,
-  MAX_FILE_SIZE,
   MAX_TOTAL_SIZE,
   MAX_LINE_LENGTH,
   ALLOWED_GITHUB_HOSTS,
-  BINARY_EXTENSIONS,
-  SUSPICIOUS_FILENAMES,
-  TEXT_EXTENSIONS,
   SCAN_CACHE_TTL_MS,
   SCAN_CACHE_MAX_ENTRIES,
+  SNIPPET_CONTEXT_LINES,
+  MAX_SNIPPET_LINE_LENGTH,
+  MAX_THREAT_LOCATIONS,
+  MAX_DECODE_DEPTH,
+  PYTHON_VENV_DIRNAME,
 } from "./constants.js";
+import { sanitizeText } from "./sanitize.js";
+import { fetchSkillSnapshot, GitHubFetchError, type SkillSnapshot } from "./github-source.js";
+import { loadPatternPacks, customPatterns, patternAppliesTo } from "./pattern-packs.js";
+import { loadSuppressions, applySuppressions, type Suppression } from "./suppressions.js";
+import { extractEncodedPayloads, newDecodeBudget, type DecodeBudget } from "./payload-decoder.js";
+import { analyzeObfuscation } from "./entropy.js";
+import { analyzeSecrets, redactSecretsInLine } from "./secrets.js";
+import { analyzeJavaScript, type JsFinding } from "./js-analyzer.js";
+import { analyzeShell, type ShellFinding } from "./shell-analyzer.js";
+import { parseMarkdown, analyzeMarkdown, type MarkdownContext } from "./markdown.js";
+import { detectLanguage, type Language } from "./languages.js";
+import { normalizeForMatching } from "./confusables.js";
+import { loadScannerConfig, defaultScannerConfig, type EntropyThresholds, type RiskModel, type ScanTimeouts } from "./scanner-config.js";
+import { assessRisk, type RiskAssessment, type RiskFactor } from "./risk-score.js";
+import { skillMetadataFromFiles, type SkillMetadata } from "./skill-metadata.js";
+import { buildCapabilityProfile, capabilityMismatchThreat, type CapabilityProfile } from "./capabilities.js";
+import { sniffText, fileTypeThreats, type SniffedFile } from "./file-type.js";
+import { inspectArchive, type ArchiveBytes, type ArchiveListing, type ScanBudget } from "./archive.js";
+import { analyzeNpmManifest } from "./npm-manifest.js";
+import { analyzePythonManifest } from "./python-manifest.js";
+import { buildNetworkInventory, destinationThreats, type NetworkDestination, type NetworkPolicy } from "./network-inventory.js";
+import { getScanPool, type ScanOutcome } from "./scan-pool.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
+export interface ThreatLocation {
+  line: number;
+  column: number;
+}
+
+export interface ThreatSuppression {
+  reason: string;
+  reviewer: string;
+  expires?: string;
+}
+
 export interface Threat {
   pattern: string;
   severity: "warning" | "critical";
   description: string;
-  line?: number;
+  file?: string;         // path relative to the skill root
+  line?: number;         // first occurrence, 1-based
+  column?: number;       // first occurrence, 1-based
+  occurrences?: number;  // total matches of this pattern in the file
+  locations?: ThreatLocation[];  // every occurrence, capped at MAX_THREAT_LOCATIONS
+  snippet?: string;      // sanitized excerpt around the first occurrence
   category: string;
+  language?: Language;   // language the file was scanned as, by extension or shebang
+  context?: MarkdownContext;  // Markdown only: prose, fenced code, HTML comment or link target
+  encoding?: string;     // set when found inside a decoded payload, e.g. "base64" or "base64>hex"
+  score?: number;        // measured value for statistical findings (entropy, ratios)
+  fingerprint?: string;  // pattern + file + skill content hash, used to suppress
+  suppression?: ThreatSuppression;  // accepted false positive — excluded from risk
 }
 
 export interface ScanResult {
@@ -33,6 +80,12 @@ export interface ScanResult {
   threats: Threat[];
   recommendation: string;
   contentHash: string;
+  capabilities?: CapabilityProfile;  // what the code does vs. what SKILL.md declares
+  riskScore?: number;                // weighted score behind riskLevel (see risk-score.ts)
+  riskFactors?: RiskFactor[];        // what the score is made of, largest first
+  executables?: SniffedFile[];       // native executables and #! scripts, by content
+  archives?: ArchiveListing[];       // zip/tar contents, scanned as "archive.zip!/inner/path"
+  destinations?: NetworkDestination[];  // every host the files reference, classified
 }
 
 export interface FetchScanResult extends ScanResult {
@@ -40,6 +93,18 @@ export interface FetchScanResult extends ScanResult {
   skippedBinary: string[];
   skippedSuspicious: string[];
   errors: string[];
+  commitSha?: string;  // commit the scanned snapshot was fetched from
+  metadata?: SkillMetadata;  // SKILL.md frontmatter, checked against the inferred skill name
+}
+
+export interface ScanOptions {
+  file?: string;  // attributed to every threat found in the content
+  extraPatterns?: ThreatPattern[];  // custom pack patterns, applied after the built-ins
+  suppressions?: Suppression[];     // accepted false positives, matched by fingerprint
+  entropy?: EntropyThresholds;      // obfuscation pass tuning; defaults when absent
+  risk?: RiskModel;                 // scoring weights and thresholds; defaults when absent
+  network?: NetworkPolicy;          // allow/deny domain lists; destinations are only listed when absent
+  timeouts?: ScanTimeouts;          // worker time budgets; defaults when absent
 }
 
 // ─── Content Scanner ─────────────────────────────────────────────────────────
@@ -48,91 +113,553 @@ function computeHash(content: string): string {
   return createHash("sha256").update(content).digest("hex");
 }
 
-export function scanSkillContent(content: string): ScanResult {
+/**
+ * Excerpt of the lines around a match, with line numbers and a ">" marker
+ * on the matching line. Sanitized because it is echoed into tool output,
+ * and any secret on the shown lines is redacted.
+ */
+function buildSnippet(lines: string[], index: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT_LINES);
+  const end = Math.min(lines.length - 1, index + SNIPPET_CONTEXT_LINES);
+  const width = String(end + 1).length;
+  const out: string[] = [];
+  for (let i = start; i <= end; i++) {
+    let text = redactSecretsInLine(lines, i).replace(/\r$/, "");
+    if (text.length > MAX_SNIPPET_LINE_LENGTH) {
+      text = text.substring(0, MAX_SNIPPET_LINE_LENGTH) + "…";
+    }
+    const marker = i === index ? ">" : " ";
+    out.push(`${marker} ${String(i + 1).padStart(width)} | ${text}`);
+  }
+  // Neutralize backtick fences so the snippet cannot break out of a code block
+  return sanitizeText(out.join("\n")).replace(/`{3,}/g, (m) => "'".repeat(m.length));
+}
+
+function lineAndColumn(content: string, offset: number): ThreatLocation {
+  const before = content.substring(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+}
+
+function locatedThreat(
+  base: Omit<Threat, "line" | "column" | "occurrences" | "locations" | "snippet">,
+  locations: ThreatLocation[],
+  occurrences: number,
+  lines: string[],
+): Threat {
+  const first = locations[0];
+  return {
+    ...base,
+    line: first.line,
+    column: first.column,
+    occurrences,
+    locations: locations.slice(0, MAX_THREAT_LOCATIONS),
+    snippet: buildSnippet(lines, first.line - 1),
+  };
+}
+
+export function scanSkillContent(content: string, options: ScanOptions = {}): ScanResult {
+  const threats = findThreats(content, options);
+  const contentHash = computeHash(content);
+  return buildResult(applySuppressions(threats, contentHash, options.suppressions), contentHash, options.risk);
+}
+
+/** State for scanning decoded payloads; absent for the file itself. */
+interface DecodeContext {
+  depth: number;
+  chain: string;         // encodings followed so far, outermost first
+  budget: DecodeBudget;
+}
+
+function findThreats(content: string, options: ScanOptions, decode?: DecodeContext): Threat[] {
   const threats: Threat[] = [];
   const lines = content.split("\n");
+  const file = options.file;
+
+  // Lines too long to regex safely are flagged instead of scanned (ReDoS protection).
+  // Not flagged inside decoded payloads, whose line structure is the attacker's choice.
+  const longLines: ThreatLocation[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].length > MAX_LINE_LENGTH) longLines.push({ line: i + 1, column: 1 });
+  }
+  if (longLines.length > 0 && !decode) {
+    threats.push(locatedThreat({
+      pattern: "excessive-line-length",
+      severity: "warning",
+      description: `Line is ${lines[longLines[0].line - 1].length} chars — may hide obfuscated content`,
+      category: "obfuscation",
+      file,
+    }, longLines, longLines.length, lines));
+  }
+
+  // Statistical obfuscation pass over the file itself (decoded payloads are already suspect)
+  if (!decode) {
+    const thresholds = options.entropy ?? defaultScannerConfig().entropy;
+    for (const finding of analyzeObfuscation(lines, file, thresholds)) {
+      threats.push({
+        ...locatedThreat({
+          pattern: finding.pattern,
+          severity: "warning",
+          description: finding.description,
+          category: "obfuscation",
+          file,
+        }, finding.locations, finding.locations.length, lines),
+        score: finding.score,
+      });
+    }
+  }
+
+  // Hardcoded secrets leak wherever they appear, prose and decoded payloads included
+  for (const finding of analyzeSecrets(lines)) {
+    threats.push(locatedThreat({
+      pattern: finding.pattern,
+      severity: finding.severity,
+      description: finding.description,
+      category: "secret-leak",
+      file,
+    }, finding.locations, finding.locations.length, lines));
+  }
 
-  // Per-line scanning with ReDoS protection
-  for (const patterns of [CRITICAL_PATTERNS, WARNING_PATTERNS]) {
+  // Rule sets are routed by language. Decoded payloads can be in any
+  // language, so they are checked against everything, like documents.
+  // Markdown fenced code blocks are routed as their declared language.
+  const language = detectLanguage(file, content);
+  const routedAs: Language = decode ? "text" : language;
+  const markdown = !decode && language === "markdown" ? parseMarkdown(content) : undefined;
+  const lineLanguages = markdown?.lineLanguages;
+  const routes = new Set(lineLanguages ?? [routedAs]);
+  const applies = (p: ThreatPattern) => patternAppliesTo(p, file, routedAs);
+  const extra = (options.extraPatterns ?? []).filter((p) => patternAppliesTo(p, file));
+
+  // Look-alike spellings (fullwidth, homoglyphs, invisible separators) are
+  // matched on a normalized copy and reported at the raw line and column
+  const normalized = lines.map((l) => (l.length > MAX_LINE_LENGTH ? null : normalizeForMatching(l)));
+
+  // Per-line scanning, one threat per pattern with every occurrence located
+  for (const patterns of [CRITICAL_PATTERNS, WARNING_PATTERNS, LANGUAGE_PATTERNS, extra.filter((p) => !p.multiline)]) {
     for (const pattern of patterns) {
+      const on = [...routes].filter((l) => patternAppliesTo(pattern, file, l));
+      if (on.length === 0) continue;
+      const everyLine = on.length === routes.size;
+      const locations: ThreatLocation[] = [];
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        if (line.length > MAX_LINE_LENGTH) {
-          const alreadyFlagged = threats.some(
-            (t) => t.category === "obfuscation" && t.line === i + 1
-          );
-          if (!alreadyFlagged) {
-            threats.push({
-              pattern: "excessive-line-length",
-              severity: "warning",
-              description: `Line is ${line.length} chars — may hide obfuscated content`,
-              line: i + 1,
-              category: "obfuscation",
-            });
-          }
-          continue; // skip regex on long lines to prevent ReDoS
-        }
-        if (pattern.regex.test(line)) {
-          const alreadyFound = threats.some(
-            (t) =>
-              t.pattern === pattern.regex.source &&
-              t.severity === pattern.severity
-          );
-          if (!alreadyFound) {
-            threats.push({
-              pattern: pattern.regex.source,
-              severity: pattern.severity,
-              description: pattern.description,
-              line: i + 1,
-              category: pattern.category,
-            });
-          }
+        if (line.length > MAX_LINE_LENGTH) continue;
+        if (!everyLine && !on.includes(lineLanguages?.[i] ?? routedAs)) continue;
+        let column = line.search(pattern.regex);
+        const folded = normalized[i];
+        if (column < 0 && folded) {
+          const at = folded.text.search(pattern.regex);
+          if (at >= 0) column = folded.offsets[at];
         }
+        if (column >= 0) locations.push({ line: i + 1, column: column + 1 });
+      }
+      if (locations.length > 0) {
+        threats.push(locatedThreat({
+          pattern: pattern.id ?? pattern.regex.source,
+          severity: pattern.severity,
+          description: pattern.description,
+          category: pattern.category,
+          file,
+        }, locations, locations.length, lines));
       }
     }
   }
 
   // Multi-line patterns (full content, capped at 500KB)
   const cappedContent = content.length > 512_000 ? content.substring(0, 512_000) : content;
-  for (const pattern of CRITICAL_MULTILINE_PATTERNS) {
-    if (pattern.regex.test(cappedContent)) {
-      threats.push({
-        pattern: pattern.regex.source,
+  const foldedContent = normalizeForMatching(cappedContent);
+  for (const pattern of [...CRITICAL_MULTILINE_PATTERNS, ...extra.filter((p) => p.multiline && applies(p))]) {
+    const global = new RegExp(pattern.regex.source, pattern.regex.flags.replace("g", "") + "g");
+    const starts = new Set<number>();
+    for (const match of cappedContent.matchAll(global)) starts.add(match.index ?? 0);
+    if (foldedContent) {
+      for (const match of foldedContent.text.matchAll(global)) starts.add(foldedContent.offsets[match.index ?? 0]);
+    }
+    const locations = [...starts].sort((a, b) => a - b).map((offset) => lineAndColumn(cappedContent, offset));
+    if (locations.length > 0) {
+      threats.push(locatedThreat({
+        pattern: pattern.id ?? pattern.regex.source,
         severity: pattern.severity,
         description: pattern.description,
         category: pattern.category,
-      });
+        file,
+      }, locations, locations.length, lines));
+    }
+  }
+
+  // AST pass for JS/TS: resolves aliases and folded names the regexes cannot see
+  if (!decode && file && language === "javascript") {
+    threats.push(...findJavaScriptThreats([{ content, parseAs: file, lineOffset: 0 }], file, lines, threats));
+  }
+  // Tokenizer pass for shell: variable indirection, continuations, substitutions
+  if (!decode && file && language === "shell") {
+    threats.push(...findShellThreats([{ content, lineOffset: 0 }], file, lines, threats));
+  }
+  if (markdown && file) {
+    const sources = markdown.blocks
+      .filter((b) => b.language === "javascript")
+      .map((b) => ({ content: b.content, parseAs: `${file}${b.ext}`, lineOffset: b.startLine - 1, partial: true }));
+    threats.push(...findJavaScriptThreats(sources, file, lines, threats));
+    const scripts = markdown.blocks
+      .filter((b) => b.language === "shell")
+      .map((b) => ({ content: b.content, lineOffset: b.startLine - 1 }));
+    threats.push(...findShellThreats(scripts, file, lines, threats));
+    for (const finding of analyzeMarkdown(content, markdown)) {
+      threats.push(locatedThreat({
+        pattern: finding.pattern,
+        severity: finding.severity,
+        description: finding.description,
+        category: finding.category,
+        file,
+      }, finding.locations, finding.locations.length, lines));
+    }
+  }
+
+  if (decode) {
+    for (const threat of threats) {
+      threat.pattern = `${decode.chain}:${threat.pattern}`;
+      threat.description = `Encoded payload (${decode.chain}): ${threat.description}`;
+      threat.encoding = decode.chain;
     }
   }
 
-  return buildResult(threats, content);
+  // Encoded literals: decode, rescan and report at the literal's location
+  const depth = decode?.depth ?? 0;
+  if (depth < MAX_DECODE_DEPTH) {
+    threats.push(...findEncodedThreats(content, lines, options, {
+      depth,
+      chain: decode?.chain ?? "",
+      budget: decode?.budget ?? newDecodeBudget(),
+    }));
+  }
+
+  if (file) {
+    for (const threat of threats) {
+      threat.language = language;
+      if (markdown && threat.line !== undefined) {
+        threat.language = markdown.lineLanguages[threat.line - 1] ?? language;
+        threat.context = markdown.contextAt(threat.line, threat.column ?? 1);
+      }
+    }
+  }
+  return threats;
 }
 
-function buildResult(threats: Threat[], content: string): ScanResult {
-  const criticalCount = threats.filter((t) => t.severity === "critical").length;
-  const warningCount = threats.filter((t) => t.severity === "warning").length;
+/** JS/TS source for the AST pass: a whole file, or a fenced block inside Markdown. */
+interface JavaScriptSource {
+  content: string;
+  parseAs: string;     // path whose extension selects the parser plugins
+  lineOffset: number;  // added to every finding's line
+  partial?: boolean;   // documentation snippet — parse failures are expected, not reported
+}
 
-  let riskLevel: ScanResult["riskLevel"];
-  if (criticalCount > 0) riskLevel = "critical";
-  else if (warningCount >= 5) riskLevel = "high";
-  else if (warningCount >= 3) riskLevel = "medium";
-  else if (warningCount >= 1) riskLevel = "low";
-  else riskLevel = "safe";
+/**
+ * AST findings for JS/TS sources, one threat per pattern across all of them.
+ * A plain (non-obfuscated) sink call on a line where a regex pattern of the
+ * same category already matched is dropped, so each call site is counted once.
+ */
+function findJavaScriptThreats(sources: JavaScriptSource[], file: string, lines: string[], regexThreats: Threat[]): Threat[] {
+  const covered = coveredLines(regexThreats);
+  const threats: Threat[] = [];
+  const byPattern = new Map<string, { finding: JsFinding; locations: ThreatLocation[] }>();
+  for (const source of sources) {
+    const findings = analyzeJavaScript(source.content, source.parseAs);
+    if (!findings) {
+      if (!source.partial) {
+        threats.push({
+          pattern: "js/parse-error",
+          severity: "warning",
+          description: "Could not parse as JavaScript/TypeScript — call-level analysis skipped",
+          category: "obfuscation",
+          file,
+        });
+      }
+      continue;
+    }
+    for (const finding of findings) {
+      const locations = finding.locations
+        .map((loc) => ({ line: loc.line + source.lineOffset, column: loc.column }))
+        .filter((loc) => finding.obfuscated || !covered.has(`${finding.category}:${loc.line}`));
+      if (locations.length === 0) continue;
+      const entry = byPattern.get(finding.pattern);
+      if (entry) entry.locations.push(...locations);
+      else byPattern.set(finding.pattern, { finding, locations });
+    }
+  }
 
-  // Stricter safe flag: warnings >= 3 means NOT safe
-  const safe = criticalCount === 0 && warningCount < 3;
+  for (const { finding, locations } of byPattern.values()) {
+    threats.push(locatedThreat({
+      pattern: finding.pattern,
+      severity: finding.severity,
+      description: finding.description,
+      category: finding.category,
+      file,
+    }, locations, locations.length, lines));
+  }
+  return threats;
+}
+
+/** "category:line" keys of every location already reported, for de-duplicating the analyzer passes. */
+function coveredLines(threats: Threat[]): Set<string> {
+  const covered = new Set<string>();
+  for (const threat of threats) {
+    for (const loc of threat.locations ?? []) covered.add(`${threat.category}:${loc.line}`);
+  }
+  return covered;
+}
+
+/**
+ * Tokenizer findings for shell scripts and shell fences, one threat per
+ * pattern. A download-to-interpreter already matched by a regex pattern on
+ * the same line is not reported again.
+ */
+function findShellThreats(sources: Array<{ content: string; lineOffset: number }>, file: string, lines: string[], regexThreats: Threat[]): Threat[] {
+  const covered = coveredLines(regexThreats);
+  const byPattern = new Map<string, { finding: ShellFinding; locations: ThreatLocation[] }>();
+  for (const source of sources) {
+    for (const finding of analyzeShell(source.content)) {
+      const locations = finding.locations
+        .map((loc) => ({ line: loc.line + source.lineOffset, column: loc.column }))
+        .filter((loc) => !covered.has(`${finding.category}:${loc.line}`));
+      if (locations.length === 0) continue;
+      const entry = byPattern.get(finding.pattern);
+      if (entry) entry.locations.push(...locations);
+      else byPattern.set(finding.pattern, { finding, locations });
+    }
+  }
+  return [...byPattern.values()].map(({ finding, locations }) => locatedThreat({
+    pattern: finding.pattern,
+    severity: finding.severity,
+    description: finding.description,
+    category: finding.category,
+    file,
+  }, locations, locations.length, lines));
+}
+
+/**
+ * Rescan every decoded payload in the content. Findings inside a payload are
+ * attributed to the encoded literal in this content, one threat per pattern,
+ * with each containing literal counted as an occurrence.
+ */
+function findEncodedThreats(content: string, lines: string[], options: ScanOptions, ctx: DecodeContext): Threat[] {
+  const byPattern = new Map<string, { threat: Threat; locations: ThreatLocation[] }>();
+  for (const payload of extractEncodedPayloads(content, ctx.budget)) {
+    const at = lineAndColumn(content, payload.offset);
+    const inner = findThreats(payload.decoded, options, {
+      depth: ctx.depth + 1,
+      chain: ctx.chain ? `${ctx.chain}>${payload.encoding}` : payload.encoding,
+      budget: ctx.budget,
+    });
+    for (const threat of inner) {
+      const entry = byPattern.get(threat.pattern);
+      if (entry) entry.locations.push(at);
+      else byPattern.set(threat.pattern, { threat, locations: [at] });
+    }
+  }
+
+  return [...byPattern.values()].map(({ threat, locations }) => locatedThreat({
+    pattern: threat.pattern,
+    severity: threat.severity,
+    description: threat.description,
+    category: threat.category,
+    file: options.file,
+    encoding: threat.encoding,
+  }, locations, locations.length, lines));
+}
+
+/** Files to scan once archive members are unpacked, and what unpacking found. */
+interface ScanTargets {
+  threats: Threat[];
+  scanned: Array<{ path: string; content: string }>;
+  unreadable: SniffedFile[];
+  listings: ArchiveListing[];
+}
+
+function collectScanTargets(
+  files: Array<{ path: string; content: string }>,
+  binaries: SniffedFile[],
+  archives: ArchiveBytes[],
+): ScanTargets {
+  const targets: ScanTargets = { threats: [], scanned: [...files], unreadable: [...binaries], listings: [] };
+  // Members count against what the skill's own files and archives already used
+  const budget: ScanBudget = {
+    files: MAX_FILES - files.length - binaries.length,
+    bytes: MAX_TOTAL_SIZE
+      - files.reduce((sum, f) => sum + Buffer.byteLength(f.content), 0)
+      - archives.reduce((sum, a) => sum + a.bytes.length, 0),
+  };
+  for (const archive of archives) {
+    const contents = inspectArchive(archive.path, archive.bytes, budget);
+    if (!contents) continue;
+    targets.listings.push(contents.listing);
+    targets.threats.push(...contents.threats);
+    targets.scanned.push(...contents.files);
+    targets.unreadable.push(...contents.binaries);
+  }
+  return targets;
+}
+
+/**
+ * Threats from the pattern, entropy and analyzer passes over one text file,
+ * before suppressions. This is the work a scan worker runs, since it is
+ * where user-supplied patterns execute.
+ */
+export function findFileThreats(path: string, content: string, options: Omit<ScanOptions, "file"> = {}): Threat[] {
+  return findThreats(content, { ...options, file: path });
+}
+
+/**
+ * Combine per-file results into the skill's result. `fileThreats[i]` holds
+ * the findFileThreats output for `targets.scanned[i]`.
+ */
+function assembleScanResult(
+  files: Array<{ path: string; content: string }>,
+  options: Omit<ScanOptions, "file">,
+  targets: ScanTargets,
+  fileThreats: Threat[][],
+): ScanResult {
+  const { scanned, unreadable, listings } = targets;
+  const threats = [...targets.threats];
+  const executables: SniffedFile[] = [];
+  const inspected = new Set(listings.map((l) => l.path));
+
+  scanned.forEach((file, i) => {
+    const type = sniffText(file.content);
+    if (type.kind === "script") executables.push({ path: file.path, type });
+    threats.push(...fileTypeThreats(file.path, type));
+    threats.push(...analyzeNpmManifest(file.path, file.content));
+    threats.push(...analyzePythonManifest(file.path, file.content));
+    threats.push(...fileThreats[i]);
+  });
+  for (const binary of unreadable) {
+    if (binary.type.kind === "executable") executables.push(binary);
+    // An archive whose members were scanned is no longer opaque
+    const found = fileTypeThreats(binary.path, binary.type);
+    threats.push(...(inspected.has(binary.path) ? found.filter((t) => t.pattern !== "binary-file") : found));
+  }
+  executables.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  const destinations = buildNetworkInventory(scanned);
+  threats.push(...destinationThreats(destinations, options.network));
+
+  const contentHash = computeContentHash(files);
+  applySuppressions(threats, contentHash, options.suppressions);
+
+  const capabilities = buildCapabilityProfile(threats, scanned, skillMetadataFromFiles(files));
+  const skillMd = files.find((f) => f.path.toLowerCase() === "skill.md");
+  const mismatch = capabilityMismatchThreat(capabilities, skillMd?.path);
+  if (mismatch) {
+    threats.push(...applySuppressions([mismatch], contentHash, options.suppressions));
+  }
+  return { ...buildResult(threats, contentHash, options.risk), capabilities, executables, archives: listings, destinations };
+}
+
+/**
+ * Scan each file on its own, so every threat is attributed to a real file
+ * and line, then combine into a single result for the skill and compare
+ * what the code does with what SKILL.md declares. `binaries` are files that
+ * could not be read as text; only their detected type is checked, unless
+ * their bytes are in `archives` and the members can be unpacked and scanned.
+ * npm and Python manifests are checked for risky dependencies, and every
+ * host the files reference is inventoried and checked against the network
+ * policy.
+ *
+ * Runs on the calling thread with no time limit; the server scans through
+ * scanSkillFilesInWorkers instead.
+ */
+export function scanSkillFiles(
+  files: Array<{ path: string; content: string }>,
+  options: Omit<ScanOptions, "file"> = {},
+  binaries: SniffedFile[] = [],
+  archives: ArchiveBytes[] = [],
+): ScanResult {
+  const targets = collectScanTargets(files, binaries, archives);
+  const found = targets.scanned.map((file) => findFileThreats(file.path, file.content, options));
+  return assembleScanResult(files, options, targets, found);
+}
+
+function incompleteScanThreat(path: string, outcome: Exclude<ScanOutcome, { status: "done" }>, timeouts: ScanTimeouts): Threat {
+  let description: string;
+  if (outcome.status === "failed") {
+    description = `Scanning failed (${outcome.error}) — file was not fully checked`;
+  } else {
+    description = outcome.budget === "file"
+      ? `Scanning stopped after ${timeouts.fileMs / 1000}s — file was not fully checked`
+      : `Skill scan budget (${timeouts.scanMs / 1000}s) ran out — file was not fully checked`;
+  }
+  return {
+    pattern: outcome.status === "failed" ? "scan-error" : "scan-timeout",
+    severity: "warning",
+    description: sanitizeText(description),
+    category: "incomplete-scan",
+    file: path,
+  };
+}
+
+/**
+ * scanSkillFiles with the per-file passes run in the scan worker pool, so a
+ * catastrophically backtracking pattern cannot block the event loop. A file
+ * that overruns `options.timeouts.fileMs`, or is not done when the skill's
+ * `scanMs` runs out, gets a scan-timeout finding in place of its results;
+ * one whose scan throws or crashes its worker gets a scan-error finding.
+ */
+export async function scanSkillFilesInWorkers(
+  files: Array<{ path: string; content: string }>,
+  options: Omit<ScanOptions, "file"> = {},
+  binaries: SniffedFile[] = [],
+  archives: ArchiveBytes[] = [],
+): Promise<ScanResult> {
+  const targets = collectScanTargets(files, binaries, archives);
+  const timeouts = options.timeouts ?? defaultScannerConfig().timeouts;
+  const outcomes = await getScanPool().run(targets.scanned.map((file) => ({
+    path: file.path,
+    content: file.content,
+    extraPatterns: options.extraPatterns,
+    entropy: options.entropy,
+  })), timeouts);
+  const found = outcomes.map((outcome, i) => outcome.status === "done"
+    ? outcome.threats
+    : [incompleteScanThreat(targets.scanned[i].path, outcome, timeouts)]);
+  return assembleScanResult(files, options, targets, found);
+}
+
+/** "path:line:col" for a threat, or as much of it as is known. */
+export function formatThreatLocation(threat: Threat): string {
+  const parts: string[] = [];
+  if (threat.file) parts.push(threat.file);
+  if (threat.line !== undefined) {
+    parts.push(threat.column !== undefined ? `${threat.line}:${threat.column}` : String(threat.line));
+  }
+  return parts.join(":");
+}
+
+/** Severity counts over the threats that still count toward risk. */
+function countActive(threats: Threat[]): { criticalCount: number; warningCount: number } {
+  const active = threats.filter((t) => !t.suppression);
+  return {
+    criticalCount: active.filter((t) => t.severity === "critical").length,
+    warningCount: active.filter((t) => t.severity === "warning").length,
+  };
+}
+
+/** Score the threats and derive the risk level, safe flag and recommendation. */
+function buildResult(threats: Threat[], contentHash: string, risk?: RiskModel, filesScanned?: number): ScanResult {
+  const { criticalCount, warningCount } = countActive(threats);
+  const assessment = assessRisk(threats, risk);
 
   return {
-    safe,
-    riskLevel,
+    safe: assessment.safe,
+    riskLevel: assessment.riskLevel,
     threats,
-    recommendation: buildRecommendation(riskLevel, criticalCount, warningCount),
-    contentHash: computeHash(content),
+    recommendation: buildRecommendation(assessment, criticalCount, warningCount, filesScanned),
+    contentHash,
+    riskScore: assessment.score,
+    riskFactors: assessment.factors,
   };
 }
 
 function buildRecommendation(
-  riskLevel: ScanResult["riskLevel"],
+  { riskLevel, score }: RiskAssessment,
   criticalCount: number,
   warningCount: number,
   filesScanned?: number
@@ -140,6 +667,9 @@ function buildRecommendation(
   const suffix = filesScanned !== undefined ? ` across ${filesScanned} files` : "";
   switch (riskLevel) {
     case "critical":
+      if (criticalCount === 0) {
+        return `BLOCKED: ${warningCount} finding(s) combine into a critical risk (score ${score})${suffix}. Do NOT install this skill.`;
+      }
       return `BLOCKED: ${criticalCount} critical threat(s) found${suffix}. Do NOT install this skill.`;
     case "high":
       return `HIGH RISK: ${warningCount} suspicious patterns detected${suffix}. Manual review strongly recommended.`;
@@ -159,8 +689,11 @@ export interface ParsedGitHubUrl {
   repo: string;
   ref: string;
   path: string;
+  pinned: boolean;  // ref is a full commit SHA (immutable source)
 }
 
+const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+
 export function validateGithubUrl(url: string): ParsedGitHubUrl | null {
   let parsed: URL;
   try {
@@ -178,7 +711,15 @@ export function validateGithubUrl(url: string): ParsedGitHubUrl | null {
   );
   if (!match) return null;
 
-  return { owner: match[1], repo: match[2], ref: match[3], path: match[4] };
+  const ref = match[3];
+  const pinned = COMMIT_SHA.test(ref);
+  return {
+    owner: match[1],
+    repo: match[2],
+    ref: pinned ? ref.toLowerCase() : ref,
+    path: match[4],
+    pinned,
+  };
 }
 
 // ─── Scan Cache ─────────────────────────────────────────────────────────────
@@ -190,8 +731,10 @@ interface CachedScan {
 
 const scanCache = new Map<string, CachedScan>();
 
-function normalizeCacheKey(url: string): string {
-  return url.trim().replace(/\/+$/, "").toLowerCase();
+// Keyed by URL and scan policy signature, so editing a pattern pack or a
+// suppression invalidates the cached verdict
+function normalizeCacheKey(url: string, policySignature: string): string {
+  return `${url.trim().replace(/\/+$/, "").toLowerCase()}#${policySignature}`;
 }
 
 function evictExpiredEntries(): void {
@@ -230,226 +773,261 @@ export function getScanCacheStats(): { size: number; maxSize: number; ttlMs: num
 
 // ─── GitHub Fetch + Scan ─────────────────────────────────────────────────────
 
-const ALLOWED_DOWNLOAD_HOSTS = new Set([
-  "raw.githubusercontent.com",
-  "github.com",
-  "objects.githubusercontent.com",
-]);
+const FILE_BOUNDARY = "\n---FILE-BOUNDARY---\n";
 
-export async function fetchAndScanSkill(githubUrl: string): Promise<FetchScanResult> {
-  // ── Cache lookup ──
-  const cacheKey = normalizeCacheKey(githubUrl);
-  evictExpiredEntries();
-  const cached = scanCache.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp <= SCAN_CACHE_TTL_MS) {
-    return cached.result;
-  }
+/**
+ * Combined hash over a skill's files, in path order. Each file contributes
+ * its path as well as its content, so renaming or moving a file changes the
+ * hash. Shared by the remote scanner, the installer and the local registry
+ * so the hashes are comparable.
+ */
+export function computeContentHash(files: Array<{ path: string; content: string }>): string {
+  return computeHash(files.map((f) => `${f.path}\0${f.content}`).join(FILE_BOUNDARY));
+}
 
-  function cacheAndReturn(result: FetchScanResult): FetchScanResult {
-    scanCache.set(cacheKey, { result, timestamp: Date.now() });
-    evictOldestIfNeeded();
-    return result;
-  }
+/**
+ * Load the user's scan policy — custom pattern packs, suppressions and
+ * scanner tuning — as scan options, plus a signature that changes with any of them.
+ */
+export async function loadScanOptions(): Promise<{ options: Omit<ScanOptions, "file">; signature: string }> {
+  const [packs, suppressions, scanner] = await Promise.all([loadPatternPacks(), loadSuppressions(), loadScannerConfig()]);
+  return {
+    options: {
+      extraPatterns: customPatterns(packs),
+      suppressions: suppressions.suppressions,
+      entropy: scanner.config.entropy,
+      risk: scanner.config.risk,
+      network: scanner.config.network,
+      timeouts: scanner.config.timeouts,
+    },
+    signature: `${packs.signature}.${suppressions.signature}.${scanner.signature}`,
+  };
+}
 
-  const parsed = validateGithubUrl(githubUrl);
-  if (!parsed) {
-    return {
-      safe: false,
-      riskLevel: "high",
-      threats: [{
-        pattern: "invalid-url",
-        severity: "critical",
-        description: `URL rejected. Only https://github.com/owner/repo/tree/ref/path is accepted. Got: ${githubUrl.substring(0, 120)}`,
-        category: "ssrf-prevention",
-      }],
-      recommendation: "Invalid or non-GitHub URL. Only github.com is accepted (SSRF prevention).",
-      contentHash: "",
-      filesScanned: 0,
-      skippedBinary: [],
-      skippedSuspicious: [],
-      errors: [],
-    };
-  }
+function fetchFailedResult(description: string, recommendation: string, pattern = "fetch-failed"): FetchScanResult {
+  return {
+    safe: false,
+    riskLevel: "medium",
+    threats: [{ pattern, severity: "warning", description, category: "fetch-error" }],
+    recommendation,
+    contentHash: "",
+    filesScanned: 0,
+    skippedBinary: [],
+    skippedSuspicious: [],
+    errors: [],
+  };
+}
+
+// Directory the skill would be installed under — mirrors the installer's default
+function snapshotDirName(snapshot: SkillSnapshot): string {
+  const segments = snapshot.parsed.path.split("/").filter(Boolean);
+  return segments[segments.length - 1] || snapshot.parsed.repo;
+}
+
+/** Findings from a snapshot's skipped entries and fetch limits, gathered before its files are scanned. */
+interface SnapshotPreamble {
+  threats: Threat[];
+  skippedBinary: string[];
+  binaries: SniffedFile[];   // skipped binaries whose type could be sniffed
+  errors: string[];
+}
 
-  const apiUrl = `https://api.github.com/repos/${parsed.owner}/${parsed.repo}/contents/${parsed.path}?ref=${parsed.ref}`;
-  const allContent: string[] = [];
+function snapshotPreamble(snapshot: SkillSnapshot): SnapshotPreamble {
   const allThreats: Threat[] = [];
   const skippedBinary: string[] = [];
-  const skippedSuspicious: string[] = [];
+  const binaries: SniffedFile[] = [];
   const errors: string[] = [];
-  let filesScanned = 0;
-  let totalSize = 0;
 
-  try {
-    const dirResp = await fetch(apiUrl, {
-      headers: {
-        Accept: "application/vnd.github.v3+json",
-        "User-Agent": "skillsync-mcp-scanner/1.0",
-      },
+  if (snapshot.truncated) {
+    errors.push("GitHub truncated the repository tree listing. Some files may NOT have been scanned.");
+    allThreats.push({
+      pattern: "truncated-tree",
+      severity: "warning",
+      description: "Repository tree too large to list completely — scan may be incomplete",
+      category: "incomplete-scan",
     });
+  }
 
-    if (!dirResp.ok) {
-      // Try as single file
-      const rawUrl = `https://raw.githubusercontent.com/${parsed.owner}/${parsed.repo}/${parsed.ref}/${parsed.path}`;
-      const rawResp = await fetch(rawUrl);
-      if (!rawResp.ok) {
-        return {
-          safe: false, riskLevel: "medium",
-          threats: [{ pattern: "fetch-failed", severity: "warning", description: `GitHub API returned HTTP ${dirResp.status}`, category: "fetch-error" }],
-          recommendation: "Could not fetch skill. Verify the URL and repository visibility.",
-          contentHash: "", filesScanned: 0, skippedBinary: [], skippedSuspicious: [], errors: [],
-        };
-      }
-      const content = await rawResp.text();
-      const result = scanSkillContent(content);
-      return cacheAndReturn({ ...result, filesScanned: 1, skippedBinary: [], skippedSuspicious: [], errors: [] });
-    }
-
-    const body = await dirResp.json();
-
-    // Single file response
-    if (!Array.isArray(body)) {
-      const content =
-        typeof body === "object" && body !== null && "content" in body
-          ? Buffer.from((body as { content: string }).content, "base64").toString()
-          : JSON.stringify(body);
-      const result = scanSkillContent(content);
-      return cacheAndReturn({ ...result, filesScanned: 1, skippedBinary: [], skippedSuspicious: [], errors: [] });
-    }
-
-    const entries = body as Array<{
-      type: string;
-      download_url: string | null;
-      name: string;
-      size?: number;
-    }>;
-
-    for (const entry of entries) {
-      if (filesScanned >= MAX_FILES) {
-        errors.push(`File limit (${MAX_FILES}) reached. ${entries.length - MAX_FILES} files not scanned.`);
-        break;
-      }
+  for (const path of snapshot.suspicious) {
+    allThreats.push({
+      pattern: "suspicious-filename",
+      severity: "warning",
+      description: "Suspicious filename — commonly used in supply chain attacks",
+      category: "supply-chain",
+      file: path,
+    });
+  }
 
-      // Flag suspicious filenames
-      if (SUSPICIOUS_FILENAMES.has(entry.name.toLowerCase())) {
-        skippedSuspicious.push(entry.name);
+  let fileLimitHit = false;
+  let sizeLimitHit = false;
+  let ignoredDirFiles = 0;
+  for (const entry of snapshot.skipped) {
+    switch (entry.reason) {
+      case "submodule":
+        errors.push(`[${entry.path}] Git submodule was NOT scanned.`);
         allThreats.push({
-          pattern: "suspicious-filename",
+          pattern: "unscanned-submodule",
           severity: "warning",
-          description: `[${entry.name}] Suspicious filename — commonly used in supply chain attacks`,
-          category: "supply-chain",
+          description: "Git submodule not scanned — could contain hidden threats",
+          category: "incomplete-scan",
+          file: entry.path,
         });
-      }
-
-      // Warn about unscanned subdirectories
-      if (entry.type === "dir") {
-        errors.push(`Subdirectory "${entry.name}" was NOT scanned. Malicious code may hide in subdirectories.`);
+        break;
+      case "symlink":
         allThreats.push({
-          pattern: "unscanned-directory",
+          pattern: "symlink-entry",
           severity: "warning",
-          description: `[${entry.name}/] Subdirectory not scanned — could contain hidden threats`,
-          category: "incomplete-scan",
+          description: "Symbolic link in skill tree — may point outside the skill directory",
+          category: "filesystem",
+          file: entry.path,
         });
-        continue;
-      }
-
-      if (entry.type !== "file" || !entry.download_url) continue;
-
-      // Detect binary files
-      const ext = entry.name.includes(".")
-        ? "." + entry.name.split(".").pop()!.toLowerCase()
-        : "";
-      if (BINARY_EXTENSIONS.has(ext)) {
-        skippedBinary.push(entry.name);
+        break;
+      case "binary":
+        skippedBinary.push(entry.path);
+        if (entry.sniffed) {
+          binaries.push({ path: entry.path, type: entry.sniffed });
+          break;
+        }
         allThreats.push({
           pattern: "binary-file",
           severity: "warning",
-          description: `[${entry.name}] Binary file detected — cannot scan, may contain executable code`,
+          description: "Binary file detected — cannot scan, may contain executable code",
           category: "binary",
+          file: entry.path,
         });
-        continue;
-      }
-
-      if (!TEXT_EXTENSIONS.has(ext) && ext !== "") {
-        skippedBinary.push(entry.name);
-        continue;
-      }
-
-      // Size guard
-      if (entry.size && entry.size > MAX_FILE_SIZE) {
-        errors.push(`[${entry.name}] Skipped: ${Math.round(entry.size / 1024)}KB exceeds limit.`);
+        break;
+      case "oversized":
+        errors.push(`[${entry.path}] Skipped: ${entry.detail} exceeds limit.`);
         allThreats.push({
           pattern: "oversized-file",
           severity: "warning",
-          description: `[${entry.name}] File too large (${Math.round(entry.size / 1024)}KB) — possible DoS`,
+          description: `File too large (${entry.detail}) — possible DoS`,
           category: "dos",
+          file: entry.path,
         });
-        continue;
-      }
+        break;
+      case "fetch-failed":
+        errors.push(`[${entry.path}] Fetch failed: ${entry.detail ?? "unknown"}`);
+        break;
+      case "file-limit":
+        fileLimitHit = true;
+        break;
+      case "size-limit":
+        sizeLimitHit = true;
+        break;
+      case "ignored-dir":
+        ignoredDirFiles++;
+        break;
+    }
+  }
+  if (fileLimitHit) {
+    errors.push(`File limit (${MAX_FILES}) reached. Remaining files not scanned.`);
+  }
+  if (sizeLimitHit) {
+    errors.push(`Total size limit (${MAX_TOTAL_SIZE / 1024}KB) reached. Remaining files skipped.`);
+  }
+  if (ignoredDirFiles > 0) {
+    errors.push(`${ignoredDirFiles} file(s) under node_modules/, .git/ or ${PYTHON_VENV_DIRNAME}/ skipped — they are not installed.`);
+  }
 
-      // Validate download host (SSRF prevention on download URLs)
-      try {
-        const dlHost = new URL(entry.download_url).hostname;
-        if (!ALLOWED_DOWNLOAD_HOSTS.has(dlHost)) {
-          errors.push(`[${entry.name}] Skipped: download URL on unexpected host ${dlHost}`);
-          continue;
-        }
-      } catch {
-        errors.push(`[${entry.name}] Skipped: invalid download URL`);
-        continue;
-      }
+  return { threats: allThreats, skippedBinary, binaries, errors };
+}
 
-      try {
-        const fileResp = await fetch(entry.download_url);
-        if (!fileResp.ok) {
-          errors.push(`[${entry.name}] Fetch failed: HTTP ${fileResp.status}`);
-          continue;
-        }
-        const content = await fileResp.text();
-        totalSize += content.length;
-        if (totalSize > MAX_TOTAL_SIZE) {
-          errors.push(`Total size limit (${MAX_TOTAL_SIZE / 1024}KB) reached. Remaining files skipped.`);
-          break;
-        }
-        allContent.push(content);
-        const result = scanSkillContent(content);
-        for (const t of result.threats) {
-          allThreats.push({ ...t, description: `[${entry.name}] ${t.description}` });
-        }
-        filesScanned++;
-      } catch (err) {
-        errors.push(`[${entry.name}] Error: ${err instanceof Error ? err.message : "unknown"}`);
-      }
-    }
+function snapshotResult(
+  snapshot: SkillSnapshot,
+  options: Omit<ScanOptions, "file">,
+  preamble: SnapshotPreamble,
+  filesResult: ScanResult,
+): FetchScanResult {
+  const { skippedBinary, errors } = preamble;
+  const allThreats = [...preamble.threats, ...filesResult.threats];
+  const contentHash = computeContentHash(snapshot.files);
+  applySuppressions(allThreats, contentHash, options.suppressions);
 
-    const combinedHash = computeHash(allContent.join("\n---FILE-BOUNDARY---\n"));
-    const criticalCount = allThreats.filter((t) => t.severity === "critical").length;
-    const warningCount = allThreats.filter((t) => t.severity === "warning").length;
-
-    let riskLevel: ScanResult["riskLevel"];
-    if (criticalCount > 0) riskLevel = "critical";
-    else if (warningCount >= 5) riskLevel = "high";
-    else if (warningCount >= 3) riskLevel = "medium";
-    else if (warningCount >= 1) riskLevel = "low";
-    else riskLevel = "safe";
-
-    return cacheAndReturn({
-      safe: criticalCount === 0 && warningCount < 3,
-      riskLevel,
-      threats: allThreats,
-      recommendation: buildRecommendation(riskLevel, criticalCount, warningCount, filesScanned),
-      contentHash: combinedHash,
-      filesScanned,
-      skippedBinary,
-      skippedSuspicious,
-      errors,
-    });
-  } catch (error) {
+  const filesScanned = snapshot.files.length;
+  return {
+    ...buildResult(allThreats, contentHash, options.risk, filesScanned),
+    filesScanned,
+    skippedBinary,
+    skippedSuspicious: snapshot.suspicious,
+    errors,
+    commitSha: snapshot.commitSha,
+    capabilities: filesResult.capabilities,
+    executables: filesResult.executables,
+    archives: filesResult.archives,
+    destinations: filesResult.destinations,
+    metadata: skillMetadataFromFiles(snapshot.files, snapshotDirName(snapshot)),
+  };
+}
+
+/**
+ * Scan an already-fetched snapshot in memory. Pure: no network access.
+ */
+export function scanSnapshot(snapshot: SkillSnapshot, options: Omit<ScanOptions, "file"> = {}): FetchScanResult {
+  const preamble = snapshotPreamble(snapshot);
+  return snapshotResult(snapshot, options, preamble, scanSkillFiles(snapshot.files, options, preamble.binaries, snapshot.archives));
+}
+
+/** scanSnapshot with per-file passes in the scan worker pool (see scanSkillFilesInWorkers). */
+export async function scanSnapshotInWorkers(snapshot: SkillSnapshot, options: Omit<ScanOptions, "file"> = {}): Promise<FetchScanResult> {
+  const preamble = snapshotPreamble(snapshot);
+  const filesResult = await scanSkillFilesInWorkers(snapshot.files, options, preamble.binaries, snapshot.archives);
+  return snapshotResult(snapshot, options, preamble, filesResult);
+}
+
+/**
+ * Fetch a fresh snapshot and scan it, bypassing the cache lookup. Used by the
+ * installer, which must write exactly the bytes that were scanned. Throws on
+ * invalid URLs and fetch failures.
+ */
+export async function fetchAndScanSnapshot(
+  githubUrl: string,
+  userAgent = "skillsync-mcp-scanner/1.0",
+): Promise<{ snapshot: SkillSnapshot; result: FetchScanResult }> {
+  const parsed = validateGithubUrl(githubUrl);
+  if (!parsed) {
+    throw new Error(
+      "Invalid GitHub URL. Expected: https://github.com/owner/repo/tree/<branch|sha>/path"
+    );
+  }
+  const policy = await loadScanOptions();
+  const snapshot = await fetchSkillSnapshot(parsed, userAgent);
+  return { snapshot, result: await scanAndCache(githubUrl, snapshot, policy) };
+}
+
+async function scanAndCache(
+  githubUrl: string,
+  snapshot: SkillSnapshot,
+  policy: Awaited<ReturnType<typeof loadScanOptions>>,
+): Promise<FetchScanResult> {
+  const result = await scanSnapshotInWorkers(snapshot, policy.options);
+  scanCache.set(normalizeCacheKey(githubUrl, policy.signature), { result, timestamp: Date.now() });
+  evictOldestIfNeeded();
+  return result;
+}
+
+export async function fetchAndScanSkill(githubUrl: string): Promise<FetchScanResult> {
+  // ── Cache lookup ──
+  const policy = await loadScanOptions();
+  const cacheKey = normalizeCacheKey(githubUrl, policy.signature);
+  evictExpiredEntries();
+  const cached = scanCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp <= SCAN_CACHE_TTL_MS) {
+    return cached.result;
+  }
+
+  const parsed = validateGithubUrl(githubUrl);
+  if (!parsed) {
     return {
       safe: false,
-      riskLevel: "medium",
-      threats: [{ pattern: "network-error", severity: "warning", description: `Network error: ${error instanceof Error ? error.message : "unknown"}`, category: "fetch-error" }],
-      recommendation: "Failed to fetch skill content. Check network and URL.",
+      riskLevel: "high",
+      threats: [{
+        pattern: "invalid-url",
+        severity: "critical",
+        description: `URL rejected. Only https://github.com/owner/repo/tree/ref/path is accepted. Got: ${githubUrl.substring(0, 120)}`,
+        category: "ssrf-prevention",
+      }],
+      recommendation: "Invalid or non-GitHub URL. Only github.com is accepted (SSRF prevention).",
       contentHash: "",
       filesScanned: 0,
       skippedBinary: [],
@@ -457,4 +1035,21 @@ export async function fetchAndScanSkill(githubUrl: string): Promise<FetchScanRes
       errors: [],
     };
   }
+
+  // Only fetch errors become fetch findings; a file whose scan fails gets its
+  // own incomplete-scan finding
+  let snapshot: SkillSnapshot;
+  try {
+    snapshot = await fetchSkillSnapshot(parsed, "skillsync-mcp-scanner/1.0");
+  } catch (error) {
+    if (error instanceof GitHubFetchError) {
+      return fetchFailedResult(error.message, "Could not fetch skill. Verify the URL and repository visibility.");
+    }
+    return fetchFailedResult(
+      `Network error: ${error instanceof Error ? error.message : "unknown"}`,
+      "Failed to fetch skill content. Check network and URL.",
+      "network-error",
+    );
+  }
+  return scanAndCache(githubUrl, snapshot, policy);
 }
@@ -0,0 +1,740 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ShellFinding {
+  pattern: string;
+  severity: "warning" | "critical";
+  category: string;
+  description: string;
+  locations: Array<{ line: number; column: number }>;
+}
+
+/** A word as written; variables and substitutions are expanded during analysis. */
+interface Word {
+  offset: number;
+  parts: WordPart[];
+}
+
+type WordPart =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; name: string; fallback?: string }
+  | { kind: "substitution"; process: boolean; script: Script }  // $(…) and `…`, or <(…) / >(…)
+  | { kind: "unknown" };  // positional parameters, arithmetic and other expansions not evaluated
+
+interface HereDoc {
+  delimiter: string;
+  strip: boolean;    // <<- removes leading tabs
+  quoted: boolean;   // quoted delimiter: the body is not expanded
+  start: number;
+  end: number;
+}
+
+interface Redirect {
+  op: string;
+  target?: Word;
+  hereDoc?: HereDoc;
+}
+
+type Command =
+  | { kind: "simple"; offset: number; words: Word[]; redirects: Redirect[] }
+  | { kind: "group"; offset: number; subshell: boolean; body: Script; redirects: Redirect[] };
+
+type Pipeline = Command[];
+type Script = Pipeline[];
+
+// ─── Command Tables ──────────────────────────────────────────────────────────
+
+const MAX_ANALYZED_LENGTH = 512_000;
+const MAX_NESTING = 32;       // substitutions, groups and eval'd strings inside each other
+const MAX_EVAL_DEPTH = 4;
+
+const DOWNLOADERS = new Set(["curl", "wget", "fetch", "aria2c", "lwp-request", "GET"]);
+const SHELLS = new Set(["sh", "bash", "zsh", "ksh", "dash", "ash", "mksh"]);
+const OTHER_INTERPRETERS = /^(?:python[0-9.]*|perl|ruby|node|nodejs|php)$/;
+// Option that makes an interpreter run its next argument as code
+const EXEC_STRING_OPTIONS: Array<[RegExp, RegExp]> = [
+  [/^(?:sh|bash|zsh|ksh|dash|ash|mksh)$/, /^-[a-z]*c[a-z]*$/],
+  [/^python[0-9.]*$/, /^-[a-zA-Z]*c$/],
+  [/^(?:perl|ruby)$/, /^-[a-zA-Z]*[eE]$/],
+  [/^(?:node|nodejs)$/, /^(?:-e|-p|--eval|--print)$/],
+  [/^php$/, /^-r$/],
+];
+// Commands that print their arguments or input, so `echo "$(curl …)" | sh` runs the download
+const ECHOES = new Set(["echo", "printf", "cat"]);
+const STDIN_PATHS = new Set(["/dev/stdin", "/proc/self/fd/0", "-"]);
+
+// Prefixes that run the rest of the line as a command
+const WRAPPERS = new Set(["sudo", "doas", "env", "command", "builtin", "exec", "nohup", "time", "nice", "timeout", "stdbuf", "xargs"]);
+const WRAPPER_VALUE_OPTIONS = /^-(?:[ugCDhpUrtT]|n|-user|-group)$/;
+const RESERVED = new Set(["if", "then", "elif", "else", "do", "while", "until", "!"]);
+const DECLARATIONS = new Set(["export", "declare", "typeset", "local", "readonly"]);
+
+const ASSIGNMENT = /^([A-Za-z_]\w*)\+?=/;
+const REDIRECT = /(?:\d*|&)(<<<|<<-|<<|<>|<&|>&|>>|>\||<|>)(?!\()/y;
+const WORD_END = /[\s;&|<>()]/;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+interface Parser {
+  src: string;
+  pos: number;
+  end: number;
+  depth: number;
+  hereDocs: HereDoc[];   // opened on the current line, read after its newline
+}
+
+function newParser(src: string, start = 0, end = src.length): Parser {
+  return { src, pos: start, end, depth: 0, hereDocs: [] };
+}
+
+function peek(p: Parser, ahead = 0): string | undefined {
+  return p.pos + ahead < p.end ? p.src[p.pos + ahead] : undefined;
+}
+
+function isWordEnd(c: string | undefined): boolean {
+  return c === undefined || WORD_END.test(c);
+}
+
+/** Skip spaces and tabs, joining backslash-newline continuations. */
+function skipBlanks(p: Parser): void {
+  while (p.pos < p.end) {
+    const c = p.src[p.pos];
+    if (c === " " || c === "\t" || c === "\r") p.pos++;
+    else if (c === "\\" && peek(p, 1) === "\n") p.pos += 2;
+    else if (c === "\\" && peek(p, 1) === "\r" && peek(p, 2) === "\n") p.pos += 3;
+    else break;
+  }
+}
+
+function skipComment(p: Parser): void {
+  const eol = p.src.indexOf("\n", p.pos);
+  p.pos = eol < 0 || eol > p.end ? p.end : eol;
+}
+
+/** Consume a newline, then the bodies of any here-documents opened on that line. */
+function newline(p: Parser): void {
+  p.pos++;
+  for (const doc of p.hereDocs.splice(0)) {
+    doc.start = p.pos;
+    doc.end = p.end;
+    while (p.pos < p.end) {
+      const eol = p.src.indexOf("\n", p.pos);
+      const lineEnd = eol < 0 || eol > p.end ? p.end : eol;
+      let line = p.src.substring(p.pos, lineEnd).replace(/\r$/, "");
+      if (doc.strip) line = line.replace(/^\t+/, "");
+      const next = Math.min(lineEnd + 1, p.end);
+      if (line === doc.delimiter) {
+        doc.end = p.pos;
+        p.pos = next;
+        break;
+      }
+      p.pos = next;
+    }
+  }
+}
+
+/** Skip a balanced (…) or {…} starting at the opening character. */
+function skipBalanced(p: Parser, open: string, close: string): void {
+  let depth = 0;
+  while (p.pos < p.end) {
+    const c = p.src[p.pos++];
+    if (c === "\\") p.pos++;
+    else if (c === open) depth++;
+    else if (c === close && --depth === 0) return;
+  }
+}
+
+function appendText(parts: WordPart[], text: string): void {
+  const last = parts[parts.length - 1];
+  if (last?.kind === "text") last.text += text;
+  else parts.push({ kind: "text", text });
+}
+
+/** Parse commands until `closer` (left unconsumed) or the end of input. */
+function parseScript(p: Parser, closer: ")" | "}" | "`" | null): Script {
+  const script: Script = [];
+  if (++p.depth > MAX_NESTING) {
+    p.pos = p.end;
+    return script;
+  }
+  while (p.pos < p.end) {
+    skipBlanks(p);
+    const c = peek(p);
+    if (c === undefined) break;
+    if (c === "\n") {
+      newline(p);
+      continue;
+    }
+    if (c === "#") {
+      skipComment(p);
+      continue;
+    }
+    // Separators: ";", ";;", "&", "&&", "||" and a stray "|"
+    if (c === ";" || c === "&" || c === "|") {
+      p.pos++;
+      continue;
+    }
+    if (c === ")") {
+      if (closer === ")") break;
+      p.pos++;  // case pattern terminator
+      continue;
+    }
+    if (closer === "`" && c === "`") break;
+    if (closer === "}" && c === "}" && isWordEnd(peek(p, 1))) break;
+
+    const start = p.pos;
+    const pipeline = parsePipeline(p, closer);
+    if (pipeline.length > 0) script.push(pipeline);
+    if (p.pos === start) p.pos++;
+  }
+  p.depth--;
+  return script;
+}
+
+function parsePipeline(p: Parser, closer: ")" | "}" | "`" | null): Pipeline {
+  const pipeline: Pipeline = [];
+  for (;;) {
+    const command = parseCommand(p, closer);
+    if (command) pipeline.push(command);
+    skipBlanks(p);
+    if (peek(p) !== "|" || peek(p, 1) === "|") return pipeline;
+    p.pos += peek(p, 1) === "&" ? 2 : 1;
+    // A pipe may be followed by newlines before the next command
+    for (skipBlanks(p); peek(p) === "\n"; skipBlanks(p)) newline(p);
+  }
+}
+
+function isLiteral(word: Word | undefined, text: string): boolean {
+  return word?.parts.length === 1 && word.parts[0].kind === "text" && word.parts[0].text === text;
+}
+
+function parseCommand(p: Parser, closer: ")" | "}" | "`" | null): Command | null {
+  skipBlanks(p);
+  const offset = p.pos;
+  if (peek(p) === "(") {
+    if (peek(p, 1) === "(") {
+      skipBalanced(p, "(", ")");  // (( arithmetic ))
+      return null;
+    }
+    p.pos++;
+    const body = parseScript(p, ")");
+    if (peek(p) === ")") p.pos++;
+    return { kind: "group", offset, subshell: true, body, redirects: parseRedirects(p, closer) };
+  }
+
+  const words: Word[] = [];
+  const redirects: Redirect[] = [];
+  while (p.pos < p.end) {
+    skipBlanks(p);
+    const c = peek(p);
+    if (c === undefined || c === "\n" || c === ";" || c === "|" || c === ")") break;
+    if (c === "&" && peek(p, 1) !== ">") break;
+    if (c === "`" && closer === "`") break;
+    if (c === "#") {
+      skipComment(p);
+      break;
+    }
+    const functionWords = words.length === 1 || (words.length === 2 && isLiteral(words[0], "function"));
+    if (c === "(") {
+      // "name ()" defines a function; its body is the next command
+      const def = /^\(\s*\)/.exec(p.src.substring(p.pos, Math.min(p.pos + 16, p.end)));
+      if (!def || !functionWords) break;
+      p.pos += def[0].length;
+      for (skipBlanks(p); peek(p) === "\n"; skipBlanks(p)) newline(p);
+      return parseCommand(p, closer);
+    }
+    if (c === "{" && isWordEnd(peek(p, 1)) && (words.length === 0 || (functionWords && isLiteral(words[0], "function")))) {
+      p.pos++;
+      const body = parseScript(p, "}");
+      if (peek(p) === "}") p.pos++;
+      return { kind: "group", offset, subshell: false, body, redirects: parseRedirects(p, closer) };
+    }
+    const redirect = parseRedirect(p, closer);
+    if (redirect) {
+      redirects.push(redirect);
+      continue;
+    }
+    const start = p.pos;
+    words.push(parseWord(p, closer));
+    if (p.pos === start) p.pos++;
+  }
+  return words.length > 0 || redirects.length > 0 ? { kind: "simple", offset, words, redirects } : null;
+}
+
+function parseRedirects(p: Parser, closer: ")" | "}" | "`" | null): Redirect[] {
+  const redirects: Redirect[] = [];
+  for (;;) {
+    skipBlanks(p);
+    const redirect = parseRedirect(p, closer);
+    if (!redirect) return redirects;
+    redirects.push(redirect);
+  }
+}
+
+function parseRedirect(p: Parser, closer: ")" | "}" | "`" | null): Redirect | null {
+  REDIRECT.lastIndex = p.pos;
+  const match = REDIRECT.exec(p.src);
+  if (!match || REDIRECT.lastIndex > p.end) return null;
+  const op = match[1];
+  p.pos = REDIRECT.lastIndex;
+  skipBlanks(p);
+  if (isWordEnd(peek(p))) return { op };
+  const start = p.pos;
+  const target = parseWord(p, closer);
+  if (op === "<<" || op === "<<-") {
+    const raw = p.src.substring(start, p.pos);
+    const hereDoc: HereDoc = {
+      delimiter: raw.replace(/['"\\]/g, ""),
+      strip: op === "<<-",
+      quoted: /['"\\]/.test(raw),
+      start: p.end,
+      end: p.end,
+    };
+    p.hereDocs.push(hereDoc);
+    return { op, hereDoc };
+  }
+  return { op, target };
+}
+
+function parseWord(p: Parser, closer: ")" | "}" | "`" | null): Word {
+  const word: Word = { offset: p.pos, parts: [] };
+  while (p.pos < p.end) {
+    const c = p.src[p.pos];
+    if (c === "\\") {
+      const next = peek(p, 1);
+      if (next === "\r" && peek(p, 2) === "\n") p.pos++;
+      else if (next !== undefined && next !== "\n") appendText(word.parts, next);
+      p.pos += 2;
+    } else if (c === "'") {
+      const close = p.src.indexOf("'", p.pos + 1);
+      const stop = close < 0 || close >= p.end ? p.end : close;
+      appendText(word.parts, p.src.substring(p.pos + 1, stop));
+      p.pos = stop + 1;
+    } else if (c === "\"") {
+      p.pos++;
+      parseQuoted(p, word.parts, "\"");
+    } else if (c === "$" && peek(p, 1) === "'") {
+      p.pos += 2;
+      appendText(word.parts, parseAnsiC(p));
+    } else if (c === "$") {
+      word.parts.push(parseDollar(p));
+    } else if (c === "`") {
+      if (closer === "`") break;
+      word.parts.push(parseBackticks(p));
+    } else if ((c === "<" || c === ">") && peek(p, 1) === "(") {
+      p.pos += 2;
+      const script = parseScript(p, ")");
+      if (peek(p) === ")") p.pos++;
+      word.parts.push({ kind: "substitution", process: true, script });
+    } else if (WORD_END.test(c)) {
+      break;
+    } else {
+      appendText(word.parts, c);
+      p.pos++;
+    }
+  }
+  return word;
+}
+
+/** Double-quoted text up to `terminator`, or an unquoted here-document body when null. */
+function parseQuoted(p: Parser, parts: WordPart[], terminator: "\"" | null): void {
+  while (p.pos < p.end) {
+    const c = p.src[p.pos];
+    if (c === terminator) {
+      p.pos++;
+      return;
+    }
+    if (c === "\\" && p.pos + 1 < p.end) {
+      const next = p.src[p.pos + 1];
+      if (next === "\n") {
+        p.pos += 2;
+        continue;
+      }
+      if ("$`\\".includes(next) || next === terminator) {
+        appendText(parts, next);
+        p.pos += 2;
+        continue;
+      }
+    }
+    if (c === "$") {
+      const part = parseDollar(p);
+      if (part.kind === "text") appendText(parts, part.text);
+      else parts.push(part);
+    } else if (c === "`") {
+      parts.push(parseBackticks(p));
+    } else {
+      appendText(parts, c);
+      p.pos++;
+    }
+  }
+}
+
+function parseDollar(p: Parser): WordPart {
+  const next = peek(p, 1);
+  if (next === "(") {
+    if (peek(p, 2) === "(") {
+      p.pos++;
+      skipBalanced(p, "(", ")");
+      return { kind: "unknown" };
+    }
+    p.pos += 2;
+    const script = parseScript(p, ")");
+    if (peek(p) === ")") p.pos++;
+    return { kind: "substitution", process: false, script };
+  }
+  if (next === "{") {
+    const start = p.pos + 2;
+    p.pos++;
+    skipBalanced(p, "{", "}");
+    const inner = p.src.substring(start, p.pos - 1);
+    const match = /^([A-Za-z_]\w*)(?::?[-=](.*))?$/s.exec(inner);
+    if (!match) return { kind: "unknown" };
+    return { kind: "variable", name: match[1], fallback: match[2]?.replace(/^(["'])(.*)\1$/s, "$2") };
+  }
+  const name = /^[A-Za-z_]\w*/.exec(p.src.substring(p.pos + 1, Math.min(p.pos + 65, p.end)));
+  if (name) {
+    p.pos += 1 + name[0].length;
+    return { kind: "variable", name: name[0] };
+  }
+  if (next !== undefined && /[0-9@*#?$!-]/.test(next)) {
+    p.pos += 2;
+    return { kind: "unknown" };
+  }
+  p.pos++;
+  return { kind: "text", text: "$" };
+}
+
+function parseBackticks(p: Parser): WordPart {
+  p.pos++;
+  const script = parseScript(p, "`");
+  if (peek(p) === "`") p.pos++;
+  return { kind: "substitution", process: false, script };
+}
+
+const ANSI_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", a: "\x07", b: "\b", e: "\x1b", E: "\x1b", f: "\f", v: "\v" };
+
+/** Body of a $'…' string with its escapes decoded ($'\x63url' is "curl"). */
+function parseAnsiC(p: Parser): string {
+  let out = "";
+  while (p.pos < p.end && p.src[p.pos] !== "'") {
+    const c = p.src[p.pos++];
+    if (c !== "\\" || p.pos >= p.end) {
+      out += c;
+      continue;
+    }
+    const rest = p.src.substring(p.pos, Math.min(p.pos + 9, p.end));
+    const escape = /^(?:x([0-9a-fA-F]{1,2})|u([0-9a-fA-F]{1,4})|U([0-9a-fA-F]{1,8})|([0-7]{1,3}))/.exec(rest);
+    if (escape) {
+      const code = escape[1] ?? escape[2] ?? escape[3];
+      const value = code !== undefined ? parseInt(code, 16) : parseInt(escape[4], 8);
+      out += value <= 0x10ffff ? String.fromCodePoint(value) : "";
+      p.pos += escape[0].length;
+    } else {
+      const next = p.src[p.pos++];
+      out += ANSI_ESCAPES[next] ?? next;
+    }
+  }
+  p.pos++;
+  return out;
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+/** Shell variables and aliases; null marks a variable whose value is not known statically. */
+interface Env {
+  vars: Map<string, string | null>;
+  aliases: Map<string, string>;
+}
+
+interface Expanded {
+  text: string;
+  resolved: boolean;   // no unknown variables or substitutions
+  indirect: boolean;   // built from variables
+  substitutions: Array<{ process: boolean; script: Script }>;
+}
+
+interface ResolvedCommand {
+  name?: string;
+  args: Expanded[];
+  index: number;       // position of the command word; words.length when there is none
+  indirect: boolean;
+}
+
+interface Analysis {
+  source: string;      // text the offsets below refer to
+  lineStarts: number[];
+  findings: Map<string, ShellFinding>;
+  seen: Set<string>;
+  anchor?: number;     // set while analyzing an eval'd string: findings point at the eval
+  evalDepth: number;
+}
+
+function cloneEnv(env: Env): Env {
+  return { vars: new Map(env.vars), aliases: new Map(env.aliases) };
+}
+
+function expand(word: Word, env: Env): Expanded {
+  const out: Expanded = { text: "", resolved: true, indirect: false, substitutions: [] };
+  for (const part of word.parts) {
+    if (part.kind === "text") {
+      out.text += part.text;
+    } else if (part.kind === "variable") {
+      const value = env.vars.get(part.name) ?? part.fallback;
+      out.indirect = true;
+      if (value === undefined) out.resolved = false;
+      else out.text += value;
+    } else {
+      out.resolved = false;
+      if (part.kind === "substitution") out.substitutions.push(part);
+    }
+  }
+  return out;
+}
+
+function literal(text: string): Expanded {
+  return { text, resolved: true, indirect: false, substitutions: [] };
+}
+
+function basename(path: string): string {
+  return path.substring(path.lastIndexOf("/") + 1);
+}
+
+/** Find the command word behind assignments, reserved words, aliases and wrappers such as sudo and env. */
+function resolveCommand(words: Expanded[], env: Env): ResolvedCommand {
+  let i = 0;
+  while (i < words.length && ASSIGNMENT.test(words[i].text)) i++;
+  while (i < words.length && RESERVED.has(words[i].text)) i++;
+  if (i < words.length && words[i].resolved) {
+    const alias = env.aliases.get(words[i].text);
+    if (alias !== undefined) {
+      const expansion = alias.split(/\s+/).filter(Boolean).map((w) => ({ ...literal(w), indirect: true }));
+      words = [...words.slice(0, i), ...expansion, ...words.slice(i + 1)];
+    }
+  }
+  while (i < words.length && words[i].resolved && WRAPPERS.has(basename(words[i].text))) {
+    const wrapper = basename(words[i++].text);
+    while (i < words.length) {
+      const text = words[i].text;
+      if (wrapper === "env" && ASSIGNMENT.test(text)) i++;
+      else if (text.startsWith("-") && text.length > 1) i += WRAPPER_VALUE_OPTIONS.test(text) ? 2 : 1;
+      else break;
+    }
+    if (wrapper === "timeout" && i < words.length) i++;  // duration
+  }
+  if (i >= words.length) return { args: [], index: words.length, indirect: false };
+  const word = words[i];
+  return { name: word.resolved ? basename(word.text) : undefined, args: words.slice(i + 1), index: i, indirect: word.indirect };
+}
+
+/** Record assignments, declarations, aliases and unsets so later commands see them. */
+function updateEnv(words: Expanded[], command: ResolvedCommand, env: Env): void {
+  const assign = (word: Expanded): void => {
+    const match = ASSIGNMENT.exec(word.text);
+    if (!match) return;
+    env.vars.set(match[1], word.resolved ? word.text.substring(word.text.indexOf("=") + 1) : null);
+  };
+  if (command.name === undefined && command.index === words.length) {
+    words.forEach(assign);
+  } else if (command.name && DECLARATIONS.has(command.name)) {
+    command.args.filter((w) => !/^[-+]/.test(w.text)).forEach(assign);
+  } else if (command.name === "alias") {
+    for (const arg of command.args) {
+      const match = /^([^=\s]+)=(.*)$/s.exec(arg.text);
+      if (match && arg.resolved) env.aliases.set(match[1], match[2]);
+    }
+  } else if (command.name === "unset") {
+    for (const arg of command.args) {
+      env.vars.delete(arg.text);
+      env.aliases.delete(arg.text);
+    }
+  } else if (command.name === "read") {
+    for (const arg of command.args) if (/^[A-Za-z_]\w*$/.test(arg.text)) env.vars.set(arg.text, null);
+  }
+}
+
+function isInterpreter(name: string | undefined): name is string {
+  return name !== undefined && (SHELLS.has(name) || OTHER_INTERPRETERS.test(name));
+}
+
+/** Whether the command runs the script it reads on standard input. */
+function readsStdin(name: string | undefined, args: Expanded[]): boolean {
+  if (name === "source" || name === ".") return args.length > 0 && STDIN_PATHS.has(args[0].text);
+  if (!isInterpreter(name)) return false;
+  if (execStringIndex(name, args) >= 0) return false;
+  if (SHELLS.has(name) && args.some((a) => a.text === "-s")) return true;
+  const script = args.find((a) => !a.text.startsWith("-") || a.text === "-");
+  return script === undefined || STDIN_PATHS.has(script.text);
+}
+
+function execStringIndex(name: string, args: Expanded[]): number {
+  const option = EXEC_STRING_OPTIONS.find(([interpreter]) => interpreter.test(name))?.[1];
+  return option ? args.findIndex((a) => option.test(a.text)) : -1;
+}
+
+/** Whether running the script fetches something from the network. */
+function downloads(script: Script, env: Env): boolean {
+  const scope = cloneEnv(env);
+  for (const pipeline of script) {
+    for (const command of pipeline) {
+      if (command.kind === "group") {
+        if (downloads(command.body, scope)) return true;
+        continue;
+      }
+      const words = command.words.map((w) => expand(w, scope));
+      if (words.some((w) => w.substitutions.some((s) => downloads(s.script, scope)))) return true;
+      const resolved = resolveCommand(words, scope);
+      if (resolved.name !== undefined && DOWNLOADERS.has(resolved.name)) return true;
+      updateEnv(words, resolved, scope);
+    }
+  }
+  return false;
+}
+
+function lineColumn(lineStarts: number[], offset: number): { line: number; column: number } {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+}
+
+function report(a: Analysis, pattern: string, offset: number, description: string): void {
+  const location = lineColumn(a.lineStarts, a.anchor ?? offset);
+  const key = `${pattern}:${location.line}:${location.column}`;
+  if (a.seen.has(key)) return;
+  a.seen.add(key);
+  const finding = a.findings.get(pattern);
+  if (finding) finding.locations.push(location);
+  else a.findings.set(pattern, { pattern, severity: "critical", category: "rce", description, locations: [location] });
+}
+
+function analyzeScript(script: Script, env: Env, a: Analysis): void {
+  for (const pipeline of script) {
+    // Every stage of a multi-command pipeline runs in a subshell
+    const stages = pipeline.map((command) => analyzeCommand(command, pipeline.length > 1 ? cloneEnv(env) : env, a));
+    for (let j = 1; j < stages.length; j++) {
+      const target = stages[j];
+      if (!readsStdin(target.name, target.args)) continue;
+      const source = stages.slice(0, j).find((s) => s.downloads);
+      if (!source) continue;
+      const hidden = source.indirect || target.indirect ? " (command names hidden in variables)" : "";
+      report(a, "shell/pipe-to-interpreter", source.offset,
+        `Remote code execution: ${source.name ?? "downloaded"} output piped into ${target.name}${hidden}`);
+    }
+  }
+}
+
+interface Stage {
+  offset: number;
+  name?: string;
+  args: Expanded[];
+  downloads: boolean;
+  indirect: boolean;
+}
+
+function analyzeCommand(command: Command, env: Env, a: Analysis): Stage {
+  if (command.kind === "group") {
+    analyzeScript(command.body, command.subshell ? cloneEnv(env) : env, a);
+    return { offset: command.offset, args: [], downloads: downloads(command.body, env), indirect: false };
+  }
+
+  const words = command.words.map((w) => expand(w, env));
+  const targets = command.redirects.flatMap((r) => (r.target ? [{ op: r.op, word: expand(r.target, env) }] : []));
+  const bodies = command.redirects.flatMap((r) => (r.hereDoc && !r.hereDoc.quoted ? [hereDocBody(a, r.hereDoc, env)] : []));
+
+  // Substitutions run first, in the current environment
+  for (const expanded of [...words, ...targets.map((t) => t.word), ...bodies]) {
+    for (const substitution of expanded.substitutions) analyzeScript(substitution.script, cloneEnv(env), a);
+  }
+
+  const resolved = resolveCommand(words, env);
+  const { name, args } = resolved;
+  const fetches = (w: Expanded, process: boolean): boolean => w.substitutions.some((s) => s.process === process && downloads(s.script, env));
+  const hidden = resolved.indirect ? " (command names hidden in variables)" : "";
+
+  if (name === "eval") {
+    if (args.some((w) => fetches(w, false))) {
+      report(a, "shell/exec-substitution", command.offset, `Remote code execution: eval of downloaded content${hidden}`);
+    } else {
+      analyzeString(args.map((w) => w.text).join(" "), args.every((w) => w.resolved), env, a, command.offset);
+    }
+  }
+
+  if (isInterpreter(name)) {
+    const exec = execStringIndex(name, args);
+    const code = exec >= 0 ? args[exec + 1] : undefined;
+    if (code && fetches(code, false)) {
+      report(a, "shell/exec-substitution", command.offset, `Remote code execution: ${name} ${args[exec].text} runs downloaded content${hidden}`);
+    } else if (code && SHELLS.has(name)) {
+      analyzeString(code.text, code.resolved, cloneEnv(env), a, command.offset);
+    }
+    const script = args.find((w) => !w.text.startsWith("-") || w.substitutions.length > 0);
+    if (exec < 0 && script && fetches(script, true)) {
+      report(a, "shell/exec-process-substitution", command.offset, `Remote code execution: ${name} runs a download through <(…)${hidden}`);
+    }
+  }
+  if ((name === "source" || name === ".") && args.length > 0 && fetches(args[0], true)) {
+    report(a, "shell/exec-process-substitution", command.offset, `Remote code execution: ${name} of a download through <(…)${hidden}`);
+  }
+
+  // Standard input from a process substitution, here-string or here-document
+  if (readsStdin(name, args)) {
+    for (const target of targets) {
+      if (target.op === "<" && fetches(target.word, true)) {
+        report(a, "shell/exec-process-substitution", command.offset, `Remote code execution: ${name} reads a download through < <(…)${hidden}`);
+      } else if (target.op === "<<<" && fetches(target.word, false)) {
+        report(a, "shell/exec-substitution", command.offset, `Remote code execution: here-string of downloaded content into ${name}${hidden}`);
+      }
+    }
+    if (bodies.some((body) => fetches(body, false))) {
+      report(a, "shell/exec-substitution", command.offset, `Remote code execution: here-document with downloaded content into ${name}${hidden}`);
+    }
+    if (SHELLS.has(name ?? "")) {
+      for (const redirect of command.redirects) {
+        if (redirect.hereDoc) analyzeScript(parseScript(newParser(a.source, redirect.hereDoc.start, redirect.hereDoc.end), null), cloneEnv(env), a);
+      }
+    }
+  }
+
+  updateEnv(words, resolved, env);
+  const echoed = name !== undefined && ECHOES.has(name) && [...args, ...targets.map((t) => t.word)].some((w) => fetches(w, false) || fetches(w, true));
+  return {
+    offset: command.offset,
+    name,
+    args,
+    downloads: (name !== undefined && DOWNLOADERS.has(name)) || echoed,
+    indirect: resolved.indirect,
+  };
+}
+
+function hereDocBody(a: Analysis, doc: HereDoc, env: Env): Expanded {
+  const parts: WordPart[] = [];
+  parseQuoted(newParser(a.source, doc.start, doc.end), parts, null);
+  return expand({ offset: doc.start, parts }, env);
+}
+
+/** A string run as code by eval or `sh -c`; its findings point at the command that runs it. */
+function analyzeString(code: string, resolved: boolean, env: Env, a: Analysis, offset: number): void {
+  if (!resolved || a.evalDepth >= MAX_EVAL_DEPTH || code.length > MAX_ANALYZED_LENGTH) return;
+  const script = parseScript(newParser(code), null);
+  analyzeScript(script, env, { ...a, anchor: a.anchor ?? offset, evalDepth: a.evalDepth + 1, source: code });
+}
+
+/**
+ * Tokenize a shell script — quotes, escapes, line continuations, here-documents,
+ * $(…), `…` and <(…) — and report downloads that reach an interpreter: piped
+ * into a shell, run through eval or `sh -c "$(curl …)"`, sourced from <(…), or
+ * fed in as a here-string or here-document. Simple variable assignments and
+ * aliases are followed, so `c=curl; $c … | $s` is seen as `curl … | sh`.
+ * Findings point at the line and column where the command starts.
+ */
+export function analyzeShell(content: string): ShellFinding[] {
+  if (content.length > MAX_ANALYZED_LENGTH) return [];
+  const lineStarts = [0];
+  for (let i = content.indexOf("\n"); i >= 0; i = content.indexOf("\n", i + 1)) lineStarts.push(i + 1);
+  const analysis: Analysis = { lineStarts, findings: new Map(), seen: new Set(), evalDepth: 0, source: content };
+  analyzeScript(parseScript(newParser(content), null), { vars: new Map(), aliases: new Map() }, analysis);
+  return [...analysis.findings.values()];
+}
@@ -1,16 +1,18 @@
-import { readdir, readFile, stat } from "node:fs/promises";
-import { join, extname } from "node:path";
-import { createHash } from "node:crypto";
+import { readdir, readFile, stat, open } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
 import { watch, type FSWatcher } from "node:fs";
 import {
   MAX_FILES,
   MAX_FILE_SIZE,
   MAX_TOTAL_SIZE,
-  BINARY_EXTENSIONS,
-  TEXT_EXTENSIONS,
   WATCH_DEBOUNCE_MS,
+  LOCAL_SCAN_IGNORED_DIRS,
 } from "./constants.js";
-import { scanSkillContent, type ScanResult } from "./security-scanner.js";
+import { scanSkillFilesInWorkers, loadScanOptions, type ScanResult } from "./security-scanner.js";
+import { skillMetadataFromFiles, type SkillMetadata } from "./skill-metadata.js";
+import { sniffFileType, isBinaryType, SNIFF_BYTES, type SniffedFile } from "./file-type.js";
+import { isInspectableArchive, type ArchiveBytes } from "./archive.js";
+import type { NetworkDestination } from "./network-inventory.js";
 import {
   type SkillScope,
   type ResolvedPaths,
@@ -27,7 +29,9 @@ export interface InstalledSkill {
   filesCount: number;
   totalSize: number;
   hasSkillMd: boolean;
+  metadata: SkillMetadata;  // parsed SKILL.md frontmatter and schema issues
   scanResult: ScanResult;
+  destinations: NetworkDestination[];  // hosts the skill's files reference, from the scan
   contentHash: string;
   lastScanned: number;
   scope: SkillScope;
@@ -41,6 +45,47 @@ export interface SyncSummary {
   unchanged: string[];
 }
 
+// ─── File Discovery ──────────────────────────────────────────────────────────
+
+/**
+ * Recursively list regular files under a skill directory as "/"-separated
+ * relative paths, sorted the same way the installer orders them so content
+ * hashes line up. Symlinks and dependency folders are not followed.
+ */
+async function listSkillFiles(skillPath: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!LOCAL_SCAN_IGNORED_DIRS.has(entry.name)) await walk(full);
+      } else if (entry.isFile()) {
+        files.push(relative(skillPath, full).split(sep).join("/"));
+      }
+    }
+  };
+  await walk(skillPath);
+  return files.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/** The first SNIFF_BYTES of a file — enough to tell what it is. */
+async function readPrefix(filePath: string): Promise<Buffer> {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
 // ─── SkillManager ────────────────────────────────────────────────────────────
 
 export class SkillManager {
@@ -109,18 +154,19 @@ export class SkillManager {
       throw new Error(`"${name}" is not a directory`);
     }
 
-    const entries = await readdir(skillPath);
-    const allContent: string[] = [];
+    const entries = await listSkillFiles(skillPath);
+    const files: Array<{ path: string; content: string }> = [];
+    const binaries: SniffedFile[] = [];
+    const archives: ArchiveBytes[] = [];
     let filesCount = 0;
     let totalSize = 0;
     let hasSkillMd = false;
 
-    for (const fileName of entries) {
+    for (const relPath of entries) {
       if (filesCount >= MAX_FILES) break;
 
-      const filePath = join(skillPath, fileName);
+      const filePath = join(skillPath, relPath);
 
-      // Only process files (skip subdirectories)
       let fileStat;
       try {
         fileStat = await stat(filePath);
@@ -129,32 +175,38 @@ export class SkillManager {
       }
       if (!fileStat.isFile()) continue;
 
-      // Skip binary files
-      const ext = extname(fileName).toLowerCase();
-      if (BINARY_EXTENSIONS.has(ext)) continue;
-      if (!TEXT_EXTENSIONS.has(ext) && ext !== "") continue;
+      // Content decides binary vs. text; oversized files only need their first bytes
+      let bytes: Buffer;
+      try {
+        bytes = fileStat.size > MAX_FILE_SIZE ? await readPrefix(filePath) : await readFile(filePath);
+      } catch {
+        // Skip unreadable files
+        continue;
+      }
+      const type = sniffFileType(bytes);
+      if (isBinaryType(type)) {
+        binaries.push({ path: relPath, type });
+        if (isInspectableArchive(type) && fileStat.size <= MAX_FILE_SIZE) archives.push({ path: relPath, bytes });
+        continue;
+      }
 
       // Size guard
       if (fileStat.size > MAX_FILE_SIZE) continue;
       if (totalSize + fileStat.size > MAX_TOTAL_SIZE) break;
 
-      try {
-        const content = await readFile(filePath, "utf-8");
-        allContent.push(content);
-        totalSize += content.length;
-        filesCount++;
+      const content = bytes.toString("utf-8");
+      files.push({ path: relPath, content });
+      totalSize += content.length;
+      filesCount++;
 
-        if (fileName.toLowerCase() === "skill.md") {
-          hasSkillMd = true;
-        }
-      } catch {
-        // Skip unreadable files
+      if (relPath.toLowerCase() === "skill.md") {
+        hasSkillMd = true;
       }
     }
 
-    const combined = allContent.join("\n---FILE-BOUNDARY---\n");
-    const scanResult = scanSkillContent(combined);
-    const contentHash = createHash("sha256").update(combined).digest("hex");
+    const { options } = await loadScanOptions();
+    const scanResult = await scanSkillFilesInWorkers(files, options, binaries, archives);
+    const contentHash = scanResult.contentHash;
 
     const skill: InstalledSkill = {
       name,
@@ -162,7 +214,9 @@ export class SkillManager {
       filesCount,
       totalSize,
       hasSkillMd,
+      metadata: skillMetadataFromFiles(files, name),
       scanResult,
+      destinations: scanResult.destinations ?? [],
       contentHash,
       lastScanned: Date.now(),
       scope: this.paths.scope,
@@ -193,6 +247,7 @@ export class SkillManager {
       riskLevel: string;
       filesCount: number;
       hasSkillMd: boolean;
+      metadata: SkillMetadata;
       lastScanned: string;
       scope: SkillScope;
     }>;
@@ -211,6 +266,7 @@ export class SkillManager {
         riskLevel: s.scanResult.riskLevel,
         filesCount: s.filesCount,
         hasSkillMd: s.hasSkillMd,
+        metadata: s.metadata,
         lastScanned: new Date(s.lastScanned).toISOString(),
         scope: s.scope,
       })),
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import {
+  SKILL_NAME_MAX_LENGTH,
+  SKILL_DESCRIPTION_MAX_LENGTH,
+} from "./constants.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** The SKILL.md frontmatter fields Claude Code reads, normalized. */
+export interface SkillFrontmatter {
+  name?: string;
+  description?: string;
+  allowedTools?: string[];
+  version?: string;
+  license?: string;
+}
+
+export interface FrontmatterIssue {
+  severity: "error" | "warning";
+  field?: string;
+  message: string;
+}
+
+export interface SkillMetadata {
+  /** Parsed frontmatter, or null when SKILL.md is missing or has none. */
+  frontmatter: SkillFrontmatter | null;
+  issues: FrontmatterIssue[];
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+// Unknown keys are allowed: skills carry their own metadata alongside these
+const frontmatterSchema = z.looseObject({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  "allowed-tools": z.union([z.string(), z.array(z.string())]).optional(),
+  version: z.union([z.string(), z.number()]).optional(),
+  license: z.string().optional(),
+});
+
+const NAME_FORMAT = /^[a-z0-9][a-z0-9-]*$/;
+const RESERVED_NAME_WORDS = ["anthropic", "claude"];
+const XML_TAG = /<\/?[A-Za-z][\w-]*(?:\s[^<>]*)?\/?>/;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Split the YAML frontmatter off a SKILL.md. Returns the raw YAML between
+ * the opening `---` and the closing `---` (or `...`), or null when the file
+ * does not start with one.
+ */
+export function extractFrontmatter(content: string): string | null {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (lines[0]?.trimEnd() !== "---") return null;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (line === "---" || line === "...") return lines.slice(1, i).join("\n");
+  }
+  return null;
+}
+
+/** `allowed-tools` is either a YAML list or a comma-separated string. */
+function splitTools(value: string | string[]): string[] {
+  const tools = Array.isArray(value) ? value : value.split(",");
+  return tools.map((t) => t.trim()).filter(Boolean);
+}
+
+/**
+ * Parse and validate the frontmatter of a SKILL.md against the fields
+ * Claude Code relies on. `dirName` is the directory the skill is (or will
+ * be) installed under; the declared name should match it.
+ */
+export function validateSkillMetadata(skillMd: string | undefined, dirName?: string): SkillMetadata {
+  const issues: FrontmatterIssue[] = [];
+  if (skillMd === undefined) {
+    return { frontmatter: null, issues: [{ severity: "error", message: "No SKILL.md found" }] };
+  }
+
+  const yaml = extractFrontmatter(skillMd);
+  if (yaml === null) {
+    return { frontmatter: null, issues: [{ severity: "error", message: "SKILL.md has no YAML frontmatter (--- block at the top of the file)" }] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseYaml(yaml);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message.split("\n")[0] : "unknown";
+    return { frontmatter: null, issues: [{ severity: "error", message: `Frontmatter is not valid YAML: ${detail}` }] };
+  }
+
+  const parsed = frontmatterSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+      return { frontmatter: null, issues: [{ severity: "error", message: "Frontmatter must be a YAML mapping of fields" }] };
+    }
+    // Report each mistyped field, then validate the rest as if it were absent
+    const bad = new Set<string>();
+    for (const issue of parsed.error.issues) {
+      const field = String(issue.path[0]);
+      if (bad.has(field)) continue;
+      bad.add(field);
+      issues.push({ severity: "error", field, message: `\`${field}\` has the wrong type (${issue.message})` });
+    }
+    const rest = Object.fromEntries(Object.entries(raw).filter(([key]) => !bad.has(key)));
+    const retry = validateFields(frontmatterSchema.parse(rest), dirName);
+    return { frontmatter: retry.frontmatter, issues: [...issues, ...retry.issues] };
+  }
+
+  return validateFields(parsed.data, dirName);
+}
+
+function validateFields(data: z.infer<typeof frontmatterSchema>, dirName: string | undefined): SkillMetadata {
+  const issues: FrontmatterIssue[] = [];
+  const frontmatter: SkillFrontmatter = {
+    name: data.name?.trim() || undefined,
+    description: data.description?.trim() || undefined,
+    allowedTools: data["allowed-tools"] === undefined ? undefined : splitTools(data["allowed-tools"]),
+    version: data.version === undefined ? undefined : String(data.version),
+    license: data.license,
+  };
+
+  const { name, description } = frontmatter;
+  if (!name) {
+    issues.push({ severity: "error", field: "name", message: "Missing required field `name`" });
+  } else {
+    if (name.length > SKILL_NAME_MAX_LENGTH) {
+      issues.push({ severity: "error", field: "name", message: `\`name\` is ${name.length} characters (max ${SKILL_NAME_MAX_LENGTH})` });
+    }
+    if (!NAME_FORMAT.test(name)) {
+      issues.push({ severity: "error", field: "name", message: "`name` must use only lowercase letters, digits and hyphens" });
+    }
+    const reserved = RESERVED_NAME_WORDS.find((w) => name.toLowerCase().includes(w));
+    if (reserved) {
+      issues.push({ severity: "error", field: "name", message: `\`name\` must not contain the reserved word "${reserved}"` });
+    }
+    if (dirName && name !== dirName) {
+      issues.push({ severity: "warning", field: "name", message: `\`name\` "${name}" does not match the skill directory "${dirName}"` });
+    }
+  }
+
+  if (!description) {
+    issues.push({ severity: "error", field: "description", message: "Missing required field `description` — Claude uses it to decide when to load the skill" });
+  } else {
+    if (description.length > SKILL_DESCRIPTION_MAX_LENGTH) {
+      issues.push({ severity: "error", field: "description", message: `\`description\` is ${description.length} characters (max ${SKILL_DESCRIPTION_MAX_LENGTH})` });
+    }
+    if (XML_TAG.test(description)) {
+      issues.push({ severity: "warning", field: "description", message: "`description` contains XML tags" });
+    }
+  }
+
+  if (frontmatter.allowedTools?.length === 0) {
+    issues.push({ severity: "warning", field: "allowed-tools", message: "`allowed-tools` is present but lists no tools" });
+  }
+
+  return { frontmatter, issues };
+}
+
+/** Locate SKILL.md in a file list (root level, case-insensitive) and validate it. */
+export function skillMetadataFromFiles(
+  files: ReadonlyArray<{ path: string; content: string }>,
+  dirName?: string,
+): SkillMetadata {
+  const skillMd = files.find((f) => f.path.toLowerCase() === "skill.md");
+  return validateSkillMetadata(skillMd?.content, dirName);
+}
+
+/** Count of issues at error severity. */
+export function countMetadataErrors(metadata: SkillMetadata): number {
+  return metadata.issues.filter((i) => i.severity === "error").length;
+}
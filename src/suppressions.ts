@@ -0,0 +1,185 @@
+import { readFile, writeFile, rename, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import type { Threat } from "./security-scanner.js";
+import { resolvePaths, type SkillScope } from "./scope-resolver.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * An accepted false positive. Keyed by pattern id + file + skill content hash,
+ * so any change to the skill's content invalidates it automatically.
+ */
+export interface Suppression {
+  pattern: string;
+  file?: string;
+  contentHash: string;
+  reason: string;
+  reviewer: string;
+  expires?: string;    // ISO 8601; the entry stops applying after this instant
+  skill?: string;      // informational: skill name or URL it was recorded for
+  createdAt: string;
+  scope?: SkillScope;  // file it was loaded from; only global entries cover blocking findings
+}
+
+export interface SuppressionFile {
+  version: 1;
+  suppressions: Suppression[];
+}
+
+export interface SuppressionState {
+  suppressions: Suppression[];
+  errors: string[];
+  /** Hash of the active entries — changes whenever the effective set does. */
+  signature: string;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const isoDate = z.string().refine((v) => !Number.isNaN(Date.parse(v)), "must be an ISO 8601 date");
+
+const suppressionSchema = z.object({
+  pattern: z.string().min(1).max(1000),
+  file: z.string().min(1).max(500).optional(),
+  contentHash: z.string().regex(/^[0-9a-f]{64}$/),
+  reason: z.string().min(1).max(500),
+  reviewer: z.string().min(1).max(100),
+  expires: isoDate.optional(),
+  skill: z.string().max(300).optional(),
+  createdAt: isoDate,
+});
+
+const fileSchema = z.object({
+  version: z.literal(1),
+  suppressions: z.array(suppressionSchema),
+});
+
+// ─── Fingerprints ────────────────────────────────────────────────────────────
+
+export function threatFingerprint(pattern: string, file: string | undefined, contentHash: string): string {
+  return createHash("sha256")
+    .update(`${pattern}\n${file ?? ""}\n${contentHash}`)
+    .digest("hex")
+    .substring(0, 16);
+}
+
+export function suppressionFingerprint(s: Pick<Suppression, "pattern" | "file" | "contentHash">): string {
+  return threatFingerprint(s.pattern, s.file, s.contentHash);
+}
+
+// A file whose scan never finished lost all of its findings, criticals included
+const UNFINISHED_SCAN_PATTERNS = new Set(["scan-timeout", "scan-error"]);
+
+/** Whether `threat` blocks installation with no override: a critical finding, or a file that was not fully scanned. */
+export function blocksInstall(threat: Threat): boolean {
+  return threat.severity === "critical" || UNFINISHED_SCAN_PATTERNS.has(threat.pattern);
+}
+
+export function isExpired(s: Suppression, now = Date.now()): boolean {
+  return s.expires !== undefined && Date.parse(s.expires) < now;
+}
+
+/**
+ * Fingerprint every threat against the skill's content hash and mark the
+ * ones covered by an unexpired suppression. Mutates and returns `threats`.
+ * Findings that block installation are only covered by entries from the
+ * global file: the suppress tool refuses them, so such an entry was written
+ * by hand, while a project file arrives with whatever repository the user
+ * opened.
+ */
+export function applySuppressions(threats: Threat[], contentHash: string, suppressions: Suppression[] = []): Threat[] {
+  const now = Date.now();
+  const active = new Map<string, Suppression>();
+  for (const s of suppressions) {
+    if (s.contentHash === contentHash && !isExpired(s, now)) {
+      const fp = suppressionFingerprint(s);
+      if (!active.has(fp) || s.scope === "global") active.set(fp, s);
+    }
+  }
+  for (const threat of threats) {
+    threat.fingerprint = threatFingerprint(threat.pattern, threat.file, contentHash);
+    const match = active.get(threat.fingerprint);
+    if (match && (!blocksInstall(threat) || match.scope === "global")) {
+      threat.suppression = { reason: match.reason, reviewer: match.reviewer, expires: match.expires };
+    }
+  }
+  return threats;
+}
+
+// ─── Read / Write ────────────────────────────────────────────────────────────
+
+export function emptySuppressionFile(): SuppressionFile {
+  return { version: 1, suppressions: [] };
+}
+
+export async function readSuppressions(path: string): Promise<SuppressionFile> {
+  try {
+    const raw = await readFile(path, "utf-8");
+    return fileSchema.parse(JSON.parse(raw));
+  } catch (err) {
+    if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      return emptySuppressionFile();
+    }
+    throw err;
+  }
+}
+
+export async function writeSuppressions(file: SuppressionFile, path: string): Promise<void> {
+  const validated = fileSchema.parse(file);
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = path + ".tmp";
+  await writeFile(tmpPath, JSON.stringify(validated, null, 2) + "\n", "utf-8");
+  await rename(tmpPath, path);
+}
+
+/** Add or replace (same fingerprint) a suppression entry. */
+export async function addSuppression(entry: Suppression, path: string): Promise<SuppressionFile> {
+  const file = await readSuppressions(path);
+  const fp = suppressionFingerprint(entry);
+  file.suppressions = file.suppressions.filter((s) => suppressionFingerprint(s) !== fp);
+  file.suppressions.push(entry);
+  await writeSuppressions(file, path);
+  return file;
+}
+
+export async function removeSuppression(fingerprint: string, path: string): Promise<boolean> {
+  const file = await readSuppressions(path);
+  const before = file.suppressions.length;
+  file.suppressions = file.suppressions.filter((s) => suppressionFingerprint(s) !== fingerprint);
+  if (file.suppressions.length === before) return false;
+  await writeSuppressions(file, path);
+  return true;
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Read the global (~/.claude/skillsync-ignore.json) and project
+ * (<cwd>/.claude/skillsync-ignore.json) suppression files. A malformed file
+ * is reported in `errors` and contributes no entries, so a bad edit can
+ * only un-suppress findings, never hide new ones.
+ */
+export async function loadSuppressions(paths?: string[]): Promise<SuppressionState> {
+  const globalPath = resolvePaths("global").suppressionsPath;
+  const files = paths ?? [...new Set([globalPath, resolvePaths("project").suppressionsPath])];
+  const suppressions: Suppression[] = [];
+  const errors: string[] = [];
+  for (const path of files) {
+    try {
+      const scope: SkillScope = path === globalPath ? "global" : "project";
+      suppressions.push(...(await readSuppressions(path)).suppressions.map((s) => ({ ...s, scope })));
+    } catch (err) {
+      const detail = err instanceof z.ZodError
+        ? err.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ")
+        : err instanceof Error ? err.message : "unknown";
+      errors.push(`${path}: ${detail}`);
+    }
+  }
+  const now = Date.now();
+  const signature = createHash("sha256")
+    .update(JSON.stringify(suppressions.filter((s) => !isExpired(s, now))))
+    .digest("hex")
+    .substring(0, 16);
+  return { suppressions, errors, signature };
+}
@@ -5,6 +5,8 @@ import { readSyncConfig, type SyncConfig, type SyncSubscription } from "./sync-c
 import { readSyncLock, writeSyncLock, isSyncManaged, type SyncLockFile, type LockedSkill } from "./sync-lock.js";
 import { SYNC_API_DELAY_MS, RISK_LEVEL_ORDER } from "./constants.js";
 import { type SkillScope, type ResolvedPaths, resolvePaths } from "./scope-resolver.js";
+import { validateGithubUrl, type ParsedGitHubUrl } from "./security-scanner.js";
+import { resolvePathShas } from "./github-source.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -46,6 +48,7 @@ interface DiscoveredSkill {
   skill: SkillResult;
   subIds: string[];
   inferredName: string;
+  treeSha?: string;  // upstream Git tree of the skill path, resolved for already-locked skills
 }
 
 // ─── Diff Result ─────────────────────────────────────────────────────────────
@@ -83,8 +86,13 @@ export function computeSyncDiff(
       // New skill — schedule install
       toInstall.push({ name: disc.inferredName, githubUrl, subIds: disc.subIds, updatedAt });
     } else {
-      // Existing — check for upstream changes via updatedAt
-      if (updatedAt !== locked.upstreamUpdatedAt) {
+      // Existing — check for upstream changes by the skill path's Git tree,
+      // which commits elsewhere in a monorepo leave alone, falling back to
+      // the marketplace's updatedAt when either side has no tree recorded
+      const changed = disc.treeSha && locked.treeSha
+        ? disc.treeSha !== locked.treeSha
+        : updatedAt !== locked.upstreamUpdatedAt;
+      if (changed) {
         // Check local modification (conflict detection)
         const localSkill = manager.getSkill(locked.name);
         if (localSkill && localSkill.contentHash !== locked.installedHash) {
@@ -136,6 +144,36 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Resolve the upstream Git tree of each skill, with one tree listing per
+ * repository and ref rather than one request per skill, spaced like the
+ * other API calls. Skills that cannot be resolved keep no treeSha and fall
+ * back to the updatedAt comparison.
+ */
+async function resolveUpstreamTrees(skills: DiscoveredSkill[]): Promise<void> {
+  const groups = new Map<string, { parsed: ParsedGitHubUrl; skills: Array<{ disc: DiscoveredSkill; path: string }> }>();
+  for (const disc of skills) {
+    const parsed = validateGithubUrl(disc.skill.githubUrl);
+    if (!parsed) continue;
+    const key = `${parsed.owner}/${parsed.repo}@${parsed.ref}`;
+    const group = groups.get(key) ?? { parsed, skills: [] };
+    group.skills.push({ disc, path: parsed.path });
+    groups.set(key, group);
+  }
+
+  let first = true;
+  for (const { parsed, skills: members } of groups.values()) {
+    if (!first) await delay(SYNC_API_DELAY_MS);
+    first = false;
+    try {
+      const shas = await resolvePathShas(parsed, members.map((m) => m.path), "skillsync-mcp-sync/1.0");
+      for (const { disc, path } of members) disc.treeSha = shas.get(path);
+    } catch {
+      // fall back to updatedAt comparison
+    }
+  }
+}
+
 // ─── SyncEngine Class ────────────────────────────────────────────────────────
 
 export class SyncEngine {
@@ -240,8 +278,10 @@ export class SyncEngine {
         }
       }
 
-      // Phase 2: Compute diff
+      // Phase 2: Resolve upstream trees for locked skills, then compute diff
       const lock = await readSyncLock(this.paths.syncLockPath);
+      const lockedUrls = new Set(Object.values(lock.skills).map((s) => s.githubUrl));
+      await resolveUpstreamTrees([...discovered.values()].filter((d) => lockedUrls.has(d.skill.githubUrl)));
       const diff = computeSyncDiff(discovered, lock, config, manager);
       const maxRisk = RISK_LEVEL_ORDER[config.maxRiskLevel] ?? 1;
 
@@ -310,6 +350,8 @@ export class SyncEngine {
             filesCount: result.filesCount,
             hasSkillMd: result.hasSkillMd,
             upstreamUpdatedAt: item.updatedAt,
+            commitSha: result.commitSha,
+            treeSha: result.treeSha,
           };
 
           actions.push({
@@ -364,6 +406,8 @@ export class SyncEngine {
             lock.skills[skillName].filesCount = result.filesCount;
             lock.skills[skillName].hasSkillMd = result.hasSkillMd;
             lock.skills[skillName].upstreamUpdatedAt = item.updatedAt;
+            lock.skills[skillName].commitSha = result.commitSha;
+            lock.skills[skillName].treeSha = result.treeSha;
           }
 
           actions.push({
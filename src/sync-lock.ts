@@ -15,7 +15,9 @@ export interface LockedSkill {
   riskLevel: string;
   filesCount: number;
   hasSkillMd: boolean;
-  upstreamUpdatedAt?: string;  // raw updatedAt from API for change detection
+  upstreamUpdatedAt?: string;  // raw updatedAt from API, fallback change detection
+  commitSha?: string;          // commit the installed content was fetched from
+  treeSha?: string;            // Git tree of the skill path at that commit, for change detection
 }
 
 export interface SyncLockFile {
@@ -1,7 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { searchSkills, aiSearchSkills } from "./api-client.js";
-import { fetchAndScanSkill } from "./security-scanner.js";
+import { fetchAndScanSkill, formatThreatLocation, validateGithubUrl, type Threat, type ScanResult } from "./security-scanner.js";
 import { installSkill, uninstallSkill } from "./installer.js";
 import { sanitizeText, sanitizeUrl } from "./sanitize.js";
 import { getSkillManager, getAllManagers } from "./skill-manager.js";
@@ -9,6 +9,14 @@ import { getSyncEngine, shutdownAllEngines } from "./sync-engine.js";
 import { readSyncConfig, writeSyncConfig, mergeSyncConfig, addSubscription, removeSubscription } from "./sync-config.js";
 import { readSyncLock, isSyncManaged } from "./sync-lock.js";
 import { resolvePaths, type SkillScope } from "./scope-resolver.js";
+import { loadPatternPacks, customPatterns } from "./pattern-packs.js";
+import { renderReport, writeReport, type ReportFormat, type ReportTarget } from "./report-format.js";
+import { addSuppression, blocksInstall, removeSuppression } from "./suppressions.js";
+import { countMetadataErrors, type SkillMetadata } from "./skill-metadata.js";
+import type { CapabilityProfile } from "./capabilities.js";
+import type { SniffedFile } from "./file-type.js";
+import type { ArchiveListing } from "./archive.js";
+import type { NetworkDestination } from "./network-inventory.js";
 import type { SkillResult, AiSearchResult } from "./api-client.js";
 
 // ─── Reusable Scope Schema ──────────────────────────────────────────────────
@@ -16,6 +24,12 @@ import type { SkillResult, AiSearchResult } from "./api-client.js";
 const scopeParam = z.enum(["global", "project"]).default("global")
   .describe('Scope: "global" (~/.claude/skills/) or "project" (.claude/skills/ in cwd)');
 
+const formatParam = z.enum(["markdown", "json", "sarif"]).default("markdown")
+  .describe('Report format: "markdown" (default), "json" (stable schema) or "sarif" (SARIF 2.1.0 for code-scanning dashboards)');
+
+const outputPathParam = z.string().min(1).max(1000).optional()
+  .describe("Absolute .json or .sarif file path to write the json/sarif report to; must not exist yet");
+
 const scopeParamAll = z.enum(["global", "project", "all"]).default("global")
   .describe('Scope: "global", "project", or "all" for cross-scope view');
 
@@ -73,6 +87,217 @@ function formatAiSkill(skill: AiSearchResult, index: number): string {
   return base;
 }
 
+/**
+ * Render one threat with its file:line:col location, other occurrences and
+ * the sanitized code snippet, so reviewers can jump to the offending code.
+ */
+function formatThreat(threat: Threat, icon: string): string[] {
+  const where = formatThreatLocation(threat);
+  // e.g. [prompt-injection, markdown comment] or [shell-execution, python]
+  const origin = [threat.language, threat.context].filter(Boolean).join(" ");
+  const lines = [
+    `${icon} **${threat.severity.toUpperCase()}** [${threat.category}${origin ? `, ${origin}` : ""}]${where ? ` \`${sanitizeText(where)}\`` : ""}: ${threat.description}`,
+  ];
+  if (threat.occurrences && threat.occurrences > 1) {
+    const others = (threat.locations ?? []).slice(1).map((l) => `${l.line}:${l.column}`);
+    const truncated = threat.occurrences > (threat.locations?.length ?? 0) ? ", …" : "";
+    lines.push(`  - ${threat.occurrences} occurrences${others.length > 0 ? ` — also at ${others.join(", ")}${truncated}` : ""}`);
+  }
+  if (threat.suppression) {
+    const { reason, reviewer, expires } = threat.suppression;
+    lines.push(`  - Suppressed by ${sanitizeText(reviewer)}${expires ? ` until ${sanitizeText(expires)}` : ""}: ${sanitizeText(reason)}`);
+  } else if (threat.fingerprint) {
+    lines.push(`  - Fingerprint: \`${threat.fingerprint}\``);
+  }
+  if (threat.snippet) {
+    lines.push("", "```text", threat.snippet, "```", "");
+  }
+  return lines;
+}
+
+/**
+ * Render active threats under "Threats Found" and accepted false positives
+ * under "Suppressed". Returns the number of active threats.
+ */
+function formatThreatSections(lines: string[], threats: Threat[], icons: { critical: string; warning: string; suppressed: string }): number {
+  const active = threats.filter((t) => !t.suppression);
+  const suppressed = threats.filter((t) => t.suppression);
+  if (active.length > 0) {
+    lines.push("", "### Threats Found", "");
+    for (const threat of active) {
+      lines.push(...formatThreat(threat, threat.severity === "critical" ? icons.critical : icons.warning));
+    }
+  }
+  if (suppressed.length > 0) {
+    lines.push("", `### Suppressed (${suppressed.length})`, "", "_Accepted false positives — not counted toward the risk level._", "");
+    for (const threat of suppressed) {
+      lines.push(...formatThreat(threat, icons.suppressed));
+    }
+  }
+  return active.length;
+}
+
+/**
+ * Render the parsed SKILL.md frontmatter and any schema issues. Field values
+ * come from the skill itself, so they are sanitized like marketplace data.
+ */
+function formatSkillMetadata(lines: string[], metadata: SkillMetadata): void {
+  const fm = metadata.frontmatter;
+  lines.push("", "### SKILL.md Frontmatter", "");
+  if (fm) {
+    lines.push(`- **Name**: ${sanitizeText(fm.name) || "_missing_"}`);
+    lines.push(`- **Description**: ${sanitizeText(fm.description) || "_missing_"}`);
+    if (fm.allowedTools) {
+      lines.push(`- **Allowed Tools**: ${fm.allowedTools.map((t) => `\`${sanitizeText(t)}\``).join(", ") || "_none_"}`);
+    }
+    if (fm.version) lines.push(`- **Version**: ${sanitizeText(fm.version)}`);
+    if (fm.license) lines.push(`- **License**: ${sanitizeText(fm.license)}`);
+  }
+  if (metadata.issues.length === 0) {
+    lines.push("- **Schema**: valid");
+    return;
+  }
+  for (const issue of metadata.issues) {
+    lines.push(`- ${issue.severity === "error" ? "❌" : "⚠️"} ${sanitizeText(issue.message)}`);
+  }
+}
+
+const MAX_RISK_FACTORS = 10;
+
+/**
+ * Explain the risk score: the largest contributions, with combinations of
+ * findings that escalated it called out.
+ */
+function formatRiskFactors(lines: string[], result: ScanResult): void {
+  const factors = result.riskFactors ?? [];
+  if (factors.length === 0) return;
+  lines.push("", "### Risk Factors", "");
+  for (const f of factors.slice(0, MAX_RISK_FACTORS)) {
+    const where = f.file ? ` in \`${sanitizeText(f.file)}\`` : "";
+    const label = f.kind === "combination" ? `**Combination** \`${f.id}\`` : `\`${sanitizeText(f.id)}\`${where}`;
+    lines.push(`- +${f.points} ${label} — ${sanitizeText(f.detail)}`);
+  }
+  if (factors.length > MAX_RISK_FACTORS) {
+    lines.push(`- … ${factors.length - MAX_RISK_FACTORS} smaller contribution(s)`);
+  }
+}
+
+/**
+ * Render what the skill's code was seen doing next to what its SKILL.md
+ * declares, with the locations that gave each capability away.
+ */
+function formatCapabilityProfile(lines: string[], profile: CapabilityProfile): void {
+  lines.push("", "### Capability Profile", "");
+  if (profile.inferred.length === 0) {
+    lines.push("No network, shell, file-write, environment or credential access detected.");
+  } else {
+    lines.push("| Capability | Declared | Evidence |", "|------------|----------|----------|");
+    for (const { capability, declared, evidence } of profile.inferred) {
+      const shown = evidence.slice(0, 3).map((e) => `\`${sanitizeText(e)}\``).join(", ");
+      const more = evidence.length > 3 ? ` +${evidence.length - 3} more` : "";
+      const status = !profile.hasDeclaration ? "—" : declared ? "Yes" : "**No**";
+      lines.push(`| ${capability} | ${status} | ${shown}${more} |`);
+    }
+  }
+  lines.push("", profile.hasDeclaration
+    ? `**Declared**: ${profile.declared.join(", ") || "none"} (from \`allowed-tools\` and the description)`
+    : "**Declared**: unknown — SKILL.md has no frontmatter to compare against");
+}
+
+/**
+ * List the native executables and `#!` scripts found by content, whatever
+ * their file names claim.
+ */
+function formatExecutables(lines: string[], executables: SniffedFile[]): void {
+  if (executables.length === 0) return;
+  lines.push("", "### Executables & Scripts", "");
+  for (const { path, type } of executables) {
+    const what = type.kind === "script" ? `script (\`#!\` ${sanitizeText(type.interpreter ?? "")})` : `${sanitizeText(type.format)} executable`;
+    lines.push(`- \`${sanitizeText(path)}\` — ${what}`);
+  }
+}
+
+const MAX_ARCHIVE_MEMBERS_SHOWN = 20;
+
+/**
+ * List what each inspected archive contains; findings inside refer to
+ * members as `archive.zip!/inner/path`.
+ */
+function formatArchives(lines: string[], archives: ArchiveListing[]): void {
+  if (archives.length === 0) return;
+  lines.push("", "### Archives", "");
+  for (const { path, format, members, truncated } of archives) {
+    lines.push(`- \`${sanitizeText(path)}\` (${format}, ${members.length}${truncated ? "+" : ""} entries)`);
+    for (const m of members.slice(0, MAX_ARCHIVE_MEMBERS_SHOWN)) {
+      const detail = m.kind === "file" ? `${Math.ceil(m.size / 1024)}KB` : m.kind;
+      lines.push(`  - \`${sanitizeText(m.name)}\` — ${detail}`);
+    }
+    if (members.length > MAX_ARCHIVE_MEMBERS_SHOWN) {
+      lines.push(`  - … ${members.length - MAX_ARCHIVE_MEMBERS_SHOWN} more`);
+    }
+  }
+}
+
+const MAX_DESTINATIONS_SHOWN = 30;
+
+/**
+ * Where the skill talks to: every host its files reference, with how it was
+ * classified and where it first appears.
+ */
+function formatDestinations(lines: string[], destinations: NetworkDestination[]): void {
+  if (destinations.length === 0) return;
+  lines.push("", "### Network Destinations", "", "| Host | Class | Occurrences | First Seen |", "|------|-------|-------------|------------|");
+  for (const { host, classes, locations, occurrences } of destinations.slice(0, MAX_DESTINATIONS_SHOWN)) {
+    const first = locations[0];
+    const where = first ? `\`${sanitizeText(`${first.file}:${first.line}`)}\`` : "—";
+    lines.push(`| \`${sanitizeText(host)}\` | ${classes.join(", ") || "other"} | ${occurrences} | ${where} |`);
+  }
+  if (destinations.length > MAX_DESTINATIONS_SHOWN) {
+    lines.push("", `… ${destinations.length - MAX_DESTINATIONS_SHOWN} more host(s)`);
+  }
+}
+
+/** One-cell frontmatter status for the installed-skills table. */
+function metadataStatus(metadata: SkillMetadata): string {
+  const errors = countMetadataErrors(metadata);
+  const warnings = metadata.issues.length - errors;
+  if (errors > 0) return `${errors} error(s)`;
+  if (warnings > 0) return `${warnings} warning(s)`;
+  return "OK";
+}
+
+/**
+ * Render a machine-readable report and, when requested, write it to disk.
+ * Returns null for markdown so the caller renders its usual output.
+ */
+async function machineReport(
+  format: ReportFormat,
+  outputPath: string | undefined,
+  result: ScanResult,
+  target: ReportTarget,
+  filesScanned?: number,
+): Promise<{ content: Array<{ type: "text"; text: string }>; isError?: boolean } | null> {
+  if (format === "markdown") {
+    if (outputPath) {
+      return { content: [{ type: "text", text: 'outputPath requires format "json" or "sarif".' }], isError: true };
+    }
+    return null;
+  }
+  const extraPatterns = customPatterns(await loadPatternPacks());
+  const text = renderReport(format, result, target, { filesScanned, extraPatterns });
+  if (!outputPath) {
+    return { content: [{ type: "text", text }] };
+  }
+  const written = await writeReport(outputPath, text);
+  const active = result.threats.filter((t) => !t.suppression).length;
+  return {
+    content: [{
+      type: "text",
+      text: `${format.toUpperCase()} report written to \`${written}\` — ${result.riskLevel.toUpperCase()} risk, ${active} finding(s).`,
+    }],
+  };
+}
+
 const UNTRUSTED_DISCLAIMER =
   "\n> **Note**: Skill data above comes from third-party listings. Names, descriptions, and tags are user-submitted and unverified. Always review source code before installing.\n";
 
@@ -131,22 +356,34 @@ export function registerTools(server: McpServer): void {
     "skillsmp_scan_skill",
     "Scan a skill's GitHub source for security threats: prompt injection, reverse shells, credential theft, supply chain attacks, crypto mining, and 60+ other patterns. Only accepts github.com URLs.",
     {
-      githubUrl: z.string().url().describe("GitHub URL (https://github.com/user/repo/tree/branch/path)"),
+      githubUrl: z.string().url().describe("GitHub URL (https://github.com/user/repo/tree/<branch|sha>/path — a commit SHA pins the source)"),
+      format: formatParam,
+      outputPath: outputPathParam,
     },
-    async ({ githubUrl }) => {
+    async ({ githubUrl, format, outputPath }) => {
       try {
         const result = await fetchAndScanSkill(githubUrl);
+        const report = await machineReport(format, outputPath, result, {
+          kind: "github",
+          url: githubUrl,
+          parsed: validateGithubUrl(githubUrl),
+        });
+        if (report) return report;
+
         const riskEmoji: Record<string, string> = {
           safe: "✅", low: "🟡", medium: "🟠", high: "🔴", critical: "🚫",
         };
         const lines = [
           `## Security Scan Report`,
           `**URL**: ${sanitizeUrl(githubUrl)}`,
-          `**Risk Level**: ${riskEmoji[result.riskLevel]} ${result.riskLevel.toUpperCase()}`,
+          `**Risk Level**: ${riskEmoji[result.riskLevel]} ${result.riskLevel.toUpperCase()}${result.riskScore !== undefined ? ` (score ${result.riskScore})` : ""}`,
           `**Files Scanned**: ${result.filesScanned}`,
           `**Safe to Use**: ${result.safe ? "Yes" : "NO"}`,
           `**Content Hash (SHA-256)**: \`${result.contentHash || "N/A"}\``,
         ];
+        if (result.commitSha) {
+          lines.push(`**Commit**: \`${result.commitSha}\``);
+        }
 
         if (result.skippedBinary.length > 0) {
           lines.push(`\n**Binary files (not scanned)**: ${result.skippedBinary.join(", ")}`);
@@ -157,13 +394,17 @@ export function registerTools(server: McpServer): void {
 
         lines.push("", `### Recommendation`, result.recommendation);
 
-        if (result.threats.length > 0) {
-          lines.push("", "### Threats Found", "");
-          for (const threat of result.threats) {
-            const icon = threat.severity === "critical" ? "🚫" : "⚠️";
-            const lineInfo = threat.line ? ` (line ${threat.line})` : "";
-            lines.push(`${icon} **${threat.severity.toUpperCase()}** [${threat.category}]${lineInfo}: ${threat.description}`);
-          }
+        formatRiskFactors(lines, result);
+        formatThreatSections(lines, result.threats, { critical: "🚫", warning: "⚠️", suppressed: "🔕" });
+
+        formatExecutables(lines, result.executables ?? []);
+        formatArchives(lines, result.archives ?? []);
+        formatDestinations(lines, result.destinations ?? []);
+        if (result.capabilities) {
+          formatCapabilityProfile(lines, result.capabilities);
+        }
+        if (result.metadata) {
+          formatSkillMetadata(lines, result.metadata);
         }
 
         if (result.errors.length > 0) {
@@ -173,7 +414,7 @@ export function registerTools(server: McpServer): void {
           }
         }
 
-        lines.push("", "---", "**TOCTOU Warning**: This scan reflects the code at the time of scanning. The repository could change after this scan. Verify the content hash matches before installing.");
+        lines.push("", "---", "**TOCTOU Warning**: This scan reflects the code at the commit above. The repository could change after this scan. `skillsmp_install_skill` scans its own snapshot and only writes the exact bytes it scanned — compare its content hash with this one.");
 
         return { content: [{ type: "text", text: lines.join("\n") }] };
       } catch (error) {
@@ -222,8 +463,9 @@ export function registerTools(server: McpServer): void {
                 `- **Security**: ${riskEmoji[scan.riskLevel]} ${scan.riskLevel.toUpperCase()} (${scan.filesScanned} files, hash: \`${scan.contentHash.substring(0, 12)}...\`)`,
                 `- **Recommendation**: ${scan.recommendation}`,
               ];
-              if (scan.threats.length > 0) {
-                const grouped = scan.threats.reduce((acc, t) => {
+              const activeThreats = scan.threats.filter((t) => !t.suppression);
+              if (activeThreats.length > 0) {
+                const grouped = activeThreats.reduce((acc, t) => {
                   acc[t.category] = (acc[t.category] || 0) + 1;
                   return acc;
                 }, {} as Record<string, number>);
@@ -257,16 +499,17 @@ export function registerTools(server: McpServer): void {
   // 5. Install skill (with scope)
   server.tool(
     "skillsmp_install_skill",
-    'Security-scan a skill from GitHub, then install it. Blocks on critical threats. Use scope="project" to install to .claude/skills/ in cwd, or "global" (default) for ~/.claude/skills/.',
+    'Security-scan a skill from GitHub, then install it. Blocks on critical threats and on files that could not be fully scanned. Use scope="project" to install to .claude/skills/ in cwd, or "global" (default) for ~/.claude/skills/.',
     {
-      githubUrl: z.string().url().describe("GitHub URL (https://github.com/user/repo/tree/branch/path)"),
+      githubUrl: z.string().url().describe("GitHub URL (https://github.com/user/repo/tree/<branch|sha>/path — a commit SHA pins the source)"),
       name: z.string().min(1).max(64).optional().describe("Skill name (inferred from URL if omitted)"),
       force: z.boolean().default(false).describe("Force install: skip medium/high risk block, overwrite existing"),
       scope: scopeParam,
+      pythonVenv: z.boolean().default(false).describe("Install requirements.txt into <skill>/.venv with pip --require-hashes (wheels only)"),
     },
-    async ({ githubUrl, name, force, scope }) => {
+    async ({ githubUrl, name, force, scope, pythonVenv }) => {
       try {
-        const result = await installSkill(githubUrl, name, force, scope as SkillScope);
+        const result = await installSkill(githubUrl, name, force, scope as SkillScope, pythonVenv);
 
         // Update skill registry
         const mgr = getSkillManager(scope as SkillScope);
@@ -286,17 +529,27 @@ export function registerTools(server: McpServer): void {
           `- **Scope**: ${scope}`,
           `- **Path**: \`${result.installPath}\``,
           `- **Files**: ${result.filesCount}`,
-          `- **Content Hash**: \`${result.contentHash.substring(0, 16)}...\``,
+          `- **Content Hash**: \`${result.contentHash.substring(0, 16)}...\` (verified against scan)`,
+          `- **Commit**: \`${result.commitSha}\``,
           `- **SKILL.md**: ${result.hasSkillMd ? "Found" : "Missing (skill may not load)"}`,
           `- **Security**: ${result.scanSummary}`,
         ];
         if (result.npmInstalled) {
           lines.push(`- **npm install**: Completed (--ignore-scripts)`);
         }
+        if (result.pythonInstalled) {
+          lines.push(`- **Python venv**: \`${result.venvPath}\` (--require-hashes, wheels only)`);
+        }
+        if (result.files.length > 0) {
+          lines.push("", "### Installed Files");
+          for (const f of result.files) {
+            lines.push(`- \`${sanitizeText(f)}\``);
+          }
+        }
         if (result.warnings.length > 0) {
           lines.push("", "### Warnings");
           for (const w of result.warnings) {
-            lines.push(`- ${w}`);
+            lines.push(`- ${sanitizeText(w)}`);
           }
         }
         lines.push("", "Restart Claude Code to load the new skill.");
@@ -357,6 +610,7 @@ export function registerTools(server: McpServer): void {
           riskLevel: string;
           filesCount: number;
           hasSkillMd: boolean;
+          metadata: SkillMetadata;
           lastScanned: string;
           scope: string;
         }> = [];
@@ -395,25 +649,36 @@ export function registerTools(server: McpServer): void {
 
         if (showScope) {
           lines.push(
-            `| Skill | Scope | Risk | Files | SKILL.md | Last Scanned |`,
-            `|-------|-------|------|-------|----------|--------------|`,
+            `| Skill | Scope | Risk | Files | SKILL.md | Frontmatter | Last Scanned |`,
+            `|-------|-------|------|-------|----------|-------------|--------------|`,
           );
           for (const s of allSkills) {
             const emoji = riskEmoji[s.riskLevel] || "";
             const md = s.hasSkillMd ? "Yes" : "No";
             const scanned = s.lastScanned.split("T")[0];
-            lines.push(`| ${s.name} | ${s.scope} | ${emoji} ${s.riskLevel.toUpperCase()} | ${s.filesCount} | ${md} | ${scanned} |`);
+            lines.push(`| ${s.name} | ${s.scope} | ${emoji} ${s.riskLevel.toUpperCase()} | ${s.filesCount} | ${md} | ${metadataStatus(s.metadata)} | ${scanned} |`);
           }
         } else {
           lines.push(
-            `| Skill | Risk | Files | SKILL.md | Last Scanned |`,
-            `|-------|------|-------|----------|--------------|`,
+            `| Skill | Risk | Files | SKILL.md | Frontmatter | Last Scanned |`,
+            `|-------|------|-------|----------|-------------|--------------|`,
           );
           for (const s of allSkills) {
             const emoji = riskEmoji[s.riskLevel] || "";
             const md = s.hasSkillMd ? "Yes" : "No";
             const scanned = s.lastScanned.split("T")[0];
-            lines.push(`| ${s.name} | ${emoji} ${s.riskLevel.toUpperCase()} | ${s.filesCount} | ${md} | ${scanned} |`);
+            lines.push(`| ${s.name} | ${emoji} ${s.riskLevel.toUpperCase()} | ${s.filesCount} | ${md} | ${metadataStatus(s.metadata)} | ${scanned} |`);
+          }
+        }
+
+        const withIssues = allSkills.filter((s) => s.hasSkillMd && s.metadata.issues.length > 0);
+        if (withIssues.length > 0) {
+          lines.push("", "### Frontmatter Issues", "");
+          for (const s of withIssues) {
+            const label = showScope ? `${s.name} (${s.scope})` : s.name;
+            for (const issue of s.metadata.issues) {
+              lines.push(`- **${label}** — ${issue.severity}: ${sanitizeText(issue.message)}`);
+            }
           }
         }
 
@@ -438,11 +703,21 @@ export function registerTools(server: McpServer): void {
     {
       name: z.string().min(1).max(64).describe("Name of the installed skill to audit"),
       scope: scopeParam,
+      format: formatParam,
+      outputPath: outputPathParam,
     },
-    async ({ name, scope }) => {
+    async ({ name, scope, format, outputPath }) => {
       try {
         const mgr = getSkillManager(scope as SkillScope);
         const skill = await mgr.scanLocalSkill(name);
+        const report = await machineReport(format, outputPath, skill.scanResult, {
+          kind: "installed",
+          name,
+          scope,
+          path: skill.path,
+        }, skill.filesCount);
+        if (report) return report;
+
         const riskEmoji: Record<string, string> = {
           safe: "\\u2705", low: "\\uD83D\\uDFE1", medium: "\\uD83D\\uDFE0", high: "\\uD83D\\uDD34", critical: "\\uD83D\\uDEAB",
         };
@@ -451,7 +726,7 @@ export function registerTools(server: McpServer): void {
           `## Security Audit: "${name}" (${scope})`,
           `**Path**: \`${skill.path}\``,
           `**Scope**: ${scope}`,
-          `**Risk Level**: ${riskEmoji[skill.scanResult.riskLevel] || ""} ${skill.scanResult.riskLevel.toUpperCase()}`,
+          `**Risk Level**: ${riskEmoji[skill.scanResult.riskLevel] || ""} ${skill.scanResult.riskLevel.toUpperCase()}${skill.scanResult.riskScore !== undefined ? ` (score ${skill.scanResult.riskScore})` : ""}`,
           `**Files Scanned**: ${skill.filesCount}`,
           `**Total Size**: ${Math.round(skill.totalSize / 1024)}KB`,
           `**Safe to Use**: ${skill.scanResult.safe ? "Yes" : "NO"}`,
@@ -462,17 +737,25 @@ export function registerTools(server: McpServer): void {
 
         lines.push("", `### Recommendation`, skill.scanResult.recommendation);
 
-        if (skill.scanResult.threats.length > 0) {
-          lines.push("", "### Threats Found", "");
-          for (const threat of skill.scanResult.threats) {
-            const icon = threat.severity === "critical" ? "\\uD83D\\uDEAB" : "\\u26A0\\uFE0F";
-            const lineInfo = threat.line ? ` (line ${threat.line})` : "";
-            lines.push(`${icon} **${threat.severity.toUpperCase()}** [${threat.category}]${lineInfo}: ${threat.description}`);
-          }
-        } else {
+        formatRiskFactors(lines, skill.scanResult);
+
+        const activeThreats = formatThreatSections(lines, skill.scanResult.threats, {
+          critical: "\\uD83D\\uDEAB", warning: "\\u26A0\\uFE0F", suppressed: "\\uD83D\\uDD15",
+        });
+        if (activeThreats === 0) {
           lines.push("", "### No Threats Found", "This skill passed all security checks.");
         }
 
+        formatExecutables(lines, skill.scanResult.executables ?? []);
+        formatArchives(lines, skill.scanResult.archives ?? []);
+        formatDestinations(lines, skill.destinations);
+        if (skill.scanResult.capabilities) {
+          formatCapabilityProfile(lines, skill.scanResult.capabilities);
+        }
+        if (skill.hasSkillMd) {
+          formatSkillMetadata(lines, skill.metadata);
+        }
+
         return { content: [{ type: "text", text: lines.join("\n") }] };
       } catch (error) {
         return { content: [{ type: "text", text: `Audit failed: ${error instanceof Error ? error.message : "Unknown error"}` }], isError: true };
@@ -689,11 +972,12 @@ export function registerTools(server: McpServer): void {
           ];
 
           if (status.managedSkills > 0) {
-            lines.push("", "#### Managed Skills", "", "| Skill | Risk | Synced | Source |", "|-------|------|--------|--------|");
+            lines.push("", "#### Managed Skills", "", "| Skill | Risk | Synced | Commit | Source |", "|-------|------|--------|--------|--------|");
             for (const [name, locked] of Object.entries(lock.skills)) {
               const url = sanitizeUrl(locked.githubUrl);
               const urlShort = url.length > 50 ? url.substring(0, 47) + "..." : url;
-              lines.push(`| ${name} | ${locked.riskLevel} | ${locked.lastSynced.split("T")[0]} | ${urlShort} |`);
+              const commit = locked.commitSha ? `\`${locked.commitSha.substring(0, 7)}\`` : "-";
+              lines.push(`| ${name} | ${locked.riskLevel} | ${locked.lastSynced.split("T")[0]} | ${commit} | ${urlShort} |`);
             }
           }
 
@@ -812,14 +1096,14 @@ export function registerTools(server: McpServer): void {
             const urlParts = input.replace(/\/+$/, "").split("/");
             const name = sanitizeText(urlParts[urlParts.length - 1] || "unknown");
             const categories = [
-              ...new Set(scanResult.threats.map((t) => t.category)),
+              ...new Set(scanResult.threats.filter((t) => !t.suppression).map((t) => t.category)),
             ];
             return {
               name,
               riskLevel: scanResult.riskLevel,
               filesCount: scanResult.filesScanned,
               hasSkillMd: false, // Cannot determine from remote scan
-              threatCount: scanResult.threats.length,
+              threatCount: scanResult.threats.filter((t) => !t.suppression).length,
               threatCategories: categories,
               safe: scanResult.safe,
               source: sanitizeUrl(input),
@@ -830,14 +1114,14 @@ export function registerTools(server: McpServer): void {
           const local = mgr.getSkill(input);
           if (local) {
             const categories = [
-              ...new Set(local.scanResult.threats.map((t) => t.category)),
+              ...new Set(local.scanResult.threats.filter((t) => !t.suppression).map((t) => t.category)),
             ];
             return {
               name: local.name,
               riskLevel: local.scanResult.riskLevel,
               filesCount: local.filesCount,
               hasSkillMd: local.hasSkillMd,
-              threatCount: local.scanResult.threats.length,
+              threatCount: local.scanResult.threats.filter((t) => !t.suppression).length,
               threatCategories: categories,
               safe: local.scanResult.safe,
               source: `installed locally (${scope})`,
@@ -850,14 +1134,14 @@ export function registerTools(server: McpServer): void {
             const skill = searchResult.skills[0];
             const scanResult = await fetchAndScanSkill(skill.githubUrl);
             const categories = [
-              ...new Set(scanResult.threats.map((t) => t.category)),
+              ...new Set(scanResult.threats.filter((t) => !t.suppression).map((t) => t.category)),
             ];
             return {
               name: sanitizeText(skill.name),
               riskLevel: scanResult.riskLevel,
               filesCount: scanResult.filesScanned,
               hasSkillMd: false,
-              threatCount: scanResult.threats.length,
+              threatCount: scanResult.threats.filter((t) => !t.suppression).length,
               threatCategories: categories,
               safe: scanResult.safe,
               source: sanitizeUrl(skill.githubUrl),
@@ -914,4 +1198,150 @@ export function registerTools(server: McpServer): void {
       }
     }
   );
+
+  // 14. List custom threat pattern packs
+  server.tool(
+    "skillsmp_list_pattern_packs",
+    "List custom threat pattern packs loaded from ~/.claude/skillsync-patterns/ and .claude/skillsync-patterns/ in cwd. Pack patterns are applied to remote scans, local audits and sync.",
+    {
+      refresh: z.boolean().default(false).describe("Re-read pack files instead of using the short-lived cache"),
+    },
+    async ({ refresh }) => {
+      try {
+        const state = await loadPatternPacks({ refresh });
+        const lines = [`## Custom Pattern Packs (${state.packs.length})`, ""];
+
+        if (state.packs.length === 0) {
+          lines.push(
+            "No custom pattern packs loaded.",
+            "",
+            `Add \`.json\`, \`.yaml\` or \`.yml\` packs to \`${resolvePaths("global").patternPacksDir}\` or \`${resolvePaths("project").patternPacksDir}\`.`,
+          );
+        }
+
+        for (const pack of state.packs) {
+          lines.push(`### ${sanitizeText(pack.name)} (${pack.scope})`, "");
+          if (pack.description) lines.push(sanitizeText(pack.description), "");
+          lines.push(`- **Source**: \`${pack.source}\``, `- **Patterns**: ${pack.definitions.length}`, "");
+          lines.push(
+            `| ID | Severity | Category | Files | Description |`,
+            `|----|----------|----------|-------|-------------|`,
+          );
+          for (const def of pack.definitions) {
+            const files = def.files?.map((f) => `\`${sanitizeText(f)}\``).join(", ") || "all";
+            lines.push(`| \`${pack.name}/${def.id}\` | ${def.severity.toUpperCase()} | ${def.category} | ${files} | ${sanitizeText(def.description)} |`);
+          }
+          lines.push("");
+        }
+
+        if (state.errors.length > 0) {
+          lines.push("### Load Errors", "");
+          for (const err of state.errors) lines.push(`- ${sanitizeText(err)}`);
+        }
+
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      } catch (error) {
+        return { content: [{ type: "text", text: `List packs failed: ${error instanceof Error ? error.message : "Unknown error"}` }], isError: true };
+      }
+    }
+  );
+
+  // 15. Suppress (or un-suppress) a finding as an accepted false positive
+  server.tool(
+    "skillsmp_suppress_threat",
+    'Record a reviewed false positive so it no longer counts toward a skill\'s risk level. Takes the fingerprint shown in scan/audit reports. Warning findings only: critical findings and files that were not fully scanned cannot be suppressed this way. Suppressions are tied to the skill\'s content hash and stop applying when the content changes. Stored in skillsync-ignore.json for the given scope.',
+    {
+      target: z.string().min(1).max(300).describe("GitHub URL or installed skill name the finding was reported for"),
+      fingerprint: z.string().regex(/^[0-9a-f]{16}$/).describe("Threat fingerprint from the scan or audit report"),
+      reason: z.string().min(1).max(500).optional().describe("Why this finding is acceptable (required unless remove=true)"),
+      reviewer: z.string().min(1).max(100).optional().describe("Who reviewed it (required unless remove=true)"),
+      expires: z.string().datetime({ offset: true }).or(z.string().date()).optional().describe("Optional ISO 8601 expiry — the finding is reported again after this"),
+      remove: z.boolean().default(false).describe("Remove the suppression with this fingerprint instead of adding one"),
+      scope: scopeParam,
+    },
+    async ({ target, fingerprint, reason, reviewer, expires, remove, scope }) => {
+      try {
+        const suppressionsPath = resolvePaths(scope as SkillScope).suppressionsPath;
+
+        if (remove) {
+          const removed = await removeSuppression(fingerprint, suppressionsPath);
+          if (!target.startsWith("https://") && removed) {
+            await ensureManagerInitialized(scope as SkillScope);
+            await getSkillManager(scope as SkillScope).scanLocalSkill(target).catch(() => {});
+          }
+          return {
+            content: [{
+              type: "text",
+              text: removed
+                ? `## Suppression Removed\n\nFingerprint \`${fingerprint}\` will be reported again.`
+                : `No suppression with fingerprint \`${fingerprint}\` in \`${suppressionsPath}\`.`,
+            }],
+          };
+        }
+
+        if (!reason || !reviewer) {
+          return { content: [{ type: "text", text: "Suppress failed: reason and reviewer are required." }], isError: true };
+        }
+
+        let threats: Threat[];
+        let contentHash: string;
+        if (target.startsWith("https://")) {
+          const result = await fetchAndScanSkill(target);
+          threats = result.threats;
+          contentHash = result.contentHash;
+        } else {
+          await ensureManagerInitialized(scope as SkillScope);
+          const skill = await getSkillManager(scope as SkillScope).scanLocalSkill(target);
+          threats = skill.scanResult.threats;
+          contentHash = skill.contentHash;
+        }
+
+        const threat = threats.find((t) => t.fingerprint === fingerprint);
+        if (!threat || !contentHash) {
+          return {
+            content: [{ type: "text", text: `Suppress failed: no finding with fingerprint \`${fingerprint}\` in the current scan of "${sanitizeText(target)}". The content may have changed — re-run the scan.` }],
+            isError: true,
+          };
+        }
+        if (blocksInstall(threat)) {
+          const kind = threat.severity === "critical" ? "a critical finding" : "a file that was not fully scanned";
+          return {
+            content: [{ type: "text", text: `Suppress refused: \`${fingerprint}\` is ${kind} (${threat.description}). Such findings block installation and cannot be suppressed from a tool call. After a human review, add the entry to \`${resolvePaths("global").suppressionsPath}\` by hand.` }],
+            isError: true,
+          };
+        }
+
+        await addSuppression({
+          pattern: threat.pattern,
+          file: threat.file,
+          contentHash,
+          reason,
+          reviewer,
+          expires,
+          skill: target,
+          createdAt: new Date().toISOString(),
+        }, suppressionsPath);
+
+        if (!target.startsWith("https://")) {
+          await getSkillManager(scope as SkillScope).scanLocalSkill(target);
+        }
+
+        const lines = [
+          `## Finding Suppressed (${scope})`,
+          "",
+          `- **Finding**: [${threat.category}] ${formatThreatLocation(threat) ? `\`${sanitizeText(formatThreatLocation(threat))}\`` : "skill"}: ${threat.description}`,
+          `- **Fingerprint**: \`${fingerprint}\``,
+          `- **Reviewer**: ${sanitizeText(reviewer)}`,
+          `- **Reason**: ${sanitizeText(reason)}`,
+          `- **Expires**: ${expires ? sanitizeText(expires) : "never"}`,
+          `- **File**: \`${suppressionsPath}\``,
+          "",
+          `The suppression is tied to content hash \`${contentHash.substring(0, 16)}...\` and stops applying if the skill changes.`,
+        ];
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      } catch (error) {
+        return { content: [{ type: "text", text: `Suppress failed: ${error instanceof Error ? error.message : "Unknown error"}` }], isError: true };
+      }
+    }
+  );
 }
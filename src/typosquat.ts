@@ -0,0 +1,108 @@
+// ─── Popular Packages ────────────────────────────────────────────────────────
+
+// Offline list of heavily depended-upon npm packages — the names typosquats imitate
+export const POPULAR_NPM_PACKAGES: ReadonlySet<string> = new Set([
+  "react", "react-dom", "react-router", "react-router-dom", "react-redux", "redux", "next", "vue", "vue-router",
+  "vuex", "svelte", "angular", "@angular/core", "preact", "jquery", "lodash", "lodash-es", "underscore",
+  "ramda", "immutable", "rxjs", "moment", "dayjs", "date-fns", "luxon", "axios", "node-fetch", "got",
+  "request", "superagent", "cross-fetch", "undici", "express", "koa", "fastify", "hapi", "body-parser",
+  "cookie-parser", "cors", "helmet", "morgan", "multer", "passport", "jsonwebtoken", "bcrypt", "bcryptjs",
+  "uuid", "nanoid", "chalk", "colors", "kleur", "picocolors", "commander", "yargs", "minimist", "inquirer",
+  "prompts", "ora", "debug", "winston", "pino", "dotenv", "cross-env", "rimraf", "mkdirp", "glob",
+  "fast-glob", "globby", "minimatch", "micromatch", "chokidar", "fs-extra", "graceful-fs", "semver",
+  "execa", "shelljs", "cross-spawn", "which", "async", "bluebird", "q", "classnames", "clsx",
+  "prop-types", "styled-components", "tailwindcss", "postcss", "autoprefixer", "sass", "less",
+  "webpack", "webpack-cli", "webpack-dev-server", "babel-loader", "css-loader", "style-loader",
+  "rollup", "vite", "esbuild", "parcel", "typescript", "ts-node", "tsx", "tslib", "@types/node",
+  "@babel/core", "@babel/parser", "@babel/preset-env", "eslint", "prettier", "jest", "mocha", "chai",
+  "sinon", "vitest", "supertest", "nodemon", "concurrently", "husky", "lint-staged", "zod", "yup",
+  "joi", "ajv", "validator", "qs", "querystring", "cookie", "ws", "socket.io", "socket.io-client",
+  "mongoose", "mongodb", "mysql", "mysql2", "pg", "sqlite3", "redis", "ioredis", "sequelize", "prisma",
+  "@prisma/client", "typeorm", "knex", "graphql", "apollo-server", "@apollo/client", "aws-sdk",
+  "@aws-sdk/client-s3", "firebase", "stripe", "openai", "@anthropic-ai/sdk", "@modelcontextprotocol/sdk",
+  "puppeteer", "playwright", "cheerio", "jsdom", "sharp", "jimp", "canvas", "marked", "markdown-it",
+  "highlight.js", "yaml", "js-yaml", "xml2js", "csv-parse", "papaparse", "handlebars", "ejs", "pug",
+  "mustache", "nodemailer", "electron", "three", "d3", "chart.js", "echarts", "core-js",
+  "regenerator-runtime", "buffer", "events", "process", "util", "path-browserify", "crypto-js",
+  "form-data", "mime", "mime-types", "ms", "bytes", "iconv-lite", "string-width", "strip-ansi",
+  "ansi-regex", "ansi-styles", "supports-color", "escape-string-regexp", "object-assign",
+  "safe-buffer", "inherits", "readable-stream", "through2", "once", "wrappy", "signal-exit",
+  "source-map", "source-map-support", "deepmerge", "merge", "extend", "ini", "toml", "tar",
+  "archiver", "adm-zip", "jszip", "node-gyp", "nan", "bindings", "electron-builder",
+  // Legitimate neighbours of the names above, so they are not mistaken for typos
+  "color", "cookies", "react-dnd",
+]);
+
+// Same for PyPI, by PEP 503 normalized name
+export const POPULAR_PYPI_PACKAGES: ReadonlySet<string> = new Set([
+  "requests", "urllib3", "certifi", "idna", "charset-normalizer", "httpx", "aiohttp", "httplib2",
+  "boto3", "botocore", "s3transfer", "awscli", "google-api-python-client", "google-auth",
+  "google-cloud-storage", "azure-core", "azure-storage-blob", "numpy", "pandas", "scipy",
+  "matplotlib", "seaborn", "plotly", "scikit-learn", "tensorflow", "keras", "torch", "torchvision",
+  "transformers", "tokenizers", "datasets", "huggingface-hub", "safetensors", "accelerate",
+  "openai", "anthropic", "langchain", "langchain-core", "tiktoken", "sentencepiece", "nltk", "spacy",
+  "pillow", "opencv-python", "imageio", "django", "djangorestframework", "flask", "fastapi",
+  "starlette", "uvicorn", "gunicorn", "werkzeug", "jinja2", "markupsafe", "itsdangerous", "click",
+  "typer", "rich", "colorama", "tqdm", "pydantic", "pydantic-core", "attrs", "marshmallow",
+  "sqlalchemy", "alembic", "psycopg2", "psycopg2-binary", "pymysql", "pymongo", "redis", "celery",
+  "kombu", "pyyaml", "toml", "tomli", "python-dotenv", "python-dateutil", "pytz", "tzdata",
+  "arrow", "six", "setuptools", "wheel", "pip", "virtualenv", "packaging", "pyparsing",
+  "cryptography", "pyopenssl", "paramiko", "bcrypt", "pyjwt", "oauthlib", "requests-oauthlib",
+  "cffi", "pycparser", "protobuf", "grpcio", "lxml", "beautifulsoup4", "soupsieve", "html5lib",
+  "selenium", "playwright", "scrapy", "pytest", "pytest-cov", "coverage", "tox", "nose", "mock",
+  "black", "flake8", "pylint", "mypy", "isort", "ruff", "pre-commit", "docutils", "sphinx",
+  "markdown", "pygments", "jsonschema", "simplejson", "orjson", "ujson", "msgpack", "psutil",
+  "pexpect", "docker", "kubernetes", "fabric", "ansible", "websockets", "websocket-client",
+  "pyserial", "openpyxl", "xlrd", "python-docx", "pypdf", "reportlab", "sympy", "networkx",
+  "statsmodels", "xgboost", "lightgbm", "jupyter", "ipython", "notebook", "streamlit", "gradio",
+  "mcp", "filelock", "platformdirs", "distlib", "wrapt", "decorator", "cachetools", "regex",
+  "chardet", "multidict", "yarl", "frozenlist", "aiosignal", "async-timeout", "greenlet",
+  "typing-extensions", "importlib-metadata", "zipp", "exceptiongroup", "iniconfig", "pluggy",
+  "pyarrow", "markdown2", "pyaml", "psycopg", "scapy",
+]);
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/** Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps. */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+// One edit away from a short name is usually just another short name ("ms" / "qs")
+const MIN_TYPOSQUAT_LENGTH = 5;
+
+const withoutSeparators = (name: string): string => name.replace(/[-_.]/g, "");
+
+/**
+ * The popular package `name` imitates, or null. A name imitates a popular one
+ * when it differs only in separators ("reactdom"), or by a single typo
+ * ("lodahs", "expres") and is long enough for that to be unlikely by chance.
+ */
+export function typosquatTarget(name: string, popular: ReadonlySet<string>): string | null {
+  const lower = name.toLowerCase();
+  if (popular.has(lower)) return null;
+  for (const target of popular) {
+    if (withoutSeparators(lower) === withoutSeparators(target)) return target;
+    if (lower.length >= MIN_TYPOSQUAT_LENGTH && Math.abs(lower.length - target.length) <= 1 && editDistance(lower, target) === 1) {
+      return target;
+    }
+  }
+  return null;
+}